@@ -6,7 +6,6 @@ import { TaskRoutes } from './TaskRoutes';
 import { HeatmapLayer } from './HeatmapLayer';
 import { WarehouseLanes } from './WarehouseLanes';
 import { useIoTWebSocket } from '../../hooks/useIoTWebSocket';
-import { snapToNearestPath, isOnValidPath } from '../../utils/pathValidation';
 
 interface WarehouseMapProps {
   width: number;
@@ -32,19 +31,12 @@ export function WarehouseMap({
   // WebSocket connection to IoT service for real-time data
   const { poses: liveEntities } = useIoTWebSocket();
   
-  // Convert WebSocket poses to dashboard format and apply path validation
+  // Convert WebSocket poses to dashboard format
   const entities: Pose[] = liveEntities.length > 0 ? liveEntities.map(wsEntity => {
-    let x = wsEntity.x;
-    let y = wsEntity.y;
-    
-    // For MQTT mode, snap positions to valid paths
-    if (dataSourceMode === 'mqtt' && wsEntity.entityType === 'forklift') {
-      if (!isOnValidPath({ x, y }, 0.5)) {
-        const snappedPos = snapToNearestPath({ x, y }, 2.0);
-        x = snappedPos.x;
-        y = snappedPos.y;
-      }
-    }
+    // With real tags live, show vehicles where the IoT service matched them onto a lane
+    const matched = dataSourceMode !== 'simulation' ? wsEntity.lane : undefined;
+    const x = matched?.x ?? wsEntity.x;
+    const y = matched?.y ?? wsEntity.y;
     
     return {
       entityId: wsEntity.entityId,
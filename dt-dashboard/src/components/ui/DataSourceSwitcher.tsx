@@ -5,7 +5,16 @@ interface DataSourceSwitcherProps {
   onModeChange?: (mode: DataSourceMode) => void;
 }
 
-export type DataSourceMode = 'simulation' | 'mqtt';
+// hybrid: real tags among simulated entities; replay: recorded telemetry,
+// started from the service's /replay endpoints rather than from here
+export type DataSourceMode = 'simulation' | 'mqtt' | 'hybrid' | 'replay';
+
+const MODE_LABELS: Record<DataSourceMode, { label: string; color: string }> = {
+  simulation: { label: 'Simulation', color: 'text-blue-400' },
+  mqtt: { label: 'MQTT Live', color: 'text-emerald-400' },
+  hybrid: { label: 'Hybrid', color: 'text-purple-400' },
+  replay: { label: 'Replay', color: 'text-amber-400' }
+};
 
 export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSourceSwitcherProps) {
   const [currentMode, setCurrentMode] = useState<DataSourceMode>('simulation');
@@ -19,7 +28,7 @@ export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSo
         const response = await fetch('http://localhost:3001/health');
         if (response.ok) {
           const data = await response.json();
-          setCurrentMode(data.mode || 'simulation');
+          setCurrentMode(Object.keys(MODE_LABELS).includes(data.mode) ? data.mode : 'simulation');
           setServiceStatus('connected');
           setMqttStatus(data.mqttConnected ? 'connected' : 'disconnected');
         } else {
@@ -69,6 +78,8 @@ export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSo
 
   const isSimulationActive = currentMode === 'simulation';
   const isMqttActive = currentMode === 'mqtt';
+  const isHybridActive = currentMode === 'hybrid';
+  const isReplayActive = currentMode === 'replay';
   const canUseMqtt = serviceStatus === 'connected' && (mqttStatus === 'connected' || isConnected);
 
   return (
@@ -104,6 +115,21 @@ export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSo
             canUseMqtt ? 'bg-emerald-400' : 'bg-red-500'
           }`} />
         </button>
+
+        <button
+          onClick={() => handleModeChange('hybrid')}
+          disabled={!canUseMqtt}
+          className={`px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 transition-all ${
+            isHybridActive
+              ? 'bg-purple-600 text-white shadow-md'
+              : canUseMqtt
+                ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                : 'text-gray-600 cursor-not-allowed opacity-50'
+          }`}
+        >
+          <span>🔀</span>
+          Hybrid
+        </button>
       </div>
 
       {/* Status Information */}
@@ -111,10 +137,8 @@ export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSo
         <div className="grid grid-cols-2 gap-2 text-gray-400">
           <div>
             <span className="text-gray-500">Mode:</span>
-            <span className={`ml-1 font-medium ${
-              isSimulationActive ? 'text-blue-400' : 'text-emerald-400'
-            }`}>
-              {currentMode === 'simulation' ? 'Simulation' : 'MQTT Live'}
+            <span className={`ml-1 font-medium ${MODE_LABELS[currentMode].color}`}>
+              {MODE_LABELS[currentMode].label}
             </span>
           </div>
           <div>
@@ -128,7 +152,13 @@ export function DataSourceSwitcher({ isConnected = false, onModeChange }: DataSo
           </div>
         </div>
         
-        {isMqttActive && (
+        {isReplayActive && (
+          <div className="mt-2 pt-2 border-t border-gray-700 text-gray-500">
+            Playing back recorded telemetry - choosing a source above ends the replay
+          </div>
+        )}
+
+        {(isMqttActive || isHybridActive) && (
           <div className="mt-2 pt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
               <span className="text-gray-500">MQTT Broker:</span>
@@ -10,16 +10,30 @@ interface PositionTick {
   heading: number;
   zoneId?: string;
   confidence?: number;
+  lane?: LaneMatch;                // matched by the IoT service for live tags
   t: number;
 }
 
+// Where the IoT service matched a live position onto the lane network
+interface LaneMatch {
+  laneId: string;
+  progress: number;
+  x: number;
+  y: number;
+  distance: number;
+}
+
 interface DTEvent {
   id: string;
   t: number;
-  type: 'congestion' | 'blocked' | 'nearCollision' | 'dwellExceeded' | 'zoneBreach' | 'reroute';
+  type: 'congestion' | 'blocked' | 'nearCollision' | 'dwellExceeded' | 'zoneBreach' | 'reroute' | 'speeding' | 'collisionWarning';
   assetIds?: string[];
   zoneId?: string;
   payload?: Record<string, any>;
+  state?: 'open' | 'update' | 'close';  // ongoing incidents keep one id through their lifecycle
+  startedAt?: number;
+  endedAt?: number;
+  durationMs?: number;
 }
 
 interface WebSocketMessage {
@@ -39,6 +53,7 @@ interface Pose {
   heading: number;
   zoneId?: string;
   confidence?: number;
+  lane?: LaneMatch;
   timestamp: number;
 }
 
@@ -50,6 +65,7 @@ interface Alert {
   entityId?: string;
   zoneId?: string;
   timestamp: number;
+  resolved?: boolean;              // the incident has closed
 }
 
 export function useIoTWebSocket(url: string = 'ws://localhost:8084') {
@@ -96,6 +112,7 @@ export function useIoTWebSocket(url: string = 'ws://localhost:8084') {
                   heading: tick.heading,
                   zoneId: tick.zoneId,
                   confidence: tick.confidence || 0.9,
+                  lane: tick.lane,
                   timestamp: tick.t
                 }));
                 setPoses(newPoses);
@@ -108,16 +125,22 @@ export function useIoTWebSocket(url: string = 'ws://localhost:8084') {
                 const event = message.data as DTEvent;
                 const newAlert: Alert = {
                   id: event.id,
-                  type: event.type === 'nearCollision' || event.type === 'blocked' ? 'error' : 
-                        event.type === 'congestion' || event.type === 'dwellExceeded' ? 'warning' : 'info',
+                  type: event.type === 'nearCollision' || event.type === 'blocked' ||
+                        (event.type === 'collisionWarning' && event.payload?.level === 'critical') ? 'error' : 
+                        event.type === 'congestion' || event.type === 'dwellExceeded' || event.type === 'speeding' ||
+                        event.type === 'collisionWarning' ? 'warning' : 'info',
                   title: formatEventTitle(event.type),
                   message: formatEventMessage(event),
                   entityId: event.assetIds?.[0],
                   zoneId: event.zoneId,
-                  timestamp: event.t
+                  timestamp: event.startedAt ?? event.t,
+                  resolved: event.state === 'close'
                 };
                 
-                setAlerts(prev => [newAlert, ...prev.slice(0, 49)]); // Keep last 50 alerts
+                // Updates and closes replace the alert their incident opened
+                setAlerts(prev => prev.some(alert => alert.id === newAlert.id)
+                  ? prev.map(alert => alert.id === newAlert.id ? newAlert : alert)
+                  : [newAlert, ...prev.slice(0, 49)]); // Keep last 50 alerts
               }
               break;
               
@@ -234,12 +257,21 @@ function formatEventTitle(eventType: string): string {
     'nearCollision': 'Near Collision',
     'dwellExceeded': 'Dwell Time Exceeded',
     'zoneBreach': 'Zone Breach',
-    'reroute': 'Route Changed'
+    'reroute': 'Route Changed',
+    'speeding': 'Speeding',
+    'collisionWarning': 'Collision Warning'
   };
   return titles[eventType] || eventType;
 }
 
 function formatEventMessage(event: DTEvent): string {
+  const message = describeEvent(event);
+  return event.state === 'close' && event.durationMs !== undefined
+    ? `${message} - cleared after ${(event.durationMs / 1000).toFixed(1)}s`
+    : message;
+}
+
+function describeEvent(event: DTEvent): string {
   const entityCount = event.assetIds?.length || 0;
   const entities = entityCount === 1 ? 'entity' : 'entities';
   
@@ -256,6 +288,10 @@ function formatEventMessage(event: DTEvent): string {
       return `Unauthorized access detected${event.zoneId ? ` in ${event.zoneId}` : ''}`;
     case 'reroute':
       return `Route optimization applied${event.payload?.reason ? `: ${event.payload.reason}` : ''}`;
+    case 'speeding':
+      return `${event.assetIds?.[0] ?? 'Entity'} at ${event.payload?.peakSpeed} m/s, limit ${event.payload?.limit} m/s${event.zoneId ? ` (${event.zoneId})` : ''}`;
+    case 'collisionWarning':
+      return `${event.assetIds?.join(' and ') ?? 'Entities'} on collision course (${event.payload?.level}${event.payload?.ttcSeconds !== undefined ? `, ${event.payload.ttcSeconds}s` : ''})`;
     default:
       return `${event.type} event detected`;
   }
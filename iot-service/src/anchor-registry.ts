@@ -0,0 +1,114 @@
+import { Anchor, AnchorMap } from './types';
+import { AnchorRange, MultilaterationError, MultilaterationOptions, MultilaterationResult, multilaterate } from './multilateration';
+
+const DEFAULT_MIN_ANCHORS = 3;
+const DEFAULT_MAX_GDOP = 8;
+
+/**
+ * Raised when an anchor map is malformed; lists every problem found
+ */
+export class AnchorMapError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid anchor map:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'AnchorMapError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * UWB anchor positions from anchors.json, for tags that report raw
+ * two-way ranges rather than a position of their own
+ */
+export class AnchorRegistry {
+  private byId: Map<string, Anchor>;
+  private options: MultilaterationOptions;
+
+  constructor(anchorMap: AnchorMap) {
+    const issues = validateAnchorMap(anchorMap);
+    if (issues.length > 0) {
+      throw new AnchorMapError(issues);
+    }
+
+    this.byId = new Map(anchorMap.anchors.map(anchor => [anchor.id, anchor]));
+    this.options = {
+      tagHeight: anchorMap.tagHeight ?? 0,
+      minAnchors: anchorMap.minAnchors ?? DEFAULT_MIN_ANCHORS,
+      maxGdop: anchorMap.maxGdop ?? DEFAULT_MAX_GDOP
+    };
+  }
+
+  public get(id: string): Anchor | undefined {
+    return this.byId.get(id);
+  }
+
+  public getAnchors(): Anchor[] {
+    return Array.from(this.byId.values());
+  }
+
+  /**
+   * Position from a tag's ranges (anchor id -> meters). Ranges to anchors
+   * not in the map are left out, and may leave too few to solve from.
+   */
+  public locate(ranges: Record<string, number>): MultilaterationResult {
+    const known: AnchorRange[] = [];
+    const unknown: string[] = [];
+    for (const [id, range] of Object.entries(ranges)) {
+      const anchor = this.byId.get(id);
+      if (anchor) known.push({ anchor, range });
+      else unknown.push(id);
+    }
+
+    try {
+      return multilaterate(known, this.options);
+    } catch (error) {
+      if (error instanceof MultilaterationError && error.code === 'tooFewAnchors' && unknown.length > 0) {
+        throw new MultilaterationError('tooFewAnchors', `${error.message}; unknown anchors ${unknown.join(', ')}`);
+      }
+      throw error;
+    }
+  }
+}
+
+function validateAnchorMap(anchorMap: AnchorMap): string[] {
+  const issues: string[] = [];
+
+  if (anchorMap?.units !== 'meters') {
+    issues.push('units: expected "meters"');
+  }
+  if (anchorMap?.tagHeight !== undefined && !Number.isFinite(anchorMap.tagHeight)) {
+    issues.push('tagHeight: expected a number');
+  }
+  if (anchorMap?.minAnchors !== undefined && !(Number.isInteger(anchorMap.minAnchors) && anchorMap.minAnchors >= 3)) {
+    issues.push('minAnchors: expected an integer of at least 3 - two ranges cannot fix a position');
+  }
+  if (anchorMap?.maxGdop !== undefined && !(Number.isFinite(anchorMap.maxGdop) && anchorMap.maxGdop >= 1)) {
+    issues.push('maxGdop: expected a number of at least 1');
+  }
+
+  if (!Array.isArray(anchorMap?.anchors)) {
+    issues.push('anchors: expected an array');
+    return issues;
+  }
+  const seen = new Set<string>();
+  anchorMap.anchors.forEach((anchor, i) => {
+    const label = typeof anchor?.id === 'string' && anchor.id ? `anchors.${anchor.id}` : `anchors[${i}]`;
+    if (typeof anchor?.id !== 'string' || !anchor.id) {
+      issues.push(`${label}: missing id`);
+    } else if (seen.has(anchor.id)) {
+      issues.push(`${label}: duplicate id`);
+    } else {
+      seen.add(anchor.id);
+    }
+
+    if (!Number.isFinite(anchor?.x) || !Number.isFinite(anchor?.y)) {
+      issues.push(`${label}: x and y must be numbers`);
+    }
+    if (anchor?.z !== undefined && !Number.isFinite(anchor.z)) {
+      issues.push(`${label}: z must be a number`);
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,106 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DTEvent, PositionTick, SimulatorConfig } from './types';
+
+const START = 1_700_000_000_000;
+const SERVICE_DIR = path.join(__dirname, '..');
+
+// Runs the script the way `npm run simulate:batch` does
+function batch(args: string[]) {
+  return spawnSync(
+    process.execPath,
+    [require.resolve('ts-node/dist/bin'), '--transpile-only', path.join(__dirname, 'batch-run.ts'), ...args],
+    { cwd: SERVICE_DIR, encoding: 'utf8', env: { ...process.env, CONFIG_FILE: '' } }
+  );
+}
+
+// One line of a run file
+type RunLine =
+  | { type: 'run'; start: number; hours: number; config: SimulatorConfig }
+  | { type: 'positions'; data: PositionTick[] }
+  | { type: 'event'; data: DTEvent };
+
+function readRun(file: string): RunLine[] {
+  return fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line) as RunLine);
+}
+
+describe('batch-run', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-run-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes a seeded run in virtual time, the same every time', () => {
+    const outputs = ['a', 'b'].map(name => path.join(dir, `${name}.ndjson`));
+    const args = ['--hours', '0.01', '--start', String(START), '--sim-seed', '42', '--tick-ms', '200', '--sim-speed', '2'];
+    for (const output of outputs) {
+      const result = batch([...args, '--output', output]);
+      expect(result.stderr).toBe('');
+      expect(result.status).toBe(0);
+    }
+
+    const [header, ...lines] = readRun(outputs[0]!);
+    expect(header).toMatchObject({ type: 'run', start: START, hours: 0.01, config: { seed: 42, tickMs: 200, simSpeed: 2 } });
+
+    // 36 s of simulated time in steps of 200 ms x 2
+    const steps = lines.filter(line => line.type === 'positions');
+    expect(steps).toHaveLength(90);
+    steps.forEach((step, i) => {
+      expect(step.data.length).toBeGreaterThan(0);
+      step.data.forEach(tick => expect(tick.t).toBe(START + (i + 1) * 400));
+    });
+
+    expect(fs.readFileSync(outputs[1]!, 'utf8')).toBe(fs.readFileSync(outputs[0]!, 'utf8'));
+  }, 60_000);
+
+  it('keeps every entity moving through an hour of mixed traffic', () => {
+    const output = path.join(dir, 'hour.ndjson');
+    const result = batch([
+      '--hours', '1', '--start', String(START), '--sim-seed', '7', '--tick-ms', '200', '--sim-speed', '1',
+      '--forklift-count', '2', '--pallet-count', '5', '--worker-count', '2', '--pallet-speed-min', '0.2',
+      '--output', output
+    ]);
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+
+    // Every entity covers at least 5 m in each five minutes - stuck in a
+    // deadlock it would cover none
+    const steps = readRun(output).filter(line => line.type === 'positions');
+    const windowSteps = (5 * 60 * 1000) / 200;
+    const stalled: string[] = [];
+    for (let start = 0; start < steps.length; start += windowSteps) {
+      const window = steps.slice(start, start + windowSteps);
+      const previous = new Map(window[0]!.data.map(tick => [tick.id, tick]));
+      const travelled = new Map<string, number>();
+      for (const step of window) {
+        for (const tick of step.data) {
+          const last = previous.get(tick.id)!;
+          travelled.set(tick.id, (travelled.get(tick.id) ?? 0) + Math.hypot(tick.x - last.x, tick.y - last.y));
+          previous.set(tick.id, tick);
+        }
+      }
+      for (const [id, distance] of travelled) {
+        if (distance < 5) stalled.push(`${id} from ${(start * 200) / 1000} s`);
+      }
+    }
+
+    expect(steps).toHaveLength(18000);
+    expect(steps[0]!.data).toHaveLength(9);
+    expect(stalled).toEqual([]);
+  }, 120_000);
+
+  it('rejects invalid batch options', () => {
+    const result = batch(['--hours', '0', '--output', path.join(dir, 'run.ndjson')]);
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('--hours: expected a positive number, got "0"');
+    expect(fs.existsSync(path.join(dir, 'run.ndjson'))).toBe(false);
+  }, 60_000);
+});
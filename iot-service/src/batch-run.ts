@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LaneNavigator, LaneMapError } from './lane-navigator';
+import { ZoneRegistry, ZoneMapError } from './zone-registry';
+import { WarehouseSimulator } from './warehouse-simulator';
+import { createEventPipeline } from './event-pipeline';
+import { VirtualClock } from './clock';
+import { createSeededRandom, createSeededIdGenerator } from './random';
+import { loadConfig, describeConfigOptions, ConfigError } from './config';
+
+/**
+ * Headless batch run: simulates a shift in virtual time, as fast as the CPU
+ * allows, and writes every tick and event to an NDJSON file. No WebSocket,
+ * HTTP or MQTT connections are opened.
+ *
+ *   npm run simulate:batch -- --hours 8 --output runs/shift.ndjson --sim-seed 42
+ *
+ * Any service option (see --help) can be passed as well. Output lines use
+ * the WebSocket message shapes: {"type":"positions","data":[...]} and
+ * {"type":"event","data":{...}}, preceded by one {"type":"run"} header.
+ */
+
+const WRITE_BATCH_LINES = 1000;
+
+interface BatchOptions {
+  hours: number;
+  output: string;
+  start: number;                   // virtual epoch ms of the first tick
+}
+
+/**
+ * Take the batch-only flags out of argv; the rest goes to loadConfig
+ */
+function parseBatchArgs(argv: string[]): { options: BatchOptions; rest: string[] } {
+  const options: BatchOptions = {
+    hours: 8,
+    output: path.join('runs', `batch-${Date.now()}.ndjson`),
+    start: Date.now()
+  };
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const eq = arg.indexOf('=');
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    const inline = eq === -1 ? undefined : arg.slice(eq + 1);
+    if (!['--hours', '--output', '--start'].includes(flag)) {
+      rest.push(arg);
+      continue;
+    }
+
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new ConfigError([`${flag} needs a value`]);
+    }
+
+    if (flag === '--hours') {
+      options.hours = Number(value);
+      if (!Number.isFinite(options.hours) || options.hours <= 0) {
+        throw new ConfigError([`--hours: expected a positive number, got "${value}"`]);
+      }
+    } else if (flag === '--output') {
+      options.output = value;
+    } else {
+      options.start = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      if (!Number.isFinite(options.start)) {
+        throw new ConfigError([`--start: expected epoch ms or an ISO date, got "${value}"`]);
+      }
+    }
+  }
+
+  return { options, rest };
+}
+
+function main(): void {
+  if (process.argv.includes('--help')) {
+    console.log('Batch options: --hours <n> (8), --output <file>, --start <epoch ms | ISO date> (now)');
+    console.log(describeConfigOptions());
+    return;
+  }
+
+  const { options, rest } = parseBatchArgs(process.argv.slice(2));
+  const config = loadConfig({ argv: rest });
+  const simulatorConfig = config.simulator;
+
+  const random = simulatorConfig.seed !== undefined ? createSeededRandom(simulatorConfig.seed) : Math.random;
+  const clock = new VirtualClock(options.start);
+
+  const laneConfig = JSON.parse(fs.readFileSync(config.lanesFile, 'utf8'));
+  const laneNavigator = new LaneNavigator(laneConfig, random);
+  const zones = new ZoneRegistry(JSON.parse(fs.readFileSync(config.zonesFile, 'utf8')));
+  const generateId = simulatorConfig.seed !== undefined ? createSeededIdGenerator(random) : undefined;
+  const simulator = new WarehouseSimulator(simulatorConfig, laneNavigator, { random, clock, generateId, zones });
+  const eventPipeline = createEventPipeline(simulatorConfig, laneNavigator, zones, generateId);
+
+  const tickMs = simulatorConfig.tickMs * simulatorConfig.simSpeed; // simulated ms per tick
+  const totalTicks = Math.ceil((options.hours * 60 * 60 * 1000) / tickMs);
+
+  fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+  const fd = fs.openSync(options.output, 'w');
+  let lines: string[] = [];
+  const write = (line: string) => {
+    lines.push(line);
+    if (lines.length >= WRITE_BATCH_LINES) {
+      fs.writeSync(fd, lines.join('\n') + '\n');
+      lines = [];
+    }
+  };
+
+  write(JSON.stringify({ type: 'run', start: options.start, hours: options.hours, config: simulatorConfig }));
+
+  const startedAt = Date.now();
+  let tickCount = 0;
+  let eventCount = 0;
+
+  try {
+    for (let i = 0; i < totalTicks; i++) {
+      clock.advance(tickMs);
+      const { positions, events } = simulator.step();
+      events.push(...eventPipeline.process(positions));
+
+      write(JSON.stringify({ type: 'positions', data: positions }));
+      events.forEach(event => write(JSON.stringify({ type: 'event', data: event })));
+
+      tickCount += positions.length;
+      eventCount += events.length;
+    }
+
+    if (lines.length > 0) {
+      fs.writeSync(fd, lines.join('\n') + '\n');
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const elapsed = (Date.now() - startedAt) / 1000;
+  console.log(`✅ Simulated ${options.hours}h (${totalTicks} steps) in ${elapsed.toFixed(1)}s`);
+  console.log(`   ${tickCount} ticks, ${eventCount} events -> ${options.output}`);
+}
+
+try {
+  main();
+} catch (error) {
+  if (error instanceof ConfigError || error instanceof LaneMapError || error instanceof ZoneMapError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
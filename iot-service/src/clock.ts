@@ -0,0 +1,29 @@
+/**
+ * Source of "now" in epoch milliseconds
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * Manually advanced clock for running simulated time faster than real time
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+
+  constructor(start: number) {
+    this.current = start;
+  }
+
+  public now(): number {
+    return this.current;
+  }
+
+  public advance(ms: number): void {
+    this.current += ms;
+  }
+}
@@ -0,0 +1,133 @@
+import { CollisionPredictor } from './collision-predictor';
+import { DTEvent, PositionTick } from './types';
+
+// Forklift headings are in degrees, workers' in radians
+function forklift(id: string, x: number, y: number, speed: number, heading: number, t: number): PositionTick {
+  return { id, type: 'forklift', x, y, speed, heading, zoneId: 'aisle-1', t };
+}
+
+function worker(id: string, x: number, y: number, speed: number, heading: number, t: number): PositionTick {
+  return { id, type: 'worker', x, y, speed, heading, zoneId: 'aisle-1', t };
+}
+
+describe('CollisionPredictor', () => {
+  let predictor: CollisionPredictor;
+
+  // A batch of ticks every 100 ms from `from` up to and including `to`;
+  // `at` gets the seconds since `from`
+  const run = (from: number, to: number, at: (t: number, s: number) => PositionTick[]): DTEvent[] => {
+    const events: DTEvent[] = [];
+    for (let t = from; t <= to; t += 100) events.push(...predictor.check(at(t, (t - from) / 1000)));
+    return events;
+  };
+  const levels = (events: DTEvent[]) => events.map(event => [event.state, event.payload?.level]);
+
+  beforeEach(() => {
+    let next = 0;
+    predictor = new CollisionPredictor(() => `event-${++next}`);
+  });
+
+  describe('graded warnings', () => {
+    it('raises the level as a head-on pair closes in', () => {
+      // 20 m apart, closing at 4 m/s
+      const events = run(0, 4000, (t, s) => [
+        forklift('forklift-a', 2 * s, 0, 2, 0, t),
+        forklift('forklift-b', 20 - 2 * s, 0, 2, 180, t)
+      ]);
+
+      expect(levels(events)).toEqual([['open', 'advisory'], ['update', 'warning'], ['update', 'critical']]);
+      expect(events[0]).toMatchObject({
+        type: 'collisionWarning',
+        assetIds: ['forklift-a', 'forklift-b'],
+        zoneId: 'aisle-1',
+        payload: { pairType: 'vehicle', clearance: 1.5, closingSpeed: 4, severity: 'low' }
+      });
+      expect(events[0]!.payload!.ttcSeconds).toBeLessThanOrEqual(3);
+      expect(events[2]!.payload).toMatchObject({ severity: 'high', peakSeverity: 'high' });
+    });
+
+    it('warns of pedestrians earlier and with a wider clearance', () => {
+      const approach = (other: (t: number) => PositionTick) =>
+        run(0, 3500, (t, s) => [forklift('forklift-a', 2 * s, 0, 2, 0, t), other(t)]);
+
+      const pedestrian = approach(t => worker('worker-1', 16, 0, 0, 0, t));
+      predictor.reset();
+      const vehicle = approach(t => forklift('forklift-b', 16, 0, 0, 0, t));
+
+      expect(pedestrian).toMatchObject([{ state: 'open', payload: { pairType: 'pedestrian', clearance: 2 } }]);
+      expect(vehicle).toEqual([]);
+    });
+  });
+
+  describe('courses', () => {
+    it('warns of paths crossing at the same time but not of one passing well ahead', () => {
+      const crossing = run(0, 4000, (t, s) => [
+        forklift('forklift-a', 2 * s, 0, 2, 0, t),
+        worker('worker-1', 10, -10 + 2 * s, 2, Math.PI / 2, t)
+      ]);
+      predictor.reset();
+      const passing = run(0, 4000, (t, s) => [
+        forklift('forklift-a', 2 * s, 0, 2, 0, t),
+        worker('worker-1', 10, -20 + 2 * s, 2, Math.PI / 2, t)
+      ]);
+
+      expect(crossing.length).toBeGreaterThan(0);
+      expect(passing).toEqual([]);
+    });
+
+    it('warns of catching up with a slower vehicle but not of following at the same speed', () => {
+      const following = (speed: number) => {
+        predictor.reset();
+        return run(0, 2000, (t, s) => [
+          forklift('forklift-a', 2 * s, 0, 2, 0, t),
+          forklift('forklift-b', 8 + speed * s, 0, speed, 0, t)
+        ]);
+      };
+
+      expect(following(2)).toEqual([]);
+      expect(levels(following(0.5))).toEqual([['open', 'advisory']]);
+    });
+
+    it('ignores pairs where neither is moving', () => {
+      expect(run(0, 2000, t => [forklift('forklift-a', 0, 0, 0, 0, t), worker('worker-1', 1, 0, 0, 0, t)])).toEqual([]);
+    });
+  });
+
+  describe('release', () => {
+    // The forklift keeps reporting the same position, so the prediction
+    // only changes when the worker does
+    const standoff = (from: number, to: number, workerY: number) =>
+      run(from, to, t => [forklift('forklift-a', 0, 0, 2, 0, t), worker('worker-1', 5, workerY, 0, 0, t)]);
+
+    it('holds a warning while the predicted miss stays within the release margin', () => {
+      const events = [...standoff(0, 2000, 1), ...standoff(2100, 5000, 2.3)];
+
+      expect(events.map(event => event.state)).toEqual(['open', 'update']);
+      expect(events[1]!.payload).toMatchObject({ level: 'advisory', closestDistance: 2.3 });
+    });
+
+    it('closes a warning once the pair will pass clear', () => {
+      const events = [...standoff(0, 2000, 1), ...standoff(2100, 5000, 3)];
+
+      expect(events.map(event => [event.state, event.id])).toEqual([['open', 'event-1'], ['close', 'event-1']]);
+    });
+
+    it('closes a warning once the pair has passed', () => {
+      const events = run(0, 7000, (t, s) => [
+        forklift('forklift-a', 2 * s, 0, 2, 0, t),
+        forklift('forklift-b', 20 - 2 * s, 0.5, 2, 180, t)
+      ]);
+
+      expect(events[events.length - 1]).toMatchObject({ state: 'close' });
+    });
+  });
+
+  it('forgets entities that stop reporting', () => {
+    predictor.check([forklift('forklift-b', 10, 0, 0, 0, 0)]);
+
+    // forklift-b was last seen stopped 10 m ahead, over STALE_MS ago
+    const events = run(11000, 14000, (t, s) => [forklift('forklift-a', 2 + 2 * s, 0, 2, 0, t)]);
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,381 @@
+import { PositionTick, DTEvent, EventSeverity } from './types';
+import { IncidentTracker } from './incident-tracker';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const STALE_MS = 10000;            // forget entities not heard from for this long
+const MOVING_SPEED = 0.1;          // m/s - a pair needs at least one mover to be on course
+const RELEASE_FACTOR = 1.3;        // a warning holds until the predicted miss is this many clearances
+const CLEAR_MS = 1000;             // no conflict predicted this long closes the warning
+const COOLDOWN_MS = 5000;
+const EVALUATE_MS = 300;           // how often each entity's pairs are predicted afresh
+const PATH_CELL_SIZE = 8;          // meters
+const PATH_SLACK_S = 1;            // paths run this much past the lookahead, for ticks that arrive late
+const PAIR_KEY_BASE = 2 ** 21;     // pair keys stay exact integers for this many entities
+
+export type CollisionWarningLevel = 'advisory' | 'warning' | 'critical';
+
+// Forklifts are the vehicles (pallets move only as their cargo): a pair of
+// forklifts is 'vehicle', a forklift and a worker 'pedestrian'
+export type CollisionPairType = 'vehicle' | 'pedestrian';
+
+interface PairThresholds {
+  clearance: number;               // meters - closer than this counts as a collision
+  criticalS: number;               // time to collision at or under which each level applies
+  warningS: number;
+  advisoryS: number;
+}
+
+const THRESHOLDS: Record<CollisionPairType, PairThresholds> = {
+  vehicle: { clearance: 1.5, criticalS: 1, warningS: 2, advisoryS: 3 },
+  pedestrian: { clearance: 2, criticalS: 1.5, warningS: 2.5, advisoryS: 4 }
+};
+
+const LOOKAHEAD_S = Math.max(...Object.values(THRESHOLDS).map(thresholds => thresholds.advisoryS));
+const MAX_CLEARANCE = Math.max(...Object.values(THRESHOLDS).map(thresholds => thresholds.clearance));
+
+const LEVEL_SEVERITY: Record<CollisionWarningLevel, EventSeverity> = {
+  advisory: 'low',
+  warning: 'medium',
+  critical: 'high'
+};
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Motion {
+  tick: PositionTick;
+  index: number;                   // the entity's number, for pair keys
+  vx: number;                      // m/s along x, from heading and speed
+  vy: number;
+  path: Box;                       // where it may be over the lookahead
+}
+
+interface Prediction {
+  ttc: number;                     // seconds until the pair is within clearance (0 if already)
+  tca: number;                     // seconds until closest approach
+  closestDistance: number;         // meters apart at closest approach
+  closingSpeed: number;            // m/s, rate the gap is shrinking now
+}
+
+/**
+ * Warns of collisions before they happen. Each entity is projected along
+ * its heading at its current speed, and every pair that could meet within
+ * the lookahead gets a time to collision (when the gap first drops under
+ * the pair's clearance) and a closest-approach distance. A pair on course
+ * to meet raises a `collisionWarning` graded advisory, warning or critical
+ * by time to collision; forklift-worker pairs get a wider clearance and
+ * earlier warnings than pairs of forklifts.
+ *
+ * Warnings open only while the pair is still apart - once inside the
+ * clearance it is a near miss, which the ProximityMonitor reports - and
+ * hold until they are no longer on course to meet.
+ *
+ * Predictions look seconds ahead, so an entity's pairs are re-predicted
+ * every EVALUATE_MS rather than on every tick, each entity on its own
+ * phase so that a full simulator step does not land at once.
+ */
+export class CollisionPredictor implements TickDetector {
+  private warnings: IncidentTracker<number>;
+  private latest: Map<string, Motion> = new Map();
+  private indexes: Map<string, number> = new Map();   // entity id -> its number
+  private nextIndex = 0;
+  private nextEvaluation: Map<string, number> = new Map();   // entity id -> when its pairs are next due
+  private forkliftPaths = new PathIndex(PATH_CELL_SIZE);
+  private workerPaths = new PathIndex(PATH_CELL_SIZE);
+  private lastSweep = 0;
+
+  constructor(generateId: () => string = () => uuidv4()) {
+    this.warnings = new IncidentTracker<number>('collisionWarning', {
+      clearMs: CLEAR_MS,
+      cooldownMs: COOLDOWN_MS
+    }, generateId);
+  }
+
+  public check(ticks: PositionTick[]): DTEvent[] {
+    if (ticks.length === 0) return [];
+
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+    const due: PositionTick[] = [];
+    for (const tick of ticks) {
+      if (tick.type === 'pallet') continue;
+      let index = this.indexes.get(tick.id);
+      if (index === undefined) {
+        index = this.nextIndex++;
+        this.indexes.set(tick.id, index);
+      }
+      const motion = motionOf(tick, index);
+      this.latest.set(tick.id, motion);
+      this.pathsOf(tick.type).update(tick.id, motion.path);
+      if (this.isDue(tick)) due.push(tick);
+    }
+    if (now - this.lastSweep >= STALE_MS) {
+      for (const { tick } of Array.from(this.latest.values())) {
+        if (now - tick.t <= STALE_MS) continue;
+        this.latest.delete(tick.id);
+        this.indexes.delete(tick.id);
+        this.nextEvaluation.delete(tick.id);
+        this.pathsOf(tick.type).remove(tick.id);
+      }
+      this.lastSweep = now;
+    }
+
+    return [...this.predict(due, now), ...this.warnings.closeIdle(now)];
+  }
+
+  public reset(): void {
+    this.warnings.reset();
+    this.latest.clear();
+    this.indexes.clear();
+    this.nextIndex = 0;
+    this.nextEvaluation.clear();
+    this.forkliftPaths.clear();
+    this.workerPaths.clear();
+    this.lastSweep = 0;
+  }
+
+  /**
+   * Pairs with a due entity whose paths over the lookahead come near each
+   * other. Either entity may be between reports; both are projected to now.
+   */
+  private predict(due: PositionTick[], now: number): DTEvent[] {
+    const events: DTEvent[] = [];
+
+    const observePair = (a: Motion, b: Motion) => {
+      if (a.tick.speed <= MOVING_SPEED && b.tick.speed <= MOVING_SPEED) return;
+      const pairType: CollisionPairType = a.tick.type === b.tick.type ? 'vehicle' : 'pedestrian';
+
+      const thresholds = THRESHOLDS[pairType];
+      const prediction = this.predictPair(a, b, now, thresholds.clearance);
+      if (!prediction) return;
+      const triggered = prediction.ttc > 0 && prediction.ttc <= thresholds.advisoryS;
+      if (!triggered && prediction.tca > thresholds.advisoryS * RELEASE_FACTOR) return;
+
+      // Numeric pair keys - the warnings of a busy floor run to thousands
+      const key = Math.min(a.index, b.index) * PAIR_KEY_BASE + Math.max(a.index, b.index);
+      if (!triggered && !this.warnings.isOpen(key)) return;
+
+      const first = a.tick.id < b.tick.id ? a.tick : b.tick;
+      const second = first === a.tick ? b.tick : a.tick;
+
+      const level = this.level(prediction.ttc, thresholds);
+      const event = this.warnings.observe(key, {
+        t: now,
+        triggered,
+        severity: LEVEL_SEVERITY[level],
+        assetIds: [first.id, second.id],
+        zoneId: first.zoneId || second.zoneId || 'unknown',
+        payload: {
+          level,
+          pairType,
+          ttcSeconds: Number.isFinite(prediction.ttc) ? Math.round(prediction.ttc * 10) / 10 : undefined,
+          closestDistance: Math.round(prediction.closestDistance * 100) / 100,
+          closestInSeconds: Math.round(prediction.tca * 10) / 10,
+          closingSpeed: Math.round(prediction.closingSpeed * 100) / 100,
+          clearance: thresholds.clearance
+        }
+      });
+      if (event) events.push(event);
+    };
+
+    // Forklifts are checked against forklifts and workers, workers against
+    // forklifts. Each pair is predicted once per interval, when its lower id
+    // is due - unless that entity has stopped reporting.
+    for (const tick of due) {
+      const motion = this.latest.get(tick.id)!;
+      const visit = (id: string) => {
+        if (id === tick.id) return;
+        const other = this.latest.get(id);
+        if (!other || (id < tick.id && now - other.tick.t < EVALUATE_MS)) return;
+        observePair(motion, other);
+      };
+      this.forkliftPaths.forEachOverlapping(motion.path, visit);
+      if (tick.type === 'forklift') this.workerPaths.forEachOverlapping(motion.path, visit);
+    }
+
+    return events;
+  }
+
+  /**
+   * Project both entities to `now` and along their headings, with the
+   * relative position p and velocity v of b as seen from a:
+   * closest approach at t = -(p.v)/|v|^2, and the gap first drops to the
+   * clearance at the smaller root of |p + vt| = clearance. Undefined when
+   * the pair is not closing, or will pass wider than RELEASE_FACTOR
+   * clearances - when no warning could open or hold.
+   */
+  private predictPair(a: Motion, b: Motion, now: number, clearance: number): Prediction | undefined {
+    const ax = a.tick.x + a.vx * (now - a.tick.t) / 1000;
+    const ay = a.tick.y + a.vy * (now - a.tick.t) / 1000;
+    const px = b.tick.x + b.vx * (now - b.tick.t) / 1000 - ax;
+    const py = b.tick.y + b.vy * (now - b.tick.t) / 1000 - ay;
+    const vx = b.vx - a.vx;
+    const vy = b.vy - a.vy;
+
+    const dot = px * vx + py * vy;
+    const speedSquared = vx * vx + vy * vy;
+    if (dot >= 0 || speedSquared < 1e-9) return undefined;
+
+    const tca = -dot / speedSquared;
+    const cx = px + vx * tca;
+    const cy = py + vy * tca;
+    const closestDistance = Math.sqrt(cx * cx + cy * cy);
+    if (closestDistance > clearance * RELEASE_FACTOR) return undefined;
+
+    const distance = Math.sqrt(px * px + py * py);
+    let ttc = Infinity;
+    if (distance <= clearance) {
+      ttc = 0;
+    } else if (closestDistance <= clearance) {
+      const c = distance * distance - clearance * clearance;
+      ttc = (-dot - Math.sqrt(dot * dot - speedSquared * c)) / speedSquared;
+    }
+
+    return { ttc, tca, closestDistance, closingSpeed: -dot / distance };
+  }
+
+  /**
+   * Whether an entity's pairs are due to be predicted again. A new
+   * entity's phase comes from its id, spreading entities over the interval.
+   */
+  private isDue(tick: PositionTick): boolean {
+    const next = this.nextEvaluation.get(tick.id);
+    if (next === undefined) {
+      let hash = 0;
+      for (let i = 0; i < tick.id.length; i++) hash = (hash * 31 + tick.id.charCodeAt(i)) >>> 0;
+      this.nextEvaluation.set(tick.id, tick.t + (hash % EVALUATE_MS));
+      return false;
+    }
+    if (tick.t < next) return false;
+    this.nextEvaluation.set(tick.id, next + Math.ceil((tick.t - next + 1) / EVALUATE_MS) * EVALUATE_MS);
+    return true;
+  }
+
+  private pathsOf(type: PositionTick['type']): PathIndex {
+    return type === 'forklift' ? this.forkliftPaths : this.workerPaths;
+  }
+
+  private level(ttc: number, thresholds: PairThresholds): CollisionWarningLevel {
+    if (ttc <= thresholds.criticalS) return 'critical';
+    if (ttc <= thresholds.warningS) return 'warning';
+    return 'advisory';
+  }
+}
+
+/**
+ * Uniform grid of the areas entities may cover over the lookahead. Unlike
+ * the SpatialIndex an item spans every cell its box touches; a pair of
+ * overlapping boxes is found in the cell holding the corner of their
+ * overlap, so each is visited once without keeping track.
+ */
+class PathIndex {
+  private cellSize: number;
+  private cells: Map<number, Map<string, Box>> = new Map();
+  private boxes: Map<string, Box> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  public update(id: string, box: Box): void {
+    const previous = this.boxes.get(id);
+    if (previous && this.sameCells(previous, box)) {
+      this.forEachCell(box, key => this.cells.get(key)?.set(id, box));
+      this.boxes.set(id, box);
+      return;
+    }
+
+    this.remove(id);
+    this.forEachCell(box, key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Map();
+        this.cells.set(key, cell);
+      }
+      cell.set(id, box);
+    });
+    this.boxes.set(id, box);
+  }
+
+  public remove(id: string): void {
+    const box = this.boxes.get(id);
+    if (!box) return;
+    this.forEachCell(box, key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      cell.delete(id);
+      if (cell.size === 0) this.cells.delete(key);
+    });
+    this.boxes.delete(id);
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.boxes.clear();
+  }
+
+  /**
+   * Visit each item whose box overlaps the given one, once
+   */
+  public forEachOverlapping(box: Box, visit: (id: string) => void): void {
+    this.forEachCell(box, (key, cx, cy) => {
+      this.cells.get(key)?.forEach((other, id) => {
+        if (other.minX > box.maxX || other.maxX < box.minX || other.minY > box.maxY || other.maxY < box.minY) return;
+        if (Math.floor(Math.max(box.minX, other.minX) / this.cellSize) !== cx ||
+            Math.floor(Math.max(box.minY, other.minY) / this.cellSize) !== cy) return;
+        visit(id);
+      });
+    });
+  }
+
+  private sameCells(a: Box, b: Box): boolean {
+    const size = this.cellSize;
+    return Math.floor(a.minX / size) === Math.floor(b.minX / size) &&
+      Math.floor(a.minY / size) === Math.floor(b.minY / size) &&
+      Math.floor(a.maxX / size) === Math.floor(b.maxX / size) &&
+      Math.floor(a.maxY / size) === Math.floor(b.maxY / size);
+  }
+
+  // Numeric cell keys, as this runs for every cell of every path on every tick
+  private forEachCell(box: Box, visit: (key: number, cx: number, cy: number) => void): void {
+    const maxX = Math.floor(box.maxX / this.cellSize);
+    const maxY = Math.floor(box.maxY / this.cellSize);
+    for (let cx = Math.floor(box.minX / this.cellSize); cx <= maxX; cx++) {
+      for (let cy = Math.floor(box.minY / this.cellSize); cy <= maxY; cy++) {
+        visit((cx + 32768) * 65536 + (cy + 32768), cx, cy);
+      }
+    }
+  }
+}
+
+/**
+ * Velocity from heading and speed - forklift headings are in degrees (as
+ * the simulator reports them), other entity types report radians - and the
+ * bounding box of the path over the lookahead, padded so that any two
+ * entities coming within a warning's release margin have overlapping boxes
+ */
+function motionOf(tick: PositionTick, index: number): Motion {
+  const heading = tick.type === 'forklift' ? tick.heading * (Math.PI / 180) : tick.heading;
+  const vx = Math.cos(heading) * tick.speed;
+  const vy = Math.sin(heading) * tick.speed;
+  const endX = tick.x + vx * (LOOKAHEAD_S + PATH_SLACK_S);
+  const endY = tick.y + vy * (LOOKAHEAD_S + PATH_SLACK_S);
+  const pad = MAX_CLEARANCE * RELEASE_FACTOR / 2;
+
+  return {
+    tick,
+    index,
+    vx,
+    vy,
+    path: {
+      minX: Math.min(tick.x, endX) - pad,
+      minY: Math.min(tick.y, endY) - pad,
+      maxX: Math.max(tick.x, endX) + pad,
+      maxY: Math.max(tick.y, endY) + pad
+    }
+  };
+}
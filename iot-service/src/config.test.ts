@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError, DEFAULT_CONFIG, loadConfig } from './config';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  const writeConfig = (data: unknown): string => {
+    const file = path.join(dir, 'service.json');
+    fs.writeFileSync(file, JSON.stringify(data));
+    return file;
+  };
+
+  const issuesOf = (load: () => unknown): string[] => {
+    try {
+      load();
+    } catch (error) {
+      if (error instanceof ConfigError) return error.issues;
+      throw error;
+    }
+    return [];
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('layers', () => {
+    it('uses the defaults when nothing is set', () => {
+      const config = loadConfig({ argv: [], env: {} });
+
+      expect(config.httpPort).toBe(DEFAULT_CONFIG.httpPort);
+      expect(config.simulator).toMatchObject(DEFAULT_CONFIG.simulator);
+      expect(config.simulator.mqttUrl).toBe(DEFAULT_CONFIG.mqtt.url);
+    });
+
+    it('lets the config file override the defaults, the environment the file and flags the environment', () => {
+      const file = writeConfig({ httpPort: 4000, simulator: { wsPort: 9000, tickMs: 100, forkliftCount: 5 } });
+      const config = loadConfig({
+        argv: ['--config', file, '--tick-ms', '50'],
+        env: { WS_PORT: '9001', TICK_MS: '75' }
+      });
+
+      expect(config.httpPort).toBe(4000);
+      expect(config.simulator.forkliftCount).toBe(5);
+      expect(config.simulator.wsPort).toBe(9001);
+      expect(config.simulator.tickMs).toBe(50);
+    });
+
+    it('reads the config file from CONFIG_FILE', () => {
+      const file = writeConfig({ httpPort: 4000 });
+
+      expect(loadConfig({ argv: [], env: { CONFIG_FILE: file } }).httpPort).toBe(4000);
+    });
+
+    it('accepts --flag=value and bare boolean flags', () => {
+      const config = loadConfig({ argv: ['--forklift-count=7', '--use-simulation'], env: { USE_SIMULATION: 'false' } });
+
+      expect(config.simulator.forkliftCount).toBe(7);
+      expect(config.simulator.useSimulation).toBe(true);
+    });
+
+    it('sets one element of a speed range', () => {
+      const config = loadConfig({ argv: ['--forklift-speed-max', '4'], env: {} });
+
+      expect(config.simulator.forkliftSpeedRange).toEqual([DEFAULT_CONFIG.simulator.forkliftSpeedRange[0], 4]);
+    });
+  });
+
+  describe('paths', () => {
+    it('takes relative paths in the config file from its directory', () => {
+      fs.mkdirSync(path.join(dir, 'site'));
+      fs.copyFileSync(DEFAULT_CONFIG.lanesFile, path.join(dir, 'site', 'lanes.json'));
+      fs.copyFileSync(DEFAULT_CONFIG.zonesFile, path.join(dir, 'site', 'zones.json'));
+      const file = writeConfig({ lanesFile: 'site/lanes.json', zonesFile: 'site/zones.json', storage: { dataDir: 'data' } });
+      const config = loadConfig({ argv: ['--config', file], env: {} });
+
+      expect(config.lanesFile).toBe(path.join(dir, 'site', 'lanes.json'));
+      expect(config.zonesFile).toBe(path.join(dir, 'site', 'zones.json'));
+      expect(config.storage.dataDir).toBe(path.join(dir, 'data'));
+    });
+
+    it('takes relative paths from the environment and flags from the working directory', () => {
+      const file = writeConfig({ storage: { dataDir: 'data' } });
+      const config = loadConfig({ argv: ['--config', file, '--data-dir', 'flagged'], env: {} });
+
+      expect(config.storage.dataDir).toBe(path.resolve('flagged'));
+    });
+  });
+
+  describe('errors', () => {
+    it('lists every invalid or unknown setting at once', () => {
+      const file = writeConfig({ httpPort: 'eighty', simulator: { colour: 'red' } });
+      const issues = issuesOf(() => loadConfig({
+        argv: ['--config', file, '--tick-ms', '5', '--no-such-flag', '1'],
+        env: { USE_SIMULATION: 'maybe' }
+      }));
+
+      expect(issues).toEqual([
+        'httpPort (service.json): expected a number, got "eighty"',
+        'service.json: unknown setting "simulator.colour"',
+        'simulator.useSimulation (USE_SIMULATION): expected true or false, got "maybe"',
+        'simulator.tickMs (--tick-ms): 5 is outside 10..∞',
+        'Unknown option --no-such-flag'
+      ]);
+    });
+
+    it('reports a config file that is not a JSON object', () => {
+      const file = writeConfig([1, 2]);
+
+      expect(issuesOf(() => loadConfig({ argv: ['--config', file], env: {} })))
+        .toEqual([`${file}: expected a JSON object`]);
+    });
+
+    it('checks settings against each other', () => {
+      const issues = issuesOf(() => loadConfig({
+        argv: ['--forklift-speed-min', '3', '--forklift-speed-max', '2', '--ws-port', '3001', '--lanes-file', 'missing.json'],
+        env: {}
+      }));
+
+      expect(issues).toEqual([
+        'simulator.forkliftSpeedRange: min 3 is greater than max 2',
+        'lanesFile: missing.json does not exist',
+        'simulator.wsPort and httpPort must differ (both 3001)'
+      ]);
+    });
+  });
+
+  describe('mqtt', () => {
+    it('takes relative certificate paths in the config file from its directory', () => {
+      fs.writeFileSync(path.join(dir, 'ca.pem'), '');
+      const file = writeConfig({ mqtt: { url: 'mqtts://broker:8883', tls: { caFile: 'ca.pem' } } });
+
+      expect(loadConfig({ argv: ['--config', file], env: {} }).mqtt.tls.caFile).toBe(path.join(dir, 'ca.pem'));
+    });
+
+    it('needs a secure URL for certificates, and certificates that exist', () => {
+      const plain = issuesOf(() => loadConfig({ argv: ['--mqtt-ca-file', 'ca.pem'], env: {} }));
+      const secure = issuesOf(() => loadConfig({ argv: ['--mqtt-url', 'mqtts://broker:8883', '--mqtt-ca-file', 'missing.pem'], env: {} }));
+
+      expect(plain).toEqual([`mqtt.tls.caFile: needs an mqtts://, wss:// or ssl:// URL, got "${DEFAULT_CONFIG.mqtt.url}"`]);
+      expect(secure).toEqual(['mqtt.tls.caFile: missing.pem does not exist']);
+    });
+
+    it('needs a client certificate and its key together', () => {
+      fs.writeFileSync(path.join(dir, 'client.pem'), '');
+      const issues = issuesOf(() => loadConfig({
+        argv: ['--mqtt-url', 'mqtts://broker:8883', '--mqtt-cert-file', path.join(dir, 'client.pem')],
+        env: {}
+      }));
+
+      expect(issues).toEqual(['mqtt.tls: certFile and keyFile must be given together']);
+    });
+
+    it('needs a username for a password and a client id for a kept session', () => {
+      const issues = issuesOf(() => loadConfig({ argv: ['--mqtt-password', 'secret', '--mqtt-clean-session', 'false'], env: {} }));
+
+      expect(issues).toEqual([
+        'mqtt.password: needs mqtt.username',
+        'mqtt.cleanSession: false needs a fixed mqtt.clientId'
+      ]);
+    });
+
+    it('does not allow wildcards in the will topic', () => {
+      const issues = issuesOf(() => loadConfig({ argv: ['--mqtt-will-topic', 'site/+/status'], env: {} }));
+
+      expect(issues).toEqual(['mqtt.will.topic: wildcards are not allowed in a topic to publish to, got "site/+/status"']);
+    });
+
+    it('checks the will QoS range', () => {
+      const issues = issuesOf(() => loadConfig({ argv: [], env: { MQTT_WILL_QOS: '3' } }));
+
+      expect(issues).toEqual(['mqtt.will.qos (MQTT_WILL_QOS): 3 is outside 0..2']);
+    });
+  });
+});
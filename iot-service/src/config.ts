@@ -0,0 +1,471 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { ServiceConfig } from './types';
+import { TopicRouter, TopicTemplateError, parseTopicList } from './mqtt-topics';
+
+/**
+ * Service configuration, layered as:
+ *   defaults < config file < environment (.env included) < CLI flags
+ *
+ * Every setting has an environment variable and a matching CLI flag derived
+ * from it (WS_PORT -> --ws-port). The config file is JSON shaped like
+ * ServiceConfig; it is read from --config / CONFIG_FILE, or from
+ * config/service.json when that exists. Relative paths in the config file
+ * are taken from its directory, and elsewhere from the working directory.
+ */
+
+export const DEFAULT_CONFIG: ServiceConfig = {
+  httpPort: 3001,
+  lanesFile: path.join(__dirname, '../config/lanes.json'),
+  zonesFile: path.join(__dirname, '../config/zones.json'),
+  anchorsFile: path.join(__dirname, '../config/anchors.json'),
+  simulator: {
+    wsPort: 8084,
+    useSimulation: true,
+    forkliftCount: 2,
+    palletCount: 0,  // Focus on forklifts for testing
+    workerCount: 0,  // Focus on forklifts for testing
+    forkliftSpeedRange: [1.0, 2.5],      // m/s
+    palletSpeedRange: [0.5, 1.8],        // m/s
+    workerSpeedRange: [0.3, 1.5],        // m/s
+    tickMs: 200,                          // 5Hz updates (200ms)
+    simSpeed: 1.0,                        // real-time
+    eventProbability: 0.001,              // per tick per entity
+    collisionRadius: 1.5,                 // meters
+    congestionThreshold: 3,               // entities per lane
+    stationaryDwellMs: 5 * 60 * 1000,     // standing still longer than this is a dwell
+    speedLimits: { forklift: 3.0, pallet: 2.0, worker: 2.5 }, // m/s
+    speedingSustainMs: 2000               // over the limit this long is speeding
+  },
+  mqtt: {
+    url: 'mqtt://broker.hivemq.com:1883',
+    topic: 'aqilah/dev/01',
+    decodersFile: path.join(__dirname, '../config/decoders.json'),
+    qos: 1,
+    cleanSession: true,
+    tls: {
+      rejectUnauthorized: true
+    },
+    will: {
+      payload: 'offline',
+      qos: 1,
+      retain: true
+    }
+  },
+  tracking: {
+    enabled: true,
+    accelerationNoise: 1.0,               // m/s²
+    maxSpeed: 8                           // m/s, faster than anything on the floor
+  },
+  mapMatching: {
+    enabled: true,
+    searchRadius: 5,                      // meters
+    positionSigma: 1.0                    // meters
+  },
+  storage: {
+    driver: 'ndjson',
+    dataDir: path.join(__dirname, '../data'),
+    segmentDurationMs: 60 * 60 * 1000,    // one segment per hour
+    maxSegmentBytes: 64 * 1024 * 1024,    // 64 MB
+    retentionMs: 7 * 24 * 60 * 60 * 1000, // one week
+    maxTotalBytes: 2 * 1024 * 1024 * 1024, // 2 GB
+    flushIntervalMs: 1000,
+    memoryBufferSize: 1000
+  }
+};
+
+const DEFAULT_CONFIG_FILE = path.join(__dirname, '../config/service.json');
+const ENV_FILE = path.join(__dirname, '../.env');
+
+type FieldKind = 'integer' | 'number' | 'boolean' | 'string';
+
+interface ConfigField {
+  path: string;                    // dotted path into ServiceConfig
+  env: string;                     // environment variable name
+  kind: FieldKind;
+  min?: number;
+  max?: number;
+  values?: string[];               // allowed values for string fields
+  file?: boolean;                  // a file or directory path
+}
+
+const CONFIG_FIELDS: ConfigField[] = [
+  { path: 'httpPort', env: 'HTTP_PORT', kind: 'integer', min: 1, max: 65535 },
+  { path: 'lanesFile', env: 'LANES_FILE', kind: 'string', file: true },
+  { path: 'zonesFile', env: 'ZONES_FILE', kind: 'string', file: true },
+  { path: 'anchorsFile', env: 'ANCHORS_FILE', kind: 'string', file: true },
+  { path: 'simulator.wsPort', env: 'WS_PORT', kind: 'integer', min: 1, max: 65535 },
+  { path: 'simulator.useSimulation', env: 'USE_SIMULATION', kind: 'boolean' },
+  { path: 'simulator.tickMs', env: 'TICK_MS', kind: 'integer', min: 10 },
+  { path: 'simulator.simSpeed', env: 'SIM_SPEED', kind: 'number', min: 0.01 }, // 0 would never advance time
+  { path: 'simulator.seed', env: 'SIM_SEED', kind: 'integer', min: 0 },
+  { path: 'simulator.forkliftCount', env: 'FORKLIFT_COUNT', kind: 'integer', min: 0 },
+  { path: 'simulator.palletCount', env: 'PALLET_COUNT', kind: 'integer', min: 0 },
+  { path: 'simulator.workerCount', env: 'WORKER_COUNT', kind: 'integer', min: 0 },
+  { path: 'simulator.forkliftSpeedRange.0', env: 'FORKLIFT_SPEED_MIN', kind: 'number', min: 0 },
+  { path: 'simulator.forkliftSpeedRange.1', env: 'FORKLIFT_SPEED_MAX', kind: 'number', min: 0 },
+  { path: 'simulator.palletSpeedRange.0', env: 'PALLET_SPEED_MIN', kind: 'number', min: 0 },
+  { path: 'simulator.palletSpeedRange.1', env: 'PALLET_SPEED_MAX', kind: 'number', min: 0 },
+  { path: 'simulator.workerSpeedRange.0', env: 'WORKER_SPEED_MIN', kind: 'number', min: 0 },
+  { path: 'simulator.workerSpeedRange.1', env: 'WORKER_SPEED_MAX', kind: 'number', min: 0 },
+  { path: 'simulator.eventProbability', env: 'EVENT_PROBABILITY', kind: 'number', min: 0, max: 1 },
+  { path: 'simulator.congestionThreshold', env: 'CONGESTION_THRESHOLD', kind: 'integer', min: 1 },
+  { path: 'simulator.collisionRadius', env: 'COLLISION_RADIUS', kind: 'number', min: 0 },
+  { path: 'simulator.stationaryDwellMs', env: 'STATIONARY_DWELL_MS', kind: 'integer', min: 1000 },
+  { path: 'simulator.speedLimits.forklift', env: 'SPEED_LIMIT_FORKLIFT', kind: 'number', min: 0 },
+  { path: 'simulator.speedLimits.pallet', env: 'SPEED_LIMIT_PALLET', kind: 'number', min: 0 },
+  { path: 'simulator.speedLimits.worker', env: 'SPEED_LIMIT_WORKER', kind: 'number', min: 0 },
+  { path: 'simulator.speedingSustainMs', env: 'SPEEDING_SUSTAIN_MS', kind: 'integer', min: 0 },
+  { path: 'mqtt.url', env: 'MQTT_URL', kind: 'string' },
+  { path: 'mqtt.topic', env: 'MQTT_TOPIC', kind: 'string' },
+  { path: 'mqtt.decodersFile', env: 'MQTT_DECODERS_FILE', kind: 'string', file: true },
+  { path: 'mqtt.qos', env: 'MQTT_QOS', kind: 'integer', min: 0, max: 2 },
+  { path: 'mqtt.clientId', env: 'MQTT_CLIENT_ID', kind: 'string' },
+  { path: 'mqtt.cleanSession', env: 'MQTT_CLEAN_SESSION', kind: 'boolean' },
+  { path: 'mqtt.username', env: 'MQTT_USERNAME', kind: 'string' },
+  { path: 'mqtt.password', env: 'MQTT_PASSWORD', kind: 'string' },
+  { path: 'mqtt.tls.caFile', env: 'MQTT_CA_FILE', kind: 'string', file: true },
+  { path: 'mqtt.tls.certFile', env: 'MQTT_CERT_FILE', kind: 'string', file: true },
+  { path: 'mqtt.tls.keyFile', env: 'MQTT_KEY_FILE', kind: 'string', file: true },
+  { path: 'mqtt.tls.rejectUnauthorized', env: 'MQTT_REJECT_UNAUTHORIZED', kind: 'boolean' },
+  { path: 'mqtt.will.topic', env: 'MQTT_WILL_TOPIC', kind: 'string' },
+  { path: 'mqtt.will.payload', env: 'MQTT_WILL_PAYLOAD', kind: 'string' },
+  { path: 'mqtt.will.qos', env: 'MQTT_WILL_QOS', kind: 'integer', min: 0, max: 2 },
+  { path: 'mqtt.will.retain', env: 'MQTT_WILL_RETAIN', kind: 'boolean' },
+  { path: 'tracking.enabled', env: 'TRACKING_ENABLED', kind: 'boolean' },
+  { path: 'tracking.accelerationNoise', env: 'TRACKING_ACCELERATION_NOISE', kind: 'number', min: 0.01 },
+  { path: 'tracking.maxSpeed', env: 'TRACKING_MAX_SPEED', kind: 'number', min: 0.1 },
+  { path: 'mapMatching.enabled', env: 'MAP_MATCHING_ENABLED', kind: 'boolean' },
+  { path: 'mapMatching.searchRadius', env: 'MAP_MATCHING_SEARCH_RADIUS', kind: 'number', min: 0.5 },
+  { path: 'mapMatching.positionSigma', env: 'MAP_MATCHING_POSITION_SIGMA', kind: 'number', min: 0.05 },
+  { path: 'storage.driver', env: 'STORAGE_DRIVER', kind: 'string', values: ['ndjson', 'memory'] },
+  { path: 'storage.dataDir', env: 'DATA_DIR', kind: 'string', file: true },
+  { path: 'storage.segmentDurationMs', env: 'SEGMENT_DURATION_MS', kind: 'integer', min: 1000 },
+  { path: 'storage.maxSegmentBytes', env: 'MAX_SEGMENT_BYTES', kind: 'integer', min: 1024 },
+  { path: 'storage.retentionMs', env: 'RETENTION_MS', kind: 'integer', min: 0 },
+  { path: 'storage.maxTotalBytes', env: 'MAX_STORAGE_BYTES', kind: 'integer', min: 1024 },
+  { path: 'storage.flushIntervalMs', env: 'FLUSH_INTERVAL_MS', kind: 'integer', min: 10 },
+  { path: 'storage.memoryBufferSize', env: 'MEMORY_BUFFER_SIZE', kind: 'integer', min: 1 }
+];
+
+/**
+ * Raised when configuration cannot be loaded; lists every problem found
+ */
+export class ConfigError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+function flagName(field: ConfigField): string {
+  return `--${field.env.toLowerCase().replace(/_/g, '-')}`;
+}
+
+// Objects and arrays both index by key ("forkliftSpeedRange.0")
+function isConfigNode(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function getPath(target: Record<string, unknown>, dotted: string): unknown {
+  let node: unknown = target;
+  for (const key of dotted.split('.')) {
+    if (!isConfigNode(node)) return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+// Every CONFIG_FIELDS parent exists in DEFAULT_CONFIG, so a missing one is a bug here
+function setPath(target: Record<string, unknown>, dotted: string, value: unknown): void {
+  const keys = dotted.split('.');
+  const last = keys.pop()!;
+  let parent = target;
+  for (const key of keys) {
+    const child = parent[key];
+    if (!isConfigNode(child)) {
+      throw new Error(`Config path ${dotted}: ${key} has no default object`);
+    }
+    parent = child;
+  }
+  parent[last] = value;
+}
+
+/**
+ * Convert and range-check one value; strings from env/CLI are coerced
+ */
+function coerceValue(field: ConfigField, raw: unknown, source: string, issues: string[]): unknown {
+  let value: unknown = raw;
+
+  if (typeof raw === 'string' && field.kind !== 'string') {
+    const text = raw.trim();
+    if (field.kind === 'boolean') {
+      value = ['true', '1', 'yes'].includes(text.toLowerCase()) ? true
+        : ['false', '0', 'no'].includes(text.toLowerCase()) ? false
+        : raw;
+    } else {
+      value = text === '' ? NaN : Number(text);
+    }
+  }
+
+  const describe = `${field.path} (${source})`;
+  switch (field.kind) {
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push(`${describe}: expected true or false, got ${JSON.stringify(raw)}`);
+        return undefined;
+      }
+      return value;
+    case 'string':
+      if (typeof value !== 'string' || value === '') {
+        issues.push(`${describe}: expected a non-empty string, got ${JSON.stringify(raw)}`);
+        return undefined;
+      }
+      if (field.values && !field.values.includes(value)) {
+        issues.push(`${describe}: expected one of ${field.values.join(', ')}, got "${value}"`);
+        return undefined;
+      }
+      return value;
+    default:
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${describe}: expected a number, got ${JSON.stringify(raw)}`);
+        return undefined;
+      }
+      if (field.kind === 'integer' && !Number.isInteger(value)) {
+        issues.push(`${describe}: expected an integer, got ${value}`);
+        return undefined;
+      }
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        issues.push(`${describe}: ${value} is outside ${field.min ?? '-∞'}..${field.max ?? '∞'}`);
+        return undefined;
+      }
+      return value;
+  }
+}
+
+/**
+ * Split argv into a flag -> value map, accepting "--flag value",
+ * "--flag=value" and bare boolean flags
+ */
+function parseArgs(argv: string[], issues: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith('--')) {
+      issues.push(`Unexpected argument "${arg}"`);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      args.set(arg.slice(0, eq), arg.slice(eq + 1));
+    } else if (argv[i + 1] !== undefined && !argv[i + 1]!.startsWith('--')) {
+      args.set(arg, argv[++i]!);
+    } else {
+      args.set(arg, 'true');
+    }
+  }
+
+  return args;
+}
+
+function readConfigFile(file: string, issues: string[]): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      issues.push(`${file}: expected a JSON object`);
+      return null;
+    }
+    return data;
+  } catch (error) {
+    issues.push(`${file}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Collect the leaf paths of a config file, e.g. "simulator.forkliftSpeedRange.0"
+ */
+function leafPaths(node: unknown, prefix: string, out: Map<string, unknown>): void {
+  if (Array.isArray(node)) {
+    node.forEach((value, i) => leafPaths(value, `${prefix}.${i}`, out));
+  } else if (typeof node === 'object' && node !== null) {
+    for (const [key, value] of Object.entries(node)) {
+      leafPaths(value, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, node);
+  }
+}
+
+export interface LoadConfigOptions {
+  argv?: string[];                 // defaults to process.argv.slice(2)
+  env?: NodeJS.ProcessEnv;         // defaults to process.env plus .env
+}
+
+/**
+ * Build the service configuration from all layers; throws ConfigError
+ * listing every invalid or unknown setting
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ServiceConfig {
+  const issues: string[] = [];
+  const argv = options.argv ?? process.argv.slice(2);
+  if (!options.env) {
+    dotenv.config({ path: ENV_FILE, quiet: true }); // never overrides real env vars
+  }
+  const env = options.env ?? process.env;
+
+  const config: ServiceConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const configTree = config as unknown as Record<string, unknown>;
+  const args = parseArgs(argv, issues);
+  const fieldsByPath = new Map(CONFIG_FIELDS.map(field => [field.path, field]));
+  const fieldsByFlag = new Map(CONFIG_FIELDS.map(field => [flagName(field), field]));
+
+  const apply = (field: ConfigField, raw: unknown, source: string) => {
+    const value = coerceValue(field, raw, source, issues);
+    if (value !== undefined) setPath(configTree, field.path, value);
+  };
+
+  // Config file
+  const configFile = args.get('--config') ?? env.CONFIG_FILE;
+  const file = configFile ? path.resolve(configFile) : DEFAULT_CONFIG_FILE;
+  if (configFile || fs.existsSync(file)) {
+    const data = readConfigFile(file, issues);
+    if (data) {
+      const leaves = new Map<string, unknown>();
+      leafPaths(data, '', leaves);
+      for (const [leaf, raw] of leaves) {
+        const field = fieldsByPath.get(leaf);
+        if (field) {
+          const value = field.file && typeof raw === 'string' && raw !== '' ? path.resolve(path.dirname(file), raw) : raw;
+          apply(field, value, path.basename(file));
+        } else {
+          issues.push(`${path.basename(file)}: unknown setting "${leaf}"`);
+        }
+      }
+    }
+  }
+
+  // Environment
+  for (const field of CONFIG_FIELDS) {
+    const raw = env[field.env];
+    if (raw !== undefined) apply(field, raw, field.env);
+  }
+
+  // CLI flags
+  for (const [flag, raw] of args) {
+    if (flag === '--config') continue;
+    const field = fieldsByFlag.get(flag);
+    if (field) {
+      apply(field, raw, flag);
+    } else {
+      issues.push(`Unknown option ${flag}`);
+    }
+  }
+
+  validateConfig(config, issues);
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  config.lanesFile = path.resolve(config.lanesFile);
+  config.zonesFile = path.resolve(config.zonesFile);
+  config.anchorsFile = path.resolve(config.anchorsFile);
+  config.mqtt.decodersFile = path.resolve(config.mqtt.decodersFile);
+  for (const name of ['caFile', 'certFile', 'keyFile'] as const) {
+    if (config.mqtt.tls[name]) config.mqtt.tls[name] = path.resolve(config.mqtt.tls[name]!);
+  }
+  config.storage.dataDir = path.resolve(config.storage.dataDir);
+  config.simulator.mqttUrl = config.mqtt.url;
+  return config;
+}
+
+/**
+ * Checks that span more than one setting
+ */
+function validateConfig(config: ServiceConfig, issues: string[]): void {
+  const sim = config.simulator;
+
+  for (const name of ['forkliftSpeedRange', 'palletSpeedRange', 'workerSpeedRange'] as const) {
+    const [min, max] = sim[name];
+    if (min > max) {
+      issues.push(`simulator.${name}: min ${min} is greater than max ${max}`);
+    }
+  }
+
+  if (!fs.existsSync(config.lanesFile)) {
+    issues.push(`lanesFile: ${config.lanesFile} does not exist`);
+  }
+
+  if (!fs.existsSync(config.zonesFile)) {
+    issues.push(`zonesFile: ${config.zonesFile} does not exist`);
+  }
+
+  if (!fs.existsSync(config.anchorsFile)) {
+    issues.push(`anchorsFile: ${config.anchorsFile} does not exist`);
+  }
+
+  if (!fs.existsSync(config.mqtt.decodersFile)) {
+    issues.push(`mqtt.decodersFile: ${config.mqtt.decodersFile} does not exist`);
+  }
+
+  if (sim.wsPort === config.httpPort) {
+    issues.push(`simulator.wsPort and httpPort must differ (both ${config.httpPort})`);
+  }
+
+  if (!/^(mqtts?|wss?|tcp|ssl):\/\//.test(config.mqtt.url)) {
+    issues.push(`mqtt.url: expected an mqtt(s)://, ws(s)://, tcp:// or ssl:// URL, got "${config.mqtt.url}"`);
+  }
+
+  const mqtt = config.mqtt;
+  const secure = /^(mqtts|wss|ssl):\/\//.test(mqtt.url);
+  for (const name of ['caFile', 'certFile', 'keyFile'] as const) {
+    const file = mqtt.tls[name];
+    if (file === undefined) continue;
+    if (!secure) {
+      issues.push(`mqtt.tls.${name}: needs an mqtts://, wss:// or ssl:// URL, got "${mqtt.url}"`);
+    } else if (!fs.existsSync(file)) {
+      issues.push(`mqtt.tls.${name}: ${file} does not exist`);
+    }
+  }
+  if ((mqtt.tls.certFile === undefined) !== (mqtt.tls.keyFile === undefined)) {
+    issues.push('mqtt.tls: certFile and keyFile must be given together');
+  }
+
+  if (mqtt.password !== undefined && mqtt.username === undefined) {
+    issues.push('mqtt.password: needs mqtt.username');
+  }
+
+  // The broker keeps a session by client id; a fresh id could never resume it
+  if (!mqtt.cleanSession && mqtt.clientId === undefined) {
+    issues.push('mqtt.cleanSession: false needs a fixed mqtt.clientId');
+  }
+
+  if (mqtt.will.topic !== undefined && /[#+]/.test(mqtt.will.topic)) {
+    issues.push(`mqtt.will.topic: wildcards are not allowed in a topic to publish to, got "${mqtt.will.topic}"`);
+  }
+
+  try {
+    new TopicRouter(parseTopicList(config.mqtt.topic));
+  } catch (error) {
+    if (!(error instanceof TopicTemplateError)) throw error;
+    issues.push(...error.issues.map(issue => `mqtt.topic: ${issue}`));
+  }
+}
+
+/**
+ * Usage text listing every setting with its env variable and CLI flag
+ */
+export function describeConfigOptions(): string {
+  const lines = ['Options (CLI flag / environment variable / default):'];
+  lines.push('  --config <file>  CONFIG_FILE  config/service.json');
+  for (const field of CONFIG_FIELDS) {
+    lines.push(`  ${flagName(field)}  ${field.env}  ${JSON.stringify(getPath(DEFAULT_CONFIG as unknown as Record<string, unknown>, field.path)) ?? 'unset'}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,188 @@
+import { DecoderMap, DecoderRule, PayloadFormat } from './types';
+import { TopicRouter, TopicTemplateError } from './mqtt-topics';
+import { AnchorRegistry } from './anchor-registry';
+import {
+  PayloadDecoder,
+  PayloadDecodeError,
+  DecodedPosition,
+  DecodeErrorCode,
+  PositionField,
+  POSITION_FIELDS,
+  AutoDecoder,
+  JsonDecoder,
+  CsvDecoder,
+  BinaryFrameDecoder,
+  PozyxDecoder,
+  RangeDecoder
+} from './payload-decoders';
+
+const PAYLOAD_FORMATS: PayloadFormat[] = ['auto', 'json', 'csv', 'binary', 'pozyx', 'ranges'];
+
+/**
+ * Raised when a decoder map is malformed; lists every problem found
+ */
+export class DecoderMapError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid decoder map:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'DecoderMapError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Decoding counts for one rule, for diagnostics
+ */
+export interface DecoderStats {
+  topic: string;
+  format: PayloadFormat;
+  messages: number;                // payloads routed to the rule
+  positions: number;               // positions decoded from them
+  errors: number;                  // payloads rejected
+  errorsByCode: Partial<Record<DecodeErrorCode, number>>;
+  lastError?: { t: number; topic: string; code: DecodeErrorCode; field?: string; message: string };
+}
+
+interface RegisteredDecoder {
+  decoder: PayloadDecoder;
+  stats: DecoderStats;
+}
+
+/**
+ * Picks the decoder for each MQTT topic from decoders.json and counts what
+ * each one decodes and rejects. Rules match topic filters or templates in
+ * listed order; topics no rule matches get the "auto" decoder, which takes
+ * the JSON and CSV payloads the service has always accepted.
+ */
+export class DecoderRegistry {
+  private router?: TopicRouter;
+  private byTemplate: Map<string, RegisteredDecoder> = new Map();
+  private fallback: RegisteredDecoder;
+
+  constructor(decoderMap: DecoderMap, anchors: AnchorRegistry) {
+    const issues = validateDecoderMap(decoderMap);
+    if (issues.length > 0) {
+      throw new DecoderMapError(issues);
+    }
+
+    for (const rule of decoderMap.decoders) {
+      if (!this.byTemplate.has(rule.topic)) {
+        this.byTemplate.set(rule.topic, { decoder: createDecoder(rule, anchors), stats: emptyStats(rule.topic, rule.format) });
+      }
+    }
+    if (decoderMap.decoders.length > 0) {
+      this.router = new TopicRouter(decoderMap.decoders.map(rule => rule.topic));
+    }
+    this.fallback = { decoder: new AutoDecoder(), stats: emptyStats('', 'auto') };
+  }
+
+  /**
+   * Decode a payload with the decoder for its topic. Rejected payloads are
+   * counted against the rule before the PayloadDecodeError is rethrown.
+   */
+  public decode(topic: string, payload: Buffer, now: number = Date.now()): DecodedPosition[] {
+    const template = this.router?.match(topic)?.template;
+    const registered = (template !== undefined && this.byTemplate.get(template)) || this.fallback;
+    const stats = registered.stats;
+    stats.messages++;
+
+    try {
+      const positions = registered.decoder.decode(payload);
+      stats.positions += positions.length;
+      return positions;
+    } catch (error) {
+      if (!(error instanceof PayloadDecodeError)) throw error;
+      stats.errors++;
+      stats.errorsByCode[error.code] = (stats.errorsByCode[error.code] ?? 0) + 1;
+      stats.lastError = { t: now, topic, code: error.code, field: error.field, message: error.message };
+      throw error;
+    }
+  }
+
+  /**
+   * Counts per rule in listed order, then for topics no rule matched
+   */
+  public stats(): DecoderStats[] {
+    return [...Array.from(this.byTemplate.values(), registered => registered.stats), this.fallback.stats]
+      .map(stats => ({ ...stats, errorsByCode: { ...stats.errorsByCode } }));
+  }
+}
+
+function emptyStats(topic: string, format: PayloadFormat): DecoderStats {
+  return { topic, format, messages: 0, positions: 0, errors: 0, errorsByCode: {} };
+}
+
+function createDecoder(rule: DecoderRule, anchors: AnchorRegistry): PayloadDecoder {
+  switch (rule.format) {
+    case 'json':
+      return new JsonDecoder(rule.fields as Partial<Record<PositionField, string>> | undefined);
+    case 'csv':
+      return new CsvDecoder(rule.columns);
+    case 'binary':
+      return new BinaryFrameDecoder();
+    case 'pozyx':
+      return new PozyxDecoder();
+    case 'ranges':
+      return new RangeDecoder(anchors);
+    default:
+      return new AutoDecoder();
+  }
+}
+
+/**
+ * Check a decoder map, returning every problem found
+ */
+function validateDecoderMap(decoderMap: DecoderMap): string[] {
+  const issues: string[] = [];
+
+  if (!Array.isArray(decoderMap?.decoders)) {
+    issues.push('decoders: expected an array');
+    return issues;
+  }
+
+  decoderMap.decoders.forEach((rule, i) => {
+    const label = typeof rule?.topic === 'string' && rule.topic ? `decoders.${rule.topic}` : `decoders[${i}]`;
+    if (typeof rule?.topic !== 'string' || !rule.topic) {
+      issues.push(`${label}: missing topic`);
+    } else if (/@\d+$/.test(rule.topic)) {
+      issues.push(`${label}: QoS belongs on the subscription in mqtt.topic, not here`);
+    } else {
+      try {
+        new TopicRouter([rule.topic]);
+      } catch (error) {
+        if (!(error instanceof TopicTemplateError)) throw error;
+        issues.push(...error.issues.map(issue => `${label}: ${issue}`));
+      }
+    }
+
+    if (!PAYLOAD_FORMATS.includes(rule?.format)) {
+      issues.push(`${label}: format must be one of ${PAYLOAD_FORMATS.join(', ')}`);
+    }
+
+    if (rule?.columns !== undefined) {
+      const named = Array.isArray(rule.columns) ? rule.columns.filter(column => column !== '') : [];
+      if (rule.format !== 'csv') {
+        issues.push(`${label}: columns only apply to the csv format`);
+      } else if (!Array.isArray(rule.columns) || !named.every(column => POSITION_FIELDS.includes(column as PositionField))) {
+        issues.push(`${label}: columns must list ${POSITION_FIELDS.join(', ')} or "" to skip one`);
+      } else if (!named.includes('x') || !named.includes('y')) {
+        issues.push(`${label}: columns must include x and y`);
+      } else if (new Set(named).size !== named.length) {
+        issues.push(`${label}: a column appears more than once`);
+      }
+    }
+
+    if (rule?.fields !== undefined) {
+      if (rule.format !== 'json') {
+        issues.push(`${label}: fields only apply to the json format`);
+      } else if (typeof rule.fields !== 'object' || rule.fields === null ||
+          !Object.entries(rule.fields).every(([field, key]) =>
+            POSITION_FIELDS.includes(field as PositionField) && typeof key === 'string' && key !== '')) {
+        issues.push(`${label}: fields must map ${POSITION_FIELDS.join(', ')} to payload keys`);
+      }
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,118 @@
+import { DwellMonitor } from './dwell-monitor';
+import { ZoneRegistry } from './zone-registry';
+import { DTEvent, LanePoint, PositionTick } from './types';
+
+const STATIONARY_DWELL_MS = 30000;
+
+function square(minX: number, size: number): LanePoint[] {
+  return [{ x: minX, y: 0 }, { x: minX + size, y: 0 }, { x: minX + size, y: size }, { x: minX, y: size }];
+}
+
+const ZONES = new ZoneRegistry({
+  units: 'meters',
+  zones: [
+    { id: 'chiller', name: 'Chiller', type: 'COLD_STORAGE', polygon: square(0, 10), maxDwellMs: 60000 },
+    { id: 'storage', name: 'Storage', type: 'STORAGE', polygon: square(10, 10) },
+    { id: 'dock', name: 'Dock', type: 'LOADING', polygon: square(20, 10), restricted: true, maxStationaryMs: 10000 }
+  ]
+});
+
+function tick(t: number, zoneId: string, x: number, id = 'worker-1'): PositionTick {
+  return { id, type: 'worker', x, y: 5, speed: 0, heading: 0, zoneId, t };
+}
+
+describe('DwellMonitor', () => {
+  let monitor: DwellMonitor;
+  let next: number;
+
+  // One tick a second; `at(t)` gives the zone and x position at time t
+  const run = (from: number, to: number, at: (t: number) => [string, number]): DTEvent[] => {
+    const events: DTEvent[] = [];
+    for (let t = from; t <= to; t += 1000) {
+      const [zoneId, x] = at(t);
+      events.push(...monitor.check([tick(t, zoneId, x)]));
+    }
+    return events;
+  };
+  // Walking back and forth, never standing still
+  const walking = (zoneId: string, minX: number) => (t: number): [string, number] => [zoneId, minX + 1 + (t / 1000) % 8];
+  const raised = (events: DTEvent[]) => events.filter(event => event.state !== 'close');
+
+  beforeEach(() => {
+    next = 0;
+    monitor = new DwellMonitor(ZONES, STATIONARY_DWELL_MS, () => `event-${++next}`);
+  });
+
+  it('raises dwellExceeded with the real duration once a zone\'s maxDwellMs passes', () => {
+    const events = raised(run(0, 90000, walking('chiller', 0)));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      t: 61000,
+      type: 'dwellExceeded',
+      assetIds: ['worker-1'],
+      zoneId: 'chiller',
+      payload: { kind: 'zone', entityType: 'worker', durationMs: 61000, thresholdMs: 60000, enteredAt: 0, severity: 'medium' }
+    });
+  });
+
+  it('raises dwellExceeded for standing still, within the jitter radius', () => {
+    const events = raised(run(0, 40000, t => ['storage', 15 + ((t / 1000) % 2) * 0.4]));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      t: 31000,
+      zoneId: 'storage',
+      payload: { kind: 'stationary', durationMs: 31000, thresholdMs: STATIONARY_DWELL_MS, enteredAt: 0 }
+    });
+  });
+
+  it('uses a zone\'s own stationary threshold, with high severity in restricted zones', () => {
+    const events = raised(run(0, 20000, () => ['dock', 25]));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      t: 11000,
+      payload: { kind: 'stationary', thresholdMs: 10000, severity: 'high' }
+    });
+  });
+
+  it('starts the stay over when the entity leaves the zone or moves off', () => {
+    const leaving = raised(run(0, 90000, t => t === 50000 ? ['storage', 10.5] : walking('chiller', 0)(t)));
+    const movingOff = raised(run(100000, 140000, t => ['storage', t === 125000 ? 18 : 15]));
+
+    expect(leaving.map(event => event.t)).toEqual([]);
+    expect(movingOff.map(event => event.t)).toEqual([]);
+  });
+
+  it('starts the stay over after a gap in the feed', () => {
+    run(0, 50000, walking('chiller', 0));
+
+    expect(raised(run(120000, 170000, walking('chiller', 0)))).toEqual([]);
+  });
+
+  it('tracks entities independently', () => {
+    const events: DTEvent[] = [];
+    for (let t = 0; t <= 40000; t += 1000) {
+      events.push(...monitor.check([tick(t, 'storage', 15), tick(t, 'storage', 11 + (t / 1000) % 8, 'worker-2')]));
+    }
+
+    expect(raised(events).map(event => event.assetIds)).toEqual([['worker-1']]);
+  });
+
+  it('closes the incident once the stay ends', () => {
+    const events = run(0, 80000, t => t < 70000 ? walking('chiller', 0)(t) : ['storage', 15]);
+
+    expect(events.map(event => [event.state, event.t])).toEqual([['open', 61000], ['close', 74000]]);
+    expect(events[1]).toMatchObject({ id: events[0]!.id, startedAt: 0, endedAt: 69000, durationMs: 69000 });
+  });
+
+  it('closes the incident of an entity that drops out of the feed', () => {
+    const events = [
+      ...run(0, 62000, walking('chiller', 0)),
+      ...monitor.check([tick(70000, 'storage', 15, 'worker-2')])
+    ];
+
+    expect(events.map(event => event.state)).toEqual(['open', 'close']);
+  });
+});
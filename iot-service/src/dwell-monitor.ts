@@ -0,0 +1,129 @@
+import { PositionTick, DTEvent } from './types';
+import { ZoneRegistry } from './zone-registry';
+import { IncidentTracker } from './incident-tracker';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const STATIONARY_RADIUS = 0.5;     // meters of drift (UWB jitter) that still counts as standing still
+const STALE_MS = 60000;            // a gap this long in an entity's ticks restarts its timers
+const CLEAR_MS = 5000;             // a stay not seen to continue for this long has ended
+const COOLDOWN_MS = 5000;
+
+export type DwellKind = 'zone' | 'stationary';
+
+interface DwellState {
+  zoneId: string;
+  enteredAt: number;               // when the entity entered its current zone
+  anchorX: number;                 // where it last started standing still
+  anchorY: number;
+  stationarySince: number;
+  lastSeen: number;
+}
+
+/**
+ * Measures how long each entity has been in its current zone and how long
+ * it has been standing still, and opens a `dwellExceeded` incident per
+ * stay when either passes its threshold. Leaving the zone, moving off or
+ * dropping out of the feed ends the stay, and the incident closes.
+ */
+export class DwellMonitor implements TickDetector {
+  private zones: ZoneRegistry;
+  private stationaryDwellMs: number;
+  private incidents: IncidentTracker;
+  private states: Map<string, DwellState> = new Map();
+
+  constructor(zones: ZoneRegistry, stationaryDwellMs: number, generateId: () => string = () => uuidv4()) {
+    this.zones = zones;
+    this.stationaryDwellMs = stationaryDwellMs;
+    this.incidents = new IncidentTracker('dwellExceeded', { clearMs: CLEAR_MS, cooldownMs: COOLDOWN_MS }, generateId);
+  }
+
+  public check(ticks: PositionTick[]): DTEvent[] {
+    if (ticks.length === 0) return [];
+
+    const events: DTEvent[] = [];
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+
+    for (const tick of ticks) {
+      const state = this.track(tick);
+      const zone = this.zones.getZone(state.zoneId);
+
+      const thresholds: Array<[DwellKind, number | undefined, number]> = [
+        ['zone', zone?.maxDwellMs, state.enteredAt],
+        ['stationary', zone?.maxStationaryMs ?? this.stationaryDwellMs, state.stationarySince]
+      ];
+
+      for (const [kind, thresholdMs, since] of thresholds) {
+        if (thresholdMs === undefined) continue;
+        const durationMs = tick.t - since;
+        if (durationMs <= thresholdMs) continue;
+
+        const event = this.incidents.observe(`${tick.id}:${kind}`, {
+          t: tick.t,
+          since,
+          triggered: true,
+          severity: zone?.restricted ? 'high' : 'medium',
+          assetIds: [tick.id],
+          zoneId: state.zoneId,
+          payload: {
+            kind,
+            entityType: tick.type,
+            durationMs,
+            thresholdMs,
+            enteredAt: since
+          }
+        });
+        if (event) events.push(event);
+      }
+    }
+
+    // Entities gone from the feed would restart their timers anyway
+    this.states.forEach((state, id) => {
+      if (now - state.lastSeen > STALE_MS) this.states.delete(id);
+    });
+
+    return [...events, ...this.incidents.closeIdle(now)];
+  }
+
+  public reset(): void {
+    this.incidents.reset();
+    this.states.clear();
+  }
+
+  /**
+   * Update an entity's stay with a new tick, restarting the timers it ended
+   */
+  private track(tick: PositionTick): DwellState {
+    const zoneId = tick.zoneId || 'unknown';
+    let state = this.states.get(tick.id);
+
+    if (!state || tick.t - state.lastSeen > STALE_MS) {
+      state = {
+        zoneId,
+        enteredAt: tick.t,
+        anchorX: tick.x,
+        anchorY: tick.y,
+        stationarySince: tick.t,
+        lastSeen: tick.t
+      };
+      this.states.set(tick.id, state);
+      return state;
+    }
+
+    if (state.zoneId !== zoneId) {
+      state.zoneId = zoneId;
+      state.enteredAt = tick.t;
+    }
+
+    // Judged from position rather than reported speed, which tags may not send
+    const drift = Math.sqrt((tick.x - state.anchorX) ** 2 + (tick.y - state.anchorY) ** 2);
+    if (drift > STATIONARY_RADIUS) {
+      state.anchorX = tick.x;
+      state.anchorY = tick.y;
+      state.stationarySince = tick.t;
+    }
+
+    state.lastSeen = tick.t;
+    return state;
+  }
+}
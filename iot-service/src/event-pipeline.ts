@@ -0,0 +1,66 @@
+import { PositionTick, DTEvent, SimulatorConfig } from './types';
+import { LaneNavigator } from './lane-navigator';
+import { LaneRuleMonitor } from './lane-rules';
+import { ProximityMonitor } from './proximity-monitor';
+import { DwellMonitor } from './dwell-monitor';
+import { ZoneRuleMonitor } from './zone-rules';
+import { SpeedingMonitor } from './speeding-monitor';
+import { CollisionPredictor } from './collision-predictor';
+import { ZoneRegistry } from './zone-registry';
+
+/**
+ * Turns position ticks into events. Detectors keep whatever per-entity
+ * state they need between calls.
+ */
+export interface TickDetector {
+  check(ticks: PositionTick[]): DTEvent[];
+  reset(): void;
+}
+
+/**
+ * Runs every detector over each batch of ticks, whatever their source -
+ * simulator steps, single MQTT readings or a batch run
+ */
+export class EventPipeline {
+  private detectors: TickDetector[];
+
+  constructor(detectors: TickDetector[]) {
+    this.detectors = detectors;
+  }
+
+  public process(ticks: PositionTick[]): DTEvent[] {
+    return this.detectors.flatMap(detector => detector.check(ticks));
+  }
+
+  /**
+   * Forget all per-entity state, e.g. when the tick source changes
+   */
+  public reset(): void {
+    this.detectors.forEach(detector => detector.reset());
+  }
+}
+
+/**
+ * The standard set of detectors
+ */
+export function createEventPipeline(
+  config: SimulatorConfig,
+  laneNavigator: LaneNavigator,
+  zones: ZoneRegistry,
+  generateId?: () => string
+): EventPipeline {
+  return new EventPipeline([
+    new LaneRuleMonitor(laneNavigator, generateId),
+    new ZoneRuleMonitor(zones, generateId),
+    new ProximityMonitor(laneNavigator, {
+      collisionRadius: config.collisionRadius,
+      congestionThreshold: config.congestionThreshold
+    }, generateId),
+    new DwellMonitor(zones, config.stationaryDwellMs, generateId),
+    new SpeedingMonitor(laneNavigator, zones, {
+      speedLimits: config.speedLimits,
+      sustainMs: config.speedingSustainMs
+    }, generateId),
+    new CollisionPredictor(generateId)
+  ]);
+}
@@ -0,0 +1,122 @@
+import { executeHistoryQuery, HistoryQuery, HistoryQueryError, parseHistoryQuery } from './history-query';
+import { MemoryTelemetryStore } from './telemetry-store';
+import { PositionTick } from './types';
+
+const ENTITY_IDS = ['forklift-1', 'pallet-1', 'worker-1'];
+
+function tick(id: string, t: number): PositionTick {
+  const type = id.split('-')[0] as PositionTick['type'];
+  return { id, type, x: t / 1000, y: 5, speed: 1, heading: 0, zoneId: 'aisle', t };
+}
+
+// Every entity reports at the same instants, so pages split on ties
+function storeWith(stepMs: number, durationMs: number): MemoryTelemetryStore {
+  const store = new MemoryTelemetryStore(10000);
+  for (let t = 0; t < durationMs; t += stepMs) {
+    store.appendTicks(ENTITY_IDS.map(id => tick(id, t)));
+  }
+  return store;
+}
+
+async function allPages(store: MemoryTelemetryStore, params: Record<string, unknown>): Promise<PositionTick[][]> {
+  const pages: PositionTick[][] = [];
+  let cursor: string | null | undefined;
+  do {
+    const query: HistoryQuery = parseHistoryQuery(cursor ? { ...params, cursor } : params);
+    const page = await executeHistoryQuery(store, query);
+    pages.push(page.data);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+const label = (tick: PositionTick) => `${tick.t}:${tick.id}`;
+
+describe('parseHistoryQuery', () => {
+  it('defaults the limit and reads numbers and filters', () => {
+    const query = parseHistoryQuery({ from: '1000', to: '2000', type: 'worker', bbox: '0,0,10,10' });
+    expect(query).toMatchObject({ from: 1000, to: 2000, type: 'worker', limit: 100 });
+    expect(query.bbox).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 10 });
+  });
+
+  it.each([
+    [{ from: 'soon' }, 'Invalid from'],
+    [{ from: '2000', to: '1000' }, 'from must not be after to'],
+    [{ limit: '0' }, 'Invalid limit'],
+    [{ limit: '5001' }, 'Invalid limit'],
+    [{ downsampleMs: '-5' }, 'Invalid downsampleMs'],
+    [{ type: 'truck' }, 'Invalid type'],
+    [{ bbox: '10,0,0,10' }, 'Invalid bbox'],
+    [{ cursor: 'not-a-cursor' }, 'Invalid cursor'],
+    [{ entityId: ['a', 'b'] }, 'Invalid entityId']
+  ])('rejects %j', (params, message) => {
+    expect(() => parseHistoryQuery(params)).toThrow(HistoryQueryError);
+    expect(() => parseHistoryQuery(params)).toThrow(message);
+  });
+});
+
+describe('executeHistoryQuery', () => {
+  describe('cursor paging', () => {
+    it('returns every tick exactly once, in order, across pages that split ties', async () => {
+      const store = storeWith(1000, 10000);
+      const pages = await allPages(store, { from: '0', limit: '7' });
+
+      expect(pages.map(page => page.length)).toEqual([7, 7, 7, 7, 2]);
+      const expected = (await store.queryTicks({ order: 'asc' })).map(label);
+      expect(pages.flat().map(label)).toEqual(expected);
+    });
+
+    it('ends with no cursor when the last page is exactly full', async () => {
+      const store = storeWith(1000, 2000);
+      const first = await executeHistoryQuery(store, parseHistoryQuery({ from: '0', limit: '6' }));
+
+      expect(first.count).toBe(6);
+      expect(first.nextCursor).toBeNull();
+    });
+
+    it('keeps the filters on later pages', async () => {
+      const store = storeWith(1000, 10000);
+      const pages = await allPages(store, { from: '2000', to: '6000', entityId: 'pallet-1', limit: '2' });
+
+      expect(pages.flat().map(label)).toEqual(
+        [2000, 3000, 4000, 5000, 6000].map(t => `${t}:pallet-1`)
+      );
+    });
+
+    it('returns the most recent ticks in chronological order without from or cursor', async () => {
+      const store = storeWith(1000, 10000);
+      const page = await executeHistoryQuery(store, parseHistoryQuery({ limit: '4' }));
+
+      expect(page.data.map(label)).toEqual(['8000:worker-1', '9000:forklift-1', '9000:pallet-1', '9000:worker-1']);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('downsampling', () => {
+    it('keeps the first tick per entity per interval', async () => {
+      const store = storeWith(200, 3000);
+      const page = await executeHistoryQuery(store, parseHistoryQuery({ from: '0', downsampleMs: '1000', limit: '100' }));
+
+      expect(page.downsampleMs).toBe(1000);
+      expect(page.data.map(label)).toEqual(
+        [0, 1000, 2000].flatMap(t => ENTITY_IDS.map(id => `${t}:${id}`))
+      );
+    });
+
+    it('picks the same ticks across pages as in one long page', async () => {
+      const store = storeWith(200, 5000);
+      const whole = await executeHistoryQuery(store, parseHistoryQuery({ from: '0', downsampleMs: '1000', limit: '100' }));
+      const pages = await allPages(store, { from: '0', downsampleMs: '1000', limit: '4' });
+
+      expect(pages.length).toBeGreaterThan(1);
+      expect(pages.flat().map(label)).toEqual(whole.data.map(label));
+    });
+
+    it('keeps the newest tick per interval on tail pages', async () => {
+      const store = storeWith(200, 3000);
+      const page = await executeHistoryQuery(store, parseHistoryQuery({ entityId: 'worker-1', downsampleMs: '1000', limit: '100' }));
+
+      expect(page.data.map(record => record.t)).toEqual([800, 1800, 2800]);
+    });
+  });
+});
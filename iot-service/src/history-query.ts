@@ -0,0 +1,201 @@
+import { PositionTick } from './types';
+import { BoundingBox, TelemetryQuery, TelemetryStore } from './telemetry-store';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 5000;
+const ENTITY_TYPES: PositionTick['type'][] = ['forklift', 'pallet', 'worker'];
+
+export interface HistoryQuery {
+  from?: number;
+  to?: number;
+  entityId?: string;
+  type?: PositionTick['type'];
+  zoneId?: string;
+  bbox?: BoundingBox;
+  downsampleMs?: number;           // keep one tick per entity per interval
+  limit: number;
+  cursor?: HistoryCursor;
+}
+
+export interface HistoryCursor {
+  t: number;                       // timestamp of the last tick returned
+  id: string;                      // entity id of the last tick returned
+}
+
+export interface HistoryPage {
+  count: number;
+  data: PositionTick[];
+  nextCursor: string | null;
+  downsampleMs?: number;
+}
+
+/**
+ * Raised for malformed /history parameters - maps to a 400 response
+ */
+export class HistoryQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryQueryError';
+  }
+}
+
+function parseNumber(params: Record<string, unknown>, name: string): number | undefined {
+  const raw = params[name];
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (typeof raw !== 'string' || !Number.isFinite(value)) {
+    throw new HistoryQueryError(`Invalid ${name}: expected a number, got "${String(raw)}"`);
+  }
+  return value;
+}
+
+function parseString(params: Record<string, unknown>, name: string): string | undefined {
+  const raw = params[name];
+  if (raw === undefined || raw === '') return undefined;
+  if (typeof raw !== 'string') {
+    throw new HistoryQueryError(`Invalid ${name}: expected a single value`);
+  }
+  return raw;
+}
+
+function parseBoundingBox(raw: string): BoundingBox {
+  const parts = raw.split(',').map(part => Number(part.trim()));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) {
+    throw new HistoryQueryError('Invalid bbox: expected "minX,minY,maxX,maxY"');
+  }
+
+  const [minX, minY, maxX, maxY] = parts as [number, number, number, number];
+  if (minX > maxX || minY > maxY) {
+    throw new HistoryQueryError('Invalid bbox: min must not exceed max');
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string): HistoryCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof cursor.t === 'number' && typeof cursor.id === 'string') {
+      return { t: cursor.t, id: cursor.id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HistoryQueryError('Invalid cursor');
+}
+
+/**
+ * Parse and validate /history query string parameters
+ */
+export function parseHistoryQuery(params: Record<string, unknown>): HistoryQuery {
+  const from = parseNumber(params, 'from');
+  const to = parseNumber(params, 'to');
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new HistoryQueryError('Invalid range: from must not be after to');
+  }
+
+  const limit = parseNumber(params, 'limit') ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new HistoryQueryError(`Invalid limit: expected an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  const downsampleMs = parseNumber(params, 'downsampleMs');
+  if (downsampleMs !== undefined && downsampleMs <= 0) {
+    throw new HistoryQueryError('Invalid downsampleMs: must be positive');
+  }
+
+  const type = parseString(params, 'type');
+  if (type !== undefined && !ENTITY_TYPES.includes(type as PositionTick['type'])) {
+    throw new HistoryQueryError(`Invalid type: expected one of ${ENTITY_TYPES.join(', ')}`);
+  }
+
+  const bbox = parseString(params, 'bbox');
+  const cursor = parseString(params, 'cursor');
+
+  return {
+    from,
+    to,
+    entityId: parseString(params, 'entityId'),
+    type: type as PositionTick['type'] | undefined,
+    zoneId: parseString(params, 'zoneId'),
+    bbox: bbox !== undefined ? parseBoundingBox(bbox) : undefined,
+    downsampleMs,
+    limit,
+    cursor: cursor !== undefined ? decodeCursor(cursor) : undefined
+  };
+}
+
+function isAfterCursor(tick: PositionTick, cursor: HistoryCursor): boolean {
+  return tick.t > cursor.t || (tick.t === cursor.t && tick.id > cursor.id);
+}
+
+/**
+ * Run a history query against the telemetry store.
+ *
+ * With `from` or `cursor` the result is a forward page in chronological
+ * order plus a cursor for the next page. Without either, it is the most
+ * recent `limit` ticks (the original /history behaviour) and no cursor.
+ * Downsampling keeps the first tick per entity per time bucket on forward
+ * pages and the newest one on tail pages.
+ */
+export async function executeHistoryQuery(store: TelemetryStore, query: HistoryQuery): Promise<HistoryPage> {
+  const forward = query.from !== undefined || query.cursor !== undefined;
+  const bucketOf = (t: number) =>
+    query.downsampleMs !== undefined ? Math.floor(t / query.downsampleMs) : t;
+
+  // Resume from the start of the cursor's bucket so downsampling picks the
+  // same ticks it would have picked in one long page
+  let from = query.from;
+  if (query.cursor) {
+    const resumeAt = query.downsampleMs !== undefined
+      ? bucketOf(query.cursor.t) * query.downsampleMs
+      : query.cursor.t;
+    from = from !== undefined ? Math.max(from, resumeAt) : resumeAt;
+  }
+
+  const storeQuery: TelemetryQuery = {
+    from,
+    to: query.to,
+    entityId: query.entityId,
+    type: query.type,
+    zoneId: query.zoneId,
+    bbox: query.bbox,
+    order: forward ? 'asc' : 'desc'
+  };
+
+  const seenBuckets = new Set<string>();
+  const data: PositionTick[] = [];
+  let hasMore = false;
+
+  await store.scanTicks(storeQuery, tick => {
+    if (query.downsampleMs !== undefined) {
+      const key = `${tick.id}:${bucketOf(tick.t)}`;
+      if (seenBuckets.has(key)) return true;
+      seenBuckets.add(key);
+    }
+    if (query.cursor && !isAfterCursor(tick, query.cursor)) return true;
+
+    if (data.length === query.limit) {
+      hasMore = true;
+      return false;
+    }
+    data.push(tick);
+    return true;
+  });
+
+  if (!forward) {
+    data.reverse();
+  }
+
+  const last = data[data.length - 1];
+  return {
+    count: data.length,
+    data,
+    nextCursor: forward && hasMore && last ? encodeCursor({ t: last.t, id: last.id }) : null,
+    downsampleMs: query.downsampleMs
+  };
+}
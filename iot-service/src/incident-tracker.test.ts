@@ -0,0 +1,138 @@
+import { IncidentObservation, IncidentTracker } from './incident-tracker';
+import { EventSeverity } from './types';
+
+function reading(t: number, overrides: Partial<IncidentObservation> = {}): IncidentObservation {
+  return {
+    t,
+    triggered: true,
+    severity: 'low',
+    assetIds: ['forklift-1', 'worker-1'],
+    zoneId: 'aisle',
+    payload: { distance: 1.2 },
+    ...overrides
+  };
+}
+
+function tracker(): IncidentTracker {
+  let next = 0;
+  return new IncidentTracker('nearCollision', { clearMs: 1000, cooldownMs: 5000, minUpdateMs: 1000 }, () => `incident-${++next}`);
+}
+
+describe('IncidentTracker', () => {
+  it('opens on the first triggered reading', () => {
+    const incidents = tracker();
+    const opened = incidents.observe('pair', reading(100, { since: 40 }));
+
+    expect(opened).toMatchObject({
+      id: 'incident-1',
+      t: 100,
+      type: 'nearCollision',
+      state: 'open',
+      startedAt: 40,
+      assetIds: ['forklift-1', 'worker-1'],
+      zoneId: 'aisle',
+      payload: { distance: 1.2, severity: 'low', peakSeverity: 'low' }
+    });
+    expect(incidents.isOpen('pair')).toBe(true);
+  });
+
+  it('does not open while only the hold condition is met', () => {
+    const incidents = tracker();
+
+    expect(incidents.observe('pair', reading(100, { triggered: false }))).toBeUndefined();
+    expect(incidents.isOpen('pair')).toBe(false);
+  });
+
+  it('keeps an open incident on readings in the hysteresis band', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0));
+
+    expect(incidents.observe('pair', reading(500, { triggered: false }))).toBeUndefined();
+    expect(incidents.closeIdle(1200)).toEqual([]);
+    expect(incidents.isOpen('pair')).toBe(true);
+  });
+
+  it('announces severity changes with the same id', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0));
+    const update = incidents.observe('pair', reading(200, { severity: 'high', payload: { distance: 0.4 } }));
+
+    expect(update).toMatchObject({
+      id: 'incident-1',
+      state: 'update',
+      payload: { distance: 0.4, severity: 'high', peakSeverity: 'high' }
+    });
+  });
+
+  it('holds back severity changes until they have held for minUpdateMs unless they reach a new peak', () => {
+    const incidents = tracker();
+    const severities: EventSeverity[] = ['high', 'medium', 'high', 'medium'];
+    incidents.observe('pair', reading(0));
+
+    const events = severities.map((severity, i) => incidents.observe('pair', reading(100 * (i + 1), { severity })));
+    expect(events.map(event => event?.state)).toEqual(['update', undefined, undefined, undefined]);
+
+    // Same severity as announced - nothing to say
+    expect(incidents.observe('pair', reading(1500, { severity: 'high' }))).toBeUndefined();
+    expect(incidents.observe('pair', reading(1600, { severity: 'medium' }))).toBeUndefined();
+    expect(incidents.observe('pair', reading(2600, { severity: 'medium' }))).toMatchObject({
+      state: 'update',
+      payload: { severity: 'medium', peakSeverity: 'high' }
+    });
+  });
+
+  it('does not announce a severity that wavers across a boundary', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0, { severity: 'high' }));
+
+    const wavering = Array.from({ length: 30 }, (_, i) =>
+      incidents.observe('pair', reading(200 * (i + 1), { severity: i % 2 === 0 ? 'medium' : 'high' })));
+    expect(wavering.filter(event => event !== undefined)).toEqual([]);
+  });
+
+  it('closes once the condition has not held for clearMs', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0, { since: -300 }));
+    incidents.observe('pair', reading(800, { severity: 'medium' }));
+
+    expect(incidents.closeIdle(1700)).toEqual([]);
+    const [closed] = incidents.closeIdle(1800);
+    expect(closed).toMatchObject({
+      id: 'incident-1',
+      t: 1800,
+      state: 'close',
+      startedAt: -300,
+      endedAt: 800,
+      durationMs: 1100,
+      payload: { severity: 'medium', peakSeverity: 'medium' }
+    });
+    expect(incidents.isOpen('pair')).toBe(false);
+  });
+
+  it('does not reopen a key within cooldownMs of closing', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0));
+    incidents.closeIdle(1000);
+
+    expect(incidents.observe('pair', reading(5999))).toBeUndefined();
+    expect(incidents.observe('pair', reading(6000))).toMatchObject({ id: 'incident-2', state: 'open' });
+  });
+
+  it('tracks keys independently', () => {
+    const incidents = tracker();
+    incidents.observe('a', reading(0));
+    incidents.observe('b', reading(600, { assetIds: ['pallet-1'] }));
+
+    expect(incidents.closeIdle(1000).map(event => event.id)).toEqual(['incident-1']);
+    expect(incidents.openIncidents()).toEqual([{ key: 'b', assetIds: ['pallet-1'] }]);
+  });
+
+  it('forgets everything on reset without closing', () => {
+    const incidents = tracker();
+    incidents.observe('pair', reading(0));
+    incidents.reset();
+
+    expect(incidents.closeIdle(5000)).toEqual([]);
+    expect(incidents.observe('pair', reading(100))).toMatchObject({ state: 'open' });
+  });
+});
@@ -0,0 +1,188 @@
+import { DTEvent, EventSeverity, EventState } from './types';
+import { v4 as uuidv4 } from 'uuid';
+
+const SEVERITY_RANK: Record<EventSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+export interface IncidentOptions {
+  clearMs: number;                 // condition must be gone this long before the incident closes
+  cooldownMs: number;              // a closed incident's key cannot reopen for this long
+  minUpdateMs?: number;            // a severity change is announced once it has held this long,
+                                   // or at once if it reaches a new peak (default 1000)
+}
+
+/**
+ * One reading of a condition. Detectors only observe keys whose hold
+ * condition is met; `triggered` says whether the stricter open condition
+ * is met too - the gap between the two is the hysteresis band. Readings of
+ * one key should carry the same payload fields, with undefined for any
+ * that do not apply.
+ */
+export interface IncidentObservation {
+  t: number;
+  since?: number;                  // when the condition began, if before `t` (default t)
+  triggered: boolean;
+  severity: EventSeverity;
+  assetIds: string[];
+  zoneId: string;
+  payload: Record<string, any>;
+}
+
+interface Incident {
+  id: string;
+  startedAt: number;
+  lastHeldAt: number;
+  severitySince: number;          // when the current severity was first read
+  announcedSeverity: EventSeverity; // as last sent to clients
+  severity: EventSeverity;
+  peakSeverity: EventSeverity;
+  assetIds: string[];
+  zoneId: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Turns a condition that holds over many ticks into one event with an
+ * open / update / close lifecycle. Every state change is returned as an
+ * event with the same id; updates are only sent when the severity changes
+ * and the change has held for `minUpdateMs` - a reading that wavers across
+ * a severity boundary is not announced each time - unless it reaches a new
+ * peak. Incidents
+ * are keyed by whatever identifies the condition - an entity or lane id,
+ * or a number for detectors that track many pairs.
+ */
+export class IncidentTracker<K = string> {
+  private type: DTEvent['type'];
+  private options: IncidentOptions;
+  private generateId: () => string;
+  private open: Map<K, Incident> = new Map();
+  private closedAt: Map<K, number> = new Map();   // key -> when its last incident closed
+
+  constructor(type: DTEvent['type'], options: IncidentOptions, generateId: () => string = () => uuidv4()) {
+    this.type = type;
+    this.options = options;
+    this.generateId = generateId;
+  }
+
+  /**
+   * Record that a key's hold condition is met, returning the open or
+   * update event this causes, if any
+   */
+  public observe(key: K, observation: IncidentObservation): DTEvent | undefined {
+    const incident = this.open.get(key);
+
+    if (!incident) {
+      if (!observation.triggered) return undefined;
+      const closedAt = this.closedAt.get(key);
+      if (closedAt !== undefined && observation.t - closedAt < this.options.cooldownMs) return undefined;
+
+      const opened: Incident = {
+        id: this.generateId(),
+        startedAt: observation.since ?? observation.t,
+        lastHeldAt: observation.t,
+        severitySince: observation.t,
+        announcedSeverity: observation.severity,
+        severity: observation.severity,
+        peakSeverity: observation.severity,
+        assetIds: [...observation.assetIds],
+        zoneId: observation.zoneId,
+        payload: { ...observation.payload }
+      };
+      this.open.set(key, opened);
+      this.closedAt.delete(key);
+      return this.toEvent(opened, 'open', observation.t);
+    }
+
+    const newPeak = SEVERITY_RANK[observation.severity] > SEVERITY_RANK[incident.peakSeverity];
+    if (observation.severity !== incident.severity) incident.severitySince = observation.t;
+    const announce = observation.severity !== incident.announcedSeverity &&
+      (newPeak || observation.t - incident.severitySince >= (this.options.minUpdateMs ?? 1000));
+
+    // Readings are copied into the incident, never kept: a detector's
+    // objects that outlive their tick get promoted, and a busy floor holds
+    // thousands of incidents
+    incident.lastHeldAt = observation.t;
+    incident.severity = observation.severity;
+    if (newPeak) incident.peakSeverity = observation.severity;
+    if (!sameIds(incident.assetIds, observation.assetIds)) incident.assetIds = [...observation.assetIds];
+    incident.zoneId = observation.zoneId;
+    Object.assign(incident.payload, observation.payload);
+    if (!announce) return undefined;
+
+    incident.announcedSeverity = observation.severity;
+    return this.toEvent(incident, 'update', observation.t);
+  }
+
+  /**
+   * Close incidents whose condition has not held for `clearMs`
+   */
+  public closeIdle(now: number): DTEvent[] {
+    const events: DTEvent[] = [];
+
+    // Runs over every open incident on every batch, so forEach rather than
+    // for-of, which allocates an entry per incident
+    this.open.forEach((incident, key) => {
+      if (now - incident.lastHeldAt < this.options.clearMs) return;
+      this.open.delete(key);
+      this.closedAt.set(key, now);
+      events.push(this.toEvent(incident, 'close', now));
+    });
+
+    this.closedAt.forEach((closedAt, key) => {
+      if (now - closedAt >= this.options.cooldownMs) this.closedAt.delete(key);
+    });
+
+    return events;
+  }
+
+  public isOpen(key: K): boolean {
+    return this.open.has(key);
+  }
+
+  /**
+   * Visit the keys and entities of the incidents currently open, without
+   * building a list of them - for detectors that revisit them every batch
+   */
+  public forEachOpen(visit: (key: K, assetIds: string[]) => void): void {
+    this.open.forEach((incident, key) => visit(key, incident.assetIds));
+  }
+
+  /**
+   * Keys and entities of the incidents currently open
+   */
+  public openIncidents(): Array<{ key: K; assetIds: string[] }> {
+    return Array.from(this.open, ([key, incident]) => ({ key, assetIds: incident.assetIds }));
+  }
+
+  /**
+   * Forget all incidents without closing them
+   */
+  public reset(): void {
+    this.open.clear();
+    this.closedAt.clear();
+  }
+
+  private toEvent(incident: Incident, state: EventState, t: number): DTEvent {
+    return {
+      id: incident.id,
+      t,
+      type: this.type,
+      state,
+      startedAt: incident.startedAt,
+      assetIds: incident.assetIds,
+      zoneId: incident.zoneId,
+      payload: {
+        ...incident.payload,
+        severity: incident.severity,
+        peakSeverity: incident.peakSeverity
+      },
+      ...(state === 'close' && {
+        endedAt: incident.lastHeldAt,
+        durationMs: incident.lastHeldAt - incident.startedAt
+      })
+    };
+  }
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
@@ -1,6 +1,7 @@
 import { WebSocketServer } from 'ws';
 import { LaneNavigator } from './lane-navigator';
 import { WarehouseSimulator } from './warehouse-simulator';
+import { ZoneRegistry } from './zone-registry';
 import { PositionTick, DTEvent, SimulatorConfig } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -14,6 +15,10 @@ const laneConfig = JSON.parse(fs.readFileSync(lanesPath, 'utf8'));
 // Create lane navigator
 const laneNavigator = new LaneNavigator(laneConfig);
 
+// Load zone polygons
+const zonesPath = path.join(__dirname, '../config/zones.json');
+const zones = new ZoneRegistry(JSON.parse(fs.readFileSync(zonesPath, 'utf8')));
+
 // Simulator configuration
 const simulatorConfig: SimulatorConfig = {
   wsPort: PORT,
@@ -28,11 +33,14 @@ const simulatorConfig: SimulatorConfig = {
   simSpeed: 1.0,                        // real-time
   eventProbability: 0.001,              // per tick per entity
   collisionRadius: 1.5,                 // meters
-  congestionThreshold: 3                // entities per lane
+  congestionThreshold: 3,               // entities per lane
+  stationaryDwellMs: 5 * 60 * 1000,     // ms standing still
+  speedLimits: { forklift: 3.0, pallet: 2.0, worker: 2.5 }, // m/s
+  speedingSustainMs: 2000               // ms over the limit
 };
 
 // Create simulator
-const simulator = new WarehouseSimulator(simulatorConfig, laneNavigator);
+const simulator = new WarehouseSimulator(simulatorConfig, laneNavigator, { zones });
 
 // Create WebSocket server
 const wss = new WebSocketServer({ 
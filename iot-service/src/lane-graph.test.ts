@@ -0,0 +1,188 @@
+import { buildLaneGraph, findPath, insertNodeOnEdge, LaneGraph } from './lane-graph';
+import { Lane, LaneNetwork, LanePoint } from './types';
+
+function network(...lanes: Lane[]): LaneNetwork {
+  return { units: 'meters', lanes };
+}
+
+// A 10 m lane straight across, and a 20 m way round through a lane 5 m
+// above it
+const DETOUR = network(
+  { id: 'short', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] },
+  { id: 'up', points: [{ x: 0, y: 0 }, { x: 0, y: 5 }] },
+  { id: 'across', points: [{ x: 0, y: 5 }, { x: 10, y: 5 }] },
+  { id: 'down', points: [{ x: 10, y: 5 }, { x: 10, y: 0 }] }
+);
+
+function nodeAt(graph: LaneGraph, point: LanePoint): string {
+  const node = Array.from(graph.nodes.values()).find(n => n.x === point.x && n.y === point.y);
+  if (!node) throw new Error(`no node at (${point.x}, ${point.y})`);
+  return node.id;
+}
+
+const byLength = (edge: { length: number }) => edge.length;
+
+describe('buildLaneGraph', () => {
+  it('joins lanes that share an end at one node', () => {
+    const graph = buildLaneGraph(DETOUR);
+    const corner = graph.nodes.get(nodeAt(graph, { x: 0, y: 0 }))!;
+
+    expect(graph.nodes.size).toBe(4);
+    expect(corner.laneIds.sort()).toEqual(['short', 'up']);
+    expect(graph.adjacency.get(corner.id)!.map(edge => edge.laneId).sort()).toEqual(['short', 'up']);
+  });
+
+  it('measures edges along the lane polyline and reverses it for the way back', () => {
+    const graph = buildLaneGraph(network(
+      { id: 'bend', points: [{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 3, y: 4 }] }
+    ));
+    const [there, back] = graph.edges;
+
+    expect(graph.edges).toHaveLength(2);
+    expect(there!.length).toBeCloseTo(7);
+    expect(there!.points).toEqual([{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 3, y: 4 }]);
+    expect(back!.length).toBeCloseTo(7);
+    expect(back!.points).toEqual([{ x: 3, y: 4 }, { x: 3, y: 0 }, { x: 0, y: 0 }]);
+    expect(back!.from).toBe(there!.to);
+  });
+
+  it('splits lanes where they cross, so traffic can turn there', () => {
+    const graph = buildLaneGraph(network(
+      { id: 'east', points: [{ x: 0, y: 5 }, { x: 10, y: 5 }] },
+      { id: 'north', points: [{ x: 4, y: 0 }, { x: 4, y: 10 }] }
+    ));
+    const crossing = graph.nodes.get(nodeAt(graph, { x: 4, y: 5 }))!;
+
+    expect(graph.nodes.size).toBe(5);
+    expect(crossing.laneIds.sort()).toEqual(['east', 'north']);
+    expect(graph.edges.filter(edge => edge.laneId === 'east').map(byLength).sort((a, b) => a - b)).toEqual([4, 4, 6, 6]);
+
+    const turn = findPath(graph, nodeAt(graph, { x: 0, y: 5 }), nodeAt(graph, { x: 4, y: 10 }), byLength);
+    expect(turn?.edges.map(edge => edge.laneId)).toEqual(['east', 'north']);
+    expect(turn?.length).toBeCloseTo(9);
+  });
+
+  it('splits a lane where another ends on it, at a T-junction', () => {
+    const graph = buildLaneGraph(network(
+      { id: 'aisle', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] },
+      { id: 'spur', points: [{ x: 3, y: 0 }, { x: 3, y: 6 }] },
+      // Drawn to stop just short of the aisle
+      { id: 'stub', points: [{ x: 7, y: -5 }, { x: 7, y: -0.05 }] }
+    ));
+    const aisle = graph.edges.filter(edge => edge.laneId === 'aisle' && edge.points[0]!.x < edge.points[1]!.x);
+
+    expect(aisle.map(edge => [edge.points[0]!.x, edge.points[1]!.x])).toEqual([[0, 3], [3, 7], [7, 10]]);
+    expect(graph.nodes.get(nodeAt(graph, { x: 3, y: 0 }))!.laneIds.sort()).toEqual(['aisle', 'spur']);
+    expect(graph.nodes.get(nodeAt(graph, { x: 7, y: 0 }))!.laneIds.sort()).toEqual(['aisle', 'stub']);
+  });
+
+  it('cuts a bent lane where it crosses, keeping its bends in the pieces', () => {
+    const graph = buildLaneGraph(network(
+      { id: 'bend', points: [{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 6 }] },
+      { id: 'cross', points: [{ x: 0, y: 3 }, { x: 10, y: 3 }], direction: 'oneway' }
+    ));
+    const [first, second] = graph.edges.filter(edge =>
+      edge.laneId === 'bend' && edge.points[0]!.y < edge.points[edge.points.length - 1]!.y
+    );
+
+    expect(first!.points).toEqual([{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 3 }]);
+    expect(first!.length).toBeCloseTo(9);
+    expect(second!.points).toEqual([{ x: 6, y: 3 }, { x: 6, y: 6 }]);
+    expect(graph.edges.filter(edge => edge.laneId === 'cross').map(byLength)).toEqual([6, 4]);
+  });
+
+  it('leaves lanes apart that only pass near each other', () => {
+    const graph = buildLaneGraph(network(
+      { id: 'aisle', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] },
+      { id: 'spur', points: [{ x: 5, y: 0.5 }, { x: 5, y: 6 }] },
+      { id: 'beside', points: [{ x: 0, y: -1 }, { x: 10, y: -1 }] }
+    ));
+
+    expect(graph.nodes.size).toBe(6);
+    expect(graph.edges).toHaveLength(6);
+  });
+});
+
+describe('findPath', () => {
+  const graph = buildLaneGraph(DETOUR);
+  const start = nodeAt(graph, { x: 0, y: 0 });
+  const goal = nodeAt(graph, { x: 10, y: 0 });
+
+  it('finds the shortest path by length', () => {
+    const path = findPath(graph, start, goal, byLength);
+
+    expect(path?.edges.map(edge => edge.laneId)).toEqual(['short']);
+    expect(path?.nodeIds).toEqual([start, goal]);
+    expect(path?.cost).toBeCloseTo(10);
+    expect(path?.length).toBeCloseTo(10);
+  });
+
+  it('weighs edges by the cost function, not their length', () => {
+    const path = findPath(graph, start, goal, edge => edge.length * (edge.laneId === 'short' ? 3 : 1));
+
+    expect(path?.edges.map(edge => edge.laneId)).toEqual(['up', 'across', 'down']);
+    expect(path?.cost).toBeCloseTo(20);
+    expect(path?.length).toBeCloseTo(20);
+  });
+
+  it('treats edges with an infinite or negative cost as impassable', () => {
+    const closed = (...laneIds: string[]) => (edge: { laneId: string; length: number }) =>
+      laneIds.includes(edge.laneId) ? Infinity : edge.length;
+
+    expect(findPath(graph, start, goal, closed('short'))?.length).toBeCloseTo(20);
+    expect(findPath(graph, start, goal, edge => edge.laneId === 'up' ? -1 : closed('short')(edge))).toBeNull();
+  });
+
+  it('finds the cheapest path for costs below the straight-line distance when told they are not admissible', () => {
+    // One per edge: the straight-line heuristic would overestimate
+    const path = findPath(graph, nodeAt(graph, { x: 0, y: 5 }), goal, () => 1, false);
+
+    expect(path?.cost).toBe(2);
+    expect(path?.length).toBeCloseTo(15);
+  });
+
+  it('returns null for unknown or unreachable nodes', () => {
+    const oneWay = buildLaneGraph(network({ id: 'ramp', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }], direction: 'oneway' }));
+
+    expect(findPath(graph, start, 'nowhere', byLength)).toBeNull();
+    expect(findPath(oneWay, nodeAt(oneWay, { x: 10, y: 0 }), nodeAt(oneWay, { x: 0, y: 0 }), byLength)).toBeNull();
+  });
+});
+
+describe('insertNodeOnEdge', () => {
+  it('splits an edge and its reverse at the new node, leaving the original graph alone', () => {
+    const graph = buildLaneGraph(DETOUR);
+    const edge = graph.edges.find(e => e.laneId === 'short')!;
+    const edgeCount = graph.edges.length;
+
+    const split = insertNodeOnEdge(graph, edge, 4, 'stop');
+    const node = split.graph.nodes.get('stop')!;
+    const shortEdges = split.graph.edges.filter(e => e.laneId === 'short');
+
+    expect(split.nodeId).toBe('stop');
+    expect({ x: node.x, y: node.y }).toEqual({ x: 4, y: 0 });
+    expect(shortEdges.map(byLength).sort((a, b) => a - b)).toEqual([4, 4, 6, 6]);
+    expect(split.graph.adjacency.get('stop')!.map(e => e.to).sort()).toEqual([edge.from, edge.to].sort());
+    expect(split.graph.adjacency.get(edge.from)!.some(e => e.id === edge.id)).toBe(false);
+
+    expect(graph.edges).toHaveLength(edgeCount);
+    expect(graph.nodes.has('stop')).toBe(false);
+    expect(graph.adjacency.get(edge.from)!.some(e => e.id === edge.id)).toBe(true);
+  });
+
+  it('splits only the forward edge of a one-way lane', () => {
+    const graph = buildLaneGraph(network({ id: 'ramp', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }], direction: 'oneway' }));
+
+    const split = insertNodeOnEdge(graph, graph.edges[0]!, 4, 'stop');
+
+    expect(split.graph.edges.map(e => [e.from, e.to])).toEqual([[graph.edges[0]!.from, 'stop'], ['stop', graph.edges[0]!.to]]);
+  });
+
+  it('uses the existing node when the split point is next to an edge end', () => {
+    const graph = buildLaneGraph(DETOUR);
+    const edge = graph.edges.find(e => e.laneId === 'short')!;
+
+    expect(insertNodeOnEdge(graph, edge, 0.05, 'stop')).toEqual({ graph, nodeId: edge.from });
+    expect(insertNodeOnEdge(graph, edge, 9.95, 'stop')).toEqual({ graph, nodeId: edge.to });
+  });
+});
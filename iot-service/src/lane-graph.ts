@@ -0,0 +1,418 @@
+import { Lane, LaneNetwork, LanePoint } from './types';
+
+// Points closer than this are one graph node; lanes passing closer than
+// this meet (meters)
+const MERGE_TOLERANCE = 0.1;
+
+export interface LaneGraphNode {
+  id: string;
+  x: number;
+  y: number;
+  laneIds: string[];               // lanes passing through this node
+}
+
+export interface LaneGraphEdge {
+  id: string;
+  from: string;                    // node id
+  to: string;                      // node id
+  laneId: string;
+  length: number;                  // meters along the lane geometry
+  points: LanePoint[];             // polyline from `from` to `to`
+}
+
+export interface LaneGraph {
+  nodes: Map<string, LaneGraphNode>;
+  edges: LaneGraphEdge[];
+  adjacency: Map<string, LaneGraphEdge[]>;  // outgoing edges per node
+}
+
+/**
+ * Cost of traversing an edge; must not be negative
+ */
+export type EdgeCostFn = (edge: LaneGraphEdge) => number;
+
+export interface GraphPath {
+  nodeIds: string[];
+  edges: LaneGraphEdge[];
+  cost: number;
+  length: number;
+}
+
+function distance(p1: LanePoint, p2: LanePoint): number {
+  return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+}
+
+export function polylineLength(points: LanePoint[]): number {
+  let length = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    length += distance(points[i]!, points[i + 1]!);
+  }
+  return length;
+}
+
+/**
+ * Offsets (meters from the lane start) where other lanes cross or touch a
+ * lane: proper segment crossings plus T-junctions, where another lane's
+ * segment ends on this lane's segment. Lane ends are always included.
+ */
+function laneCuts(lane: Lane, network: LaneNetwork): Array<{ offset: number; point: LanePoint }> {
+  const total = polylineLength(lane.points);
+  const cuts = [
+    { offset: 0, point: lane.points[0]! },
+    { offset: total, point: lane.points[lane.points.length - 1]! }
+  ];
+
+  let walked = 0;
+  for (let i = 0; i < lane.points.length - 1; i++) {
+    const p = lane.points[i]!;
+    const r = { x: lane.points[i + 1]!.x - p.x, y: lane.points[i + 1]!.y - p.y };
+    const segmentLength = Math.sqrt(r.x * r.x + r.y * r.y);
+    if (segmentLength === 0) continue;
+
+    const cutAt = (t: number) => {
+      const clamped = Math.max(0, Math.min(1, t));
+      cuts.push({
+        offset: walked + clamped * segmentLength,
+        point: { x: p.x + clamped * r.x, y: p.y + clamped * r.y }
+      });
+    };
+
+    for (const other of network.lanes) {
+      if (other.id === lane.id) continue;
+
+      for (let j = 0; j < other.points.length - 1; j++) {
+        const q = other.points[j]!;
+        const end = other.points[j + 1]!;
+        const s = { x: end.x - q.x, y: end.y - q.y };
+        const otherLength = Math.sqrt(s.x * s.x + s.y * s.y);
+        if (otherLength === 0) continue;
+
+        // T-junction: the other segment starts or ends on this one
+        for (const endpoint of [q, end]) {
+          const t = ((endpoint.x - p.x) * r.x + (endpoint.y - p.y) * r.y) / (segmentLength * segmentLength);
+          if (t < 0 || t > 1) continue;
+          const foot = { x: p.x + t * r.x, y: p.y + t * r.y };
+          if (distance(foot, endpoint) <= MERGE_TOLERANCE) cutAt(t);
+        }
+
+        // Proper crossing
+        const cross = r.x * s.y - r.y * s.x;
+        if (Math.abs(cross) < 1e-9) continue; // Parallel
+        const t = ((q.x - p.x) * s.y - (q.y - p.y) * s.x) / cross;
+        const u = ((q.x - p.x) * r.y - (q.y - p.y) * r.x) / cross;
+        const tSlack = MERGE_TOLERANCE / segmentLength;
+        const uSlack = MERGE_TOLERANCE / otherLength;
+        if (t >= -tSlack && t <= 1 + tSlack && u >= -uSlack && u <= 1 + uSlack) {
+          cutAt(t);
+        }
+      }
+    }
+
+    walked += segmentLength;
+  }
+
+  cuts.sort((a, b) => a.offset - b.offset);
+  return cuts.filter((cut, index) =>
+    index === 0 || cut.offset - cuts[index - 1]!.offset > MERGE_TOLERANCE
+  );
+}
+
+/**
+ * Build a routing graph from lane geometry. Nodes sit at lane ends and
+ * wherever lanes cross or meet (including a lane ending partway along
+ * another); each stretch of lane between two nodes becomes an edge per
+ * permitted direction of travel, carrying its polyline and length.
+ */
+export function buildLaneGraph(network: LaneNetwork): LaneGraph {
+  const graph: LaneGraph = { nodes: new Map(), edges: [], adjacency: new Map() };
+
+  const nodeAt = (point: LanePoint, laneId: string): LaneGraphNode => {
+    for (const node of graph.nodes.values()) {
+      if (distance(node, point) <= MERGE_TOLERANCE) {
+        if (!node.laneIds.includes(laneId)) node.laneIds.push(laneId);
+        return node;
+      }
+    }
+    const node: LaneGraphNode = { id: `n${graph.nodes.size}`, x: point.x, y: point.y, laneIds: [laneId] };
+    graph.nodes.set(node.id, node);
+    graph.adjacency.set(node.id, []);
+    return node;
+  };
+
+  for (const lane of network.lanes) {
+    if (lane.points.length < 2) continue;
+
+    // Distance from the lane start to each vertex
+    const vertexOffsets = [0];
+    for (let i = 1; i < lane.points.length; i++) {
+      vertexOffsets.push(vertexOffsets[i - 1]! + distance(lane.points[i - 1]!, lane.points[i]!));
+    }
+
+    const cuts = laneCuts(lane, network);
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const start = cuts[i]!;
+      const end = cuts[i + 1]!;
+      const points = [
+        start.point,
+        ...lane.points.filter((_, index) =>
+          vertexOffsets[index]! > start.offset + MERGE_TOLERANCE &&
+          vertexOffsets[index]! < end.offset - MERGE_TOLERANCE
+        ),
+        end.point
+      ];
+
+      const from = nodeAt(start.point, lane.id);
+      const to = nodeAt(end.point, lane.id);
+      if (from === to) continue;
+
+      addEdgePair(graph, from.id, to.id, lane.id, points, lane.direction !== 'oneway');
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Plain-object form of the graph for JSON responses; edges are listed once
+ * per direction of travel
+ */
+export function serializeLaneGraph(graph: LaneGraph): {
+  nodes: LaneGraphNode[];
+  edges: LaneGraphEdge[];
+} {
+  return {
+    nodes: Array.from(graph.nodes.values()),
+    edges: graph.edges
+  };
+}
+
+/**
+ * Add an edge from `from` to `to`, and the reverse edge unless the lane is
+ * one-way
+ */
+export function addEdgePair(
+  graph: LaneGraph,
+  from: string,
+  to: string,
+  laneId: string,
+  points: LanePoint[],
+  bothWays = true
+): void {
+  const length = polylineLength(points);
+  const forward: LaneGraphEdge = { id: `${laneId}:${from}->${to}`, from, to, laneId, length, points };
+  const backward: LaneGraphEdge = {
+    id: `${laneId}:${to}->${from}`,
+    from: to,
+    to: from,
+    laneId,
+    length,
+    points: [...points].reverse()
+  };
+
+  for (const edge of bothWays ? [forward, backward] : [forward]) {
+    graph.edges.push(edge);
+    if (!graph.adjacency.has(edge.from)) graph.adjacency.set(edge.from, []);
+    graph.adjacency.get(edge.from)!.push(edge);
+  }
+}
+
+/**
+ * Minimal binary min-heap keyed by priority
+ */
+class MinHeap<T> {
+  private items: Array<{ item: T; priority: number }> = [];
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public push(item: T, priority: number): void {
+    this.items.push({ item, priority });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent]!.priority <= this.items[i]!.priority) break;
+      [this.items[parent], this.items[i]] = [this.items[i]!, this.items[parent]!];
+      i = parent;
+    }
+  }
+
+  public pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (!top || !last) return undefined;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left]!.priority < this.items[smallest]!.priority) smallest = left;
+        if (right < this.items.length && this.items[right]!.priority < this.items[smallest]!.priority) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i]!, this.items[smallest]!];
+        i = smallest;
+      }
+    }
+    return top.item;
+  }
+}
+
+/**
+ * A* search from start to goal. The straight-line heuristic only holds when
+ * every edge costs at least its length; pass `admissible: false` for cost
+ * functions that can go below that, which turns this into Dijkstra.
+ */
+export function findPath(
+  graph: LaneGraph,
+  startId: string,
+  goalId: string,
+  cost: EdgeCostFn,
+  admissible = true
+): GraphPath | null {
+  const goal = graph.nodes.get(goalId);
+  if (!graph.nodes.has(startId) || !goal) return null;
+
+  const heuristic = (nodeId: string) => {
+    const node = graph.nodes.get(nodeId);
+    return admissible && node ? distance(node, goal) : 0;
+  };
+
+  const bestCost = new Map<string, number>([[startId, 0]]);
+  const cameBy = new Map<string, LaneGraphEdge>();
+  const closed = new Set<string>();
+  const open = new MinHeap<string>();
+  open.push(startId, heuristic(startId));
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    if (current === goalId) break;
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    for (const edge of graph.adjacency.get(current) || []) {
+      const edgeCost = cost(edge);
+      if (!Number.isFinite(edgeCost) || edgeCost < 0) continue; // Impassable
+
+      const candidate = bestCost.get(current)! + edgeCost;
+      if (candidate < (bestCost.get(edge.to) ?? Infinity)) {
+        bestCost.set(edge.to, candidate);
+        cameBy.set(edge.to, edge);
+        open.push(edge.to, candidate + heuristic(edge.to));
+      }
+    }
+  }
+
+  if (!bestCost.has(goalId)) return null;
+
+  const edges: LaneGraphEdge[] = [];
+  let node = goalId;
+  while (node !== startId) {
+    const edge = cameBy.get(node)!;
+    edges.unshift(edge);
+    node = edge.from;
+  }
+
+  return {
+    nodeIds: [startId, ...edges.map(edge => edge.to)],
+    edges,
+    cost: bestCost.get(goalId)!,
+    length: edges.reduce((sum, edge) => sum + edge.length, 0)
+  };
+}
+
+/**
+ * Nearest point on the graph's edges to a position. `offset` is the
+ * distance from the edge's `from` node along its polyline.
+ */
+export function projectOntoGraph(
+  graph: LaneGraph,
+  position: LanePoint,
+  accept: (edge: LaneGraphEdge) => boolean = () => true
+): { edge: LaneGraphEdge; point: LanePoint; offset: number; distance: number } | null {
+  let best: { edge: LaneGraphEdge; point: LanePoint; offset: number; distance: number } | null = null;
+
+  for (const edge of graph.edges) {
+    if (!accept(edge)) continue;
+
+    let walked = 0;
+    for (let i = 0; i < edge.points.length - 1; i++) {
+      const start = edge.points[i]!;
+      const end = edge.points[i + 1]!;
+      const segmentLength = distance(start, end);
+      const t = segmentLength === 0 ? 0 : Math.max(0, Math.min(1,
+        ((position.x - start.x) * (end.x - start.x) + (position.y - start.y) * (end.y - start.y)) /
+        (segmentLength * segmentLength)
+      ));
+      const point = { x: start.x + t * (end.x - start.x), y: start.y + t * (end.y - start.y) };
+      const d = distance(position, point);
+
+      if (!best || d < best.distance) {
+        best = { edge, point, offset: walked + t * segmentLength, distance: d };
+      }
+      walked += segmentLength;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split a polyline `offset` meters from its start
+ */
+function splitPolyline(points: LanePoint[], offset: number): [LanePoint[], LanePoint[]] {
+  let walked = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]!;
+    const end = points[i + 1]!;
+    const segmentLength = distance(start, end);
+    if (walked + segmentLength >= offset) {
+      const t = segmentLength === 0 ? 0 : (offset - walked) / segmentLength;
+      const cut = { x: start.x + t * (end.x - start.x), y: start.y + t * (end.y - start.y) };
+      return [[...points.slice(0, i + 1), cut], [cut, ...points.slice(i + 1)]];
+    }
+    walked += segmentLength;
+  }
+  const last = points[points.length - 1]!;
+  return [[...points], [last]];
+}
+
+/**
+ * Copy of the graph with an extra node `nodeId` placed `offset` meters along
+ * an edge, splitting it (and its reverse, on two-way lanes) in two. Ends up on an existing node
+ * instead when the split point is within the merge tolerance of one.
+ * The original graph is left untouched.
+ */
+export function insertNodeOnEdge(
+  graph: LaneGraph,
+  edge: LaneGraphEdge,
+  offset: number,
+  nodeId: string
+): { graph: LaneGraph; nodeId: string } {
+  if (offset <= MERGE_TOLERANCE) return { graph, nodeId: edge.from };
+  if (offset >= edge.length - MERGE_TOLERANCE) return { graph, nodeId: edge.to };
+
+  const [head, tail] = splitPolyline(edge.points, offset);
+  const point = tail[0]!;
+  const reverseId = `${edge.laneId}:${edge.to}->${edge.from}`;
+  const bothWays = (graph.adjacency.get(edge.to) || []).some(e => e.id === reverseId);
+  const splitIds = new Set([edge.id, reverseId]);
+
+  const copy: LaneGraph = {
+    nodes: new Map(graph.nodes),
+    edges: graph.edges.filter(e => !splitIds.has(e.id)),
+    adjacency: new Map(graph.adjacency)
+  };
+  for (const id of [edge.from, edge.to]) {
+    copy.adjacency.set(id, (graph.adjacency.get(id) || []).filter(e => !splitIds.has(e.id)));
+  }
+
+  copy.nodes.set(nodeId, { id: nodeId, x: point.x, y: point.y, laneIds: [edge.laneId] });
+  copy.adjacency.set(nodeId, []);
+  addEdgePair(copy, edge.from, nodeId, edge.laneId, head, bothWays);
+  addEdgePair(copy, nodeId, edge.to, edge.laneId, tail, bothWays);
+
+  return { graph: copy, nodeId };
+}
@@ -0,0 +1,67 @@
+import { LaneMatcher } from './lane-matcher';
+import { LaneNavigator } from './lane-navigator';
+import { LaneNetwork, PositionTick } from './types';
+
+// `main` runs east, `cross` north, crossing at (20, 10); `side` runs
+// alongside main 2.5 m off it and shares no junction with it
+const NETWORK: LaneNetwork = {
+  units: 'meters',
+  lanes: [
+    { id: 'main', points: [{ x: 0, y: 10 }, { x: 40, y: 10 }] },
+    { id: 'cross', points: [{ x: 20, y: 0 }, { x: 20, y: 20 }] },
+    { id: 'side', points: [{ x: 30, y: 12.5 }, { x: 40, y: 12.5 }] }
+  ]
+};
+const OPTIONS = { enabled: true, searchRadius: 3, positionSigma: 1 };
+
+function reading(t: number, x: number, y: number, type: PositionTick['type'] = 'forklift'): PositionTick {
+  return { id: `${type}-1`, type, x, y, speed: 1, heading: 0, zoneId: 'unknown', t };
+}
+
+describe('LaneMatcher', () => {
+  let matcher: LaneMatcher;
+
+  // One reading a second along the given points
+  const laneIds = (from: number, points: Array<[number, number]>): Array<string | undefined> =>
+    points.map(([x, y], i) => matcher.match(reading(from + i * 1000, x, y))?.laneId);
+
+  beforeEach(() => {
+    matcher = new LaneMatcher(new LaneNavigator(NETWORK), OPTIONS);
+  });
+
+  it('matches a reading to the nearest point on its lane', () => {
+    expect(matcher.match(reading(0, 16, 10.5))).toEqual({ laneId: 'main', progress: 0.4, x: 16, y: 10, distance: 0.5 });
+  });
+
+  it('stays on its own lane when passing close to a crossing lane', () => {
+    // The third reading strays nearer to `cross` than to `main`
+    expect(laneIds(0, [[16, 10], [18, 10.1], [19.8, 10.6], [22, 10.1], [24, 10]]))
+      .toEqual(['main', 'main', 'main', 'main', 'main']);
+  });
+
+  it('switches lanes through a shared junction once the readings turn', () => {
+    const matched = laneIds(0, [[16, 10], [18, 10], [20, 10.5], [20, 12], [20, 14], [20, 16]]);
+
+    expect(matched.slice(0, 2)).toEqual(['main', 'main']);
+    expect(matched.slice(3)).toEqual(['cross', 'cross', 'cross']);
+  });
+
+  it('does not jump to a nearby lane it shares no junction with', () => {
+    expect(laneIds(0, [[32, 10], [33, 10.5], [34, 11.4], [35, 10.5]]))
+      .toEqual(['main', 'main', 'main', 'main']);
+  });
+
+  it('leaves workers unmatched', () => {
+    expect(matcher.match(reading(0, 16, 10, 'worker'))).toBeUndefined();
+  });
+
+  it('leaves readings with no lane within the search radius unmatched', () => {
+    expect(matcher.match(reading(0, 10, 14))).toBeUndefined();
+  });
+
+  it('matches a tag afresh after it has gone quiet', () => {
+    laneIds(0, [[16, 10], [18, 10.1]]);
+
+    expect(laneIds(1000 + 11000, [[19.8, 10.6]])).toEqual(['cross']);
+  });
+});
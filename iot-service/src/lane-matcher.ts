@@ -0,0 +1,164 @@
+import { LaneMatch, LanePoint, MapMatchingConfig, PositionTick } from './types';
+import { LaneNavigator } from './lane-navigator';
+
+const MATCHED_TYPES: Array<PositionTick['type']> = ['forklift', 'pallet']; // workers walk off the lanes
+const MAX_CANDIDATES = 8;          // nearest lanes considered per reading
+const TRANSITION_BETA = 2.0;       // meters; scale of the penalty for route length beyond the straight-line distance
+const UNCONNECTED_DETOUR = 20;     // meters charged for a move between lanes that share no junction
+const STALE_MS = 10000;            // a tag not heard from for this long is matched afresh
+const JUNCTION_TOLERANCE = 0.1;    // meters, how close a graph node lies to the lanes through it
+
+interface Candidate {
+  laneId: string;
+  progress: number;
+  along: number;                   // meters from the lane's first point
+  point: LanePoint;
+  distance: number;                // meters from the reading
+  score: number;                   // log-probability of the best path ending here, best = 0
+}
+
+interface MatchState {
+  t: number;
+  position: LanePoint;             // the last reading, as reported
+  candidates: Candidate[];
+}
+
+/**
+ * Matches live positions onto the lane network with a hidden Markov model:
+ * the hidden state is the lane and point a tag is on, readings are noisy
+ * observations of it. Each reading's candidates are the lanes near it,
+ * scored by distance (Gaussian, `positionSigma`), and moves between
+ * candidates are scored by how closely the distance travelled along the
+ * lanes agrees with the straight-line distance between readings - so a
+ * tag passing close to a crossing lane stays on its own until the
+ * readings say it turned.
+ *
+ * Decoding is online Viterbi: each tick is matched to the best path
+ * ending at that reading, with no look-ahead. Wrong-way travel on one-way
+ * lanes is not penalised - it is matched like any other, for the lane
+ * rules to flag.
+ */
+export class LaneMatcher {
+  private laneNavigator: LaneNavigator;
+  private options: MapMatchingConfig;
+  private states: Map<string, MatchState> = new Map();
+  private lastSweep = 0;
+  private junctions: Map<string, Map<string, number>> = new Map(); // laneId -> node id -> meters along the lane
+
+  constructor(laneNavigator: LaneNavigator, options: MapMatchingConfig) {
+    this.laneNavigator = laneNavigator;
+    this.options = options;
+    this.buildJunctions();
+  }
+
+  /**
+   * The lane a reading is on, or undefined when no usable lane is within
+   * `searchRadius` (or the type is not matched to lanes)
+   */
+  public match(reading: PositionTick): LaneMatch | undefined {
+    if (!MATCHED_TYPES.includes(reading.type)) return undefined;
+    this.dropStale(reading.t);
+
+    const position = { x: reading.x, y: reading.y };
+    const candidates = this.candidatesAt(position, reading.type);
+    const previous = this.states.get(reading.id);
+    if (candidates.length === 0) {
+      this.states.delete(reading.id);
+      return undefined;
+    }
+
+    const continues = previous !== undefined && reading.t > previous.t && reading.t - previous.t <= STALE_MS;
+    const straight = continues ? Math.hypot(position.x - previous.position.x, position.y - previous.position.y) : 0;
+    for (const candidate of candidates) {
+      const emission = -0.5 * (candidate.distance / this.options.positionSigma) ** 2;
+      if (!continues) {
+        candidate.score = emission;
+        continue;
+      }
+      let best = -Infinity;
+      for (const from of previous.candidates) {
+        const route = this.routeDistance(from, candidate);
+        best = Math.max(best, from.score - Math.abs(route - straight) / TRANSITION_BETA);
+      }
+      candidate.score = best + emission;
+    }
+
+    const top = Math.max(...candidates.map(candidate => candidate.score));
+    for (const candidate of candidates) candidate.score -= top;
+    this.states.set(reading.id, { t: reading.t, position, candidates });
+
+    const matched = candidates.find(candidate => candidate.score === 0)!;
+    return {
+      laneId: matched.laneId,
+      progress: matched.progress,
+      x: matched.point.x,
+      y: matched.point.y,
+      distance: matched.distance
+    };
+  }
+
+  public reset(): void {
+    this.states.clear();
+    this.lastSweep = 0;
+  }
+
+  // Tags gone quiet are matched afresh anyway; forget them so tags that
+  // come and go do not pile up
+  private dropStale(now: number): void {
+    if (now - this.lastSweep < STALE_MS) return;
+    this.states.forEach((state, id) => {
+      if (now - state.t > STALE_MS) this.states.delete(id);
+    });
+    this.lastSweep = now;
+  }
+
+  private candidatesAt(position: LanePoint, type: PositionTick['type']): Candidate[] {
+    return this.laneNavigator.lanesAt(position, this.options.searchRadius)
+      .filter(lane => this.laneNavigator.canUseLane(lane.laneId, type))
+      .slice(0, MAX_CANDIDATES)
+      .map(lane => ({
+        ...lane,
+        along: this.laneNavigator.distanceAlongLane(lane.laneId, lane.progress),
+        score: 0
+      }));
+  }
+
+  /**
+   * Meters travelled between two candidates: along the lane when both are
+   * on the same one, through the nearest shared junction when their lanes
+   * meet, and otherwise straight across plus a detour
+   */
+  private routeDistance(from: Candidate, to: Candidate): number {
+    if (from.laneId === to.laneId) return Math.abs(to.along - from.along);
+
+    const fromJunctions = this.junctions.get(from.laneId);
+    const toJunctions = this.junctions.get(to.laneId);
+    let best = Infinity;
+    if (fromJunctions && toJunctions) {
+      for (const [nodeId, fromAlong] of fromJunctions) {
+        const toAlong = toJunctions.get(nodeId);
+        if (toAlong === undefined) continue;
+        best = Math.min(best, Math.abs(fromAlong - from.along) + Math.abs(to.along - toAlong));
+      }
+    }
+    if (best < Infinity) return best;
+
+    return Math.hypot(to.point.x - from.point.x, to.point.y - from.point.y) + UNCONNECTED_DETOUR;
+  }
+
+  // Where each junction lies along every lane through it
+  private buildJunctions(): void {
+    for (const node of this.laneNavigator.getGraph().nodes.values()) {
+      if (node.laneIds.length < 2) continue;
+      for (const onLane of this.laneNavigator.lanesAt(node, JUNCTION_TOLERANCE)) {
+        if (!node.laneIds.includes(onLane.laneId)) continue;
+        let alongLane = this.junctions.get(onLane.laneId);
+        if (!alongLane) {
+          alongLane = new Map();
+          this.junctions.set(onLane.laneId, alongLane);
+        }
+        alongLane.set(node.id, this.laneNavigator.distanceAlongLane(onLane.laneId, onLane.progress));
+      }
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { LaneMapError, LaneNavigator } from './lane-navigator';
+import { buildLaneGraph } from './lane-graph';
+import { Lane, LaneNetwork } from './types';
+
+// A 10 m square: one-way east along the top and west along the bottom,
+// two-way up and down the sides
+function loop(overrides: Partial<Record<string, Partial<Lane>>> = {}): LaneNetwork {
+  const lanes: Lane[] = [
+    { id: 'top', points: [{ x: 0, y: 10 }, { x: 10, y: 10 }], direction: 'oneway' },
+    { id: 'right', points: [{ x: 10, y: 10 }, { x: 10, y: 0 }] },
+    { id: 'bottom', points: [{ x: 10, y: 0 }, { x: 0, y: 0 }], direction: 'oneway' },
+    { id: 'left', points: [{ x: 0, y: 0 }, { x: 0, y: 10 }] }
+  ];
+  return { units: 'meters', lanes: lanes.map(lane => ({ ...lane, ...overrides[lane.id] })) };
+}
+
+describe('LaneNavigator.findRoute', () => {
+  it('follows a one-way lane in its direction of travel', () => {
+    const route = new LaneNavigator(loop()).findRoute({ x: 2, y: 10 }, { x: 8, y: 10 });
+
+    expect(route?.laneIds).toEqual(['top']);
+    expect(route?.length).toBeCloseTo(6);
+  });
+
+  it('goes around rather than against a one-way lane', () => {
+    const route = new LaneNavigator(loop()).findRoute({ x: 8, y: 10 }, { x: 2, y: 10 });
+
+    expect(route?.laneIds).toEqual(['top', 'right', 'bottom', 'left', 'top']);
+    expect(route?.length).toBeCloseTo(34);
+    expect(route?.points[0]).toEqual({ x: 8, y: 10 });
+    expect(route?.points[route.points.length - 1]).toEqual({ x: 2, y: 10 });
+  });
+
+  it('takes the shorter way where the side lanes allow either', () => {
+    const route = new LaneNavigator(loop()).findRoute({ x: 0, y: 2 }, { x: 0, y: 8 });
+
+    expect(route?.laneIds).toEqual(['left']);
+    expect(route?.length).toBeCloseTo(6);
+  });
+
+  it('returns null when one-way lanes leave no way back', () => {
+    const network: LaneNetwork = {
+      units: 'meters',
+      lanes: [{ id: 'ramp', points: [{ x: 0, y: 0 }, { x: 20, y: 0 }], direction: 'oneway' }]
+    };
+
+    expect(new LaneNavigator(network).findRoute({ x: 15, y: 0 }, { x: 5, y: 0 })).toBeNull();
+  });
+
+  it('skips lanes the entity type may not use', () => {
+    const navigator = new LaneNavigator(loop({ right: { allowedTypes: ['worker'] } }));
+
+    expect(navigator.findRoute({ x: 8, y: 10 }, { x: 2, y: 10 }, { entityType: 'worker' })).not.toBeNull();
+    expect(navigator.findRoute({ x: 8, y: 10 }, { x: 2, y: 10 }, { entityType: 'forklift' })).toBeNull();
+  });
+
+  it('routes around avoided lanes, snapping the ends to lanes it may use', () => {
+    const navigator = new LaneNavigator(loop({ top: { direction: 'twoway' } }));
+
+    expect(navigator.findRoute({ x: 8, y: 10 }, { x: 2, y: 10 })?.laneIds).toEqual(['top']);
+    const detour = navigator.findRoute({ x: 8, y: 10 }, { x: 2, y: 10 }, { avoidLaneIds: ['top'] });
+    expect(detour?.laneIds).toEqual(['right', 'bottom', 'left']);
+    expect(detour?.length).toBeCloseTo(30);
+  });
+});
+
+describe('buildLaneGraph', () => {
+  it('adds one edge per stretch of a one-way lane and two for a two-way lane', () => {
+    const graph = buildLaneGraph(loop());
+    const edgesOf = (laneId: string) => graph.edges.filter(edge => edge.laneId === laneId);
+
+    expect(graph.nodes.size).toBe(4);
+    expect(edgesOf('top')).toHaveLength(1);
+    expect(edgesOf('bottom')).toHaveLength(1);
+    expect(edgesOf('left')).toHaveLength(2);
+    expect(edgesOf('right')).toHaveLength(2);
+  });
+});
+
+describe('lane network validation', () => {
+  const issuesOf = (network: unknown): string[] => {
+    try {
+      new LaneNavigator(network as LaneNetwork);
+    } catch (error) {
+      if (error instanceof LaneMapError) return error.issues;
+      throw error;
+    }
+    return [];
+  };
+
+  it('accepts a well-formed network', () => {
+    expect(issuesOf(loop())).toEqual([]);
+  });
+
+  it('reports every malformed lane', () => {
+    const network = loop({
+      top: { direction: 'one-way' as Lane['direction'] },
+      right: { maxSpeed: 0, maxSpeedByType: { truck: 1 } as Lane['maxSpeedByType'] },
+      bottom: { allowedTypes: [] },
+      left: { points: [{ x: 0, y: 0 }] }
+    });
+
+    expect(issuesOf(network)).toEqual([
+      'top: direction must be one of oneway, twoway',
+      'right: maxSpeed must be a positive number',
+      'right: maxSpeedByType needs positive limits for forklift, pallet, worker',
+      'bottom: allowedTypes must list at least one of forklift, pallet, worker',
+      'left: points needs at least 2 points'
+    ]);
+  });
+
+  it('reports duplicate ids and connections to unknown lanes', () => {
+    const network = loop({ left: { id: 'top' } });
+    network.connections = [{ from: 'top', to: 'middle' }];
+
+    expect(issuesOf(network)).toEqual([
+      'top: duplicate id',
+      'connections[0]: unknown lane "middle" in to'
+    ]);
+  });
+
+  it('rejects a file that is not a lane network', () => {
+    expect(issuesOf({ units: 'meters' })).toEqual(['expected an object with a "lanes" array']);
+    expect(() => new LaneNavigator({ units: 'feet', lanes: [] } as unknown as LaneNetwork)).toThrow(LaneMapError);
+  });
+});
@@ -1,45 +1,113 @@
-import { LaneNetwork, Lane, LanePoint, EntityState } from './types';
+import { LaneNetwork, Lane, LanePoint, EntityState, PositionTick } from './types';
+import { RandomFn } from './random';
+import {
+  LaneGraph, LaneGraphEdge, EdgeCostFn,
+  buildLaneGraph, findPath, projectOntoGraph, insertNodeOnEdge
+} from './lane-graph';
+
+const DEFAULT_LANE_WIDTH = 2.0; // meters
+const DEFAULT_CONGESTION_PENALTY = 10; // meters of detour worth avoiding one entity
+const LANE_CELL_SIZE = 10; // meters - grid cell for finding the lanes near a position
+const NODE_TOLERANCE = 0.5; // meters - lanes this close to a point pass through it
+const LANE_DIRECTIONS: Array<Lane['direction']> = ['oneway', 'twoway'];
+const ENTITY_TYPES: Array<PositionTick['type']> = ['forklift', 'pallet', 'worker'];
+
+/**
+ * Raised when a lane network is malformed; lists every problem found
+ */
+export class LaneMapError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid lane network:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'LaneMapError';
+    this.issues = issues;
+  }
+}
+
+export interface RouteOptions {
+  entityType?: EntityState['type'];  // skip lanes this type may not use
+  congestion?: Map<string, number>;  // entities currently on each lane
+  congestionPenalty?: number;        // extra cost per entity on a lane, in meters
+  avoidLaneIds?: string[];           // e.g. blocked lanes when rerouting
+  cost?: EdgeCostFn;                 // replaces the default length-based edge cost
+}
+
+export interface Route {
+  laneIds: string[];               // lanes in travel order
+  points: LanePoint[];             // polyline from the start to the goal
+  length: number;                  // meters
+  cost: number;
+}
 
 export class LaneNavigator {
   private laneNetwork: LaneNetwork;
   private laneConnections: Map<string, string[]> = new Map();
+  private random: RandomFn;
+  private junctionPoints?: LanePoint[];
+  private graph: LaneGraph;
+  private lanesById: Map<string, Lane> = new Map();
+  private laneCells: Map<string, number[]> = new Map();   // grid cell -> indexes of the lanes crossing it
+  private maxHalfWidth = 0;
+
+  constructor(laneNetwork: LaneNetwork, random: RandomFn = Math.random) {
+    const issues = validateLaneNetwork(laneNetwork);
+    if (issues.length > 0) {
+      throw new LaneMapError(issues);
+    }
 
-  constructor(laneNetwork: LaneNetwork) {
     this.laneNetwork = laneNetwork;
+    this.random = random;
+    this.graph = buildLaneGraph(laneNetwork);
     this.buildLaneConnections();
+    this.buildLaneCells();
   }
 
   /**
-   * Build connections between lanes based on proximity of endpoints
+   * Bucket each lane into the grid cells its bounding box covers, so a
+   * position is only measured against the lanes near it - lanesAt runs for
+   * every tick of every entity
+   */
+  private buildLaneCells(): void {
+    this.laneNetwork.lanes.forEach((lane, index) => {
+      this.lanesById.set(lane.id, lane);
+      this.maxHalfWidth = Math.max(this.maxHalfWidth, (lane.width ?? DEFAULT_LANE_WIDTH) / 2);
+
+      const xs = lane.points.map(point => point.x);
+      const ys = lane.points.map(point => point.y);
+      this.forEachCell(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys), key => {
+        const cell = this.laneCells.get(key);
+        if (cell) cell.push(index);
+        else this.laneCells.set(key, [index]);
+      });
+    });
+  }
+
+  private forEachCell(minX: number, minY: number, maxX: number, maxY: number, visit: (key: string) => void): void {
+    for (let cx = Math.floor(minX / LANE_CELL_SIZE); cx <= Math.floor(maxX / LANE_CELL_SIZE); cx++) {
+      for (let cy = Math.floor(minY / LANE_CELL_SIZE); cy <= Math.floor(maxY / LANE_CELL_SIZE); cy++) {
+        visit(`${cx}:${cy}`);
+      }
+    }
+  }
+
+  /**
+   * Lanes are connected when they share a graph node - a common endpoint,
+   * a crossing or a T-junction
    */
   private buildLaneConnections(): void {
-    const connectionRadius = 3.0; // meters
-    
     for (const lane of this.laneNetwork.lanes) {
-      const connections: string[] = [];
-      const laneStart = lane.points[0];
-      const laneEnd = lane.points[lane.points.length - 1];
-      
-      if (!laneStart || !laneEnd) continue;
-      
-      for (const otherLane of this.laneNetwork.lanes) {
-        if (lane.id === otherLane.id) continue;
-        
-        const otherStart = otherLane.points[0];
-        const otherEnd = otherLane.points[otherLane.points.length - 1];
-        
-        if (!otherStart || !otherEnd) continue;
-        
-        // Check if any endpoints are close enough to connect
-        if (this.distance(laneStart, otherStart) < connectionRadius ||
-            this.distance(laneStart, otherEnd) < connectionRadius ||
-            this.distance(laneEnd, otherStart) < connectionRadius ||
-            this.distance(laneEnd, otherEnd) < connectionRadius) {
-          connections.push(otherLane.id);
+      this.laneConnections.set(lane.id, []);
+    }
+
+    for (const node of this.graph.nodes.values()) {
+      for (const laneId of node.laneIds) {
+        const connections = this.laneConnections.get(laneId);
+        if (!connections) continue;
+        for (const other of node.laneIds) {
+          if (other !== laneId && !connections.includes(other)) connections.push(other);
         }
       }
-      
-      this.laneConnections.set(lane.id, connections);
     }
   }
 
@@ -127,69 +195,69 @@ export class LaneNavigator {
   }
 
   /**
-   * Advance an entity along its current lane
+   * Advance an entity along its current lane, in its direction of travel
    */
   public advanceAlongLane(entity: EntityState, deltaTime: number): {
     position: LanePoint;
+    progress: number;
     heading: number;
     reachedEnd: boolean;
   } {
-    const lane = this.laneNetwork.lanes.find(l => l.id === entity.currentLaneId);
-    if (!lane) {
-      throw new Error(`Lane not found: ${entity.currentLaneId}`);
-    }
-
-    const distanceToTravel = entity.speed * deltaTime;
-    const laneLength = this.calculateLaneLength(lane);
-    const progressIncrement = distanceToTravel / laneLength;
-    
-    const newProgress = Math.min(1.0, entity.laneProgress + progressIncrement);
-    const position = this.getPositionAtProgress(lane, newProgress);
-    const heading = this.getHeadingAtProgress(lane, newProgress);
+    const direction = entity.laneDirection ?? 1;
+    const { point, progress, heading } = this.pointAlongLane(
+      entity.currentLaneId ?? '', entity.laneProgress, direction * entity.speed * deltaTime
+    );
 
     return {
-      position,
-      heading,
-      reachedEnd: newProgress >= 1.0
+      position: point,
+      progress,
+      heading: direction === 1 ? heading : Math.atan2(-Math.sin(heading), -Math.cos(heading)),
+      reachedEnd: direction === 1 ? progress >= 1 : progress <= 0
     };
   }
 
   /**
-   * Choose next lane at intersection
+   * Choose the lane to go on along at the end of the entity's current one:
+   * a lane through the point where the entity is, entered right there and
+   * heading away from it - one-way lanes only in their direction of travel.
+   * The planned next lane of the entity's route wins if it is one of them.
    */
-  public chooseNextLane(currentLaneId: string, entity: EntityState): string | null {
-    const connections = this.laneConnections.get(currentLaneId) || [];
-    
-    if (connections.length === 0) {
-      // Dead end - turn around by finding a lane that connects back
-      return this.findReturnLane(currentLaneId);
-    }
+  public chooseNextLane(entity: EntityState): { laneId: string; progress: number; direction: 1 | -1 } | null {
+    const exits: Array<{ laneId: string; progress: number; direction: 1 | -1 }> = [];
+
+    for (const lane of this.lanesAt(entity, NODE_TOLERANCE)) {
+      if (lane.laneId === entity.currentLaneId || !this.canUseLane(lane.laneId, entity.type)) continue;
 
-    // Prefer continuing in same direction or following route
-    if (entity.route.length > entity.routeIndex + 1) {
-      const plannedNext = entity.route[entity.routeIndex + 1];
-      if (plannedNext && connections.includes(plannedNext)) {
-        return plannedNext;
+      const along = this.distanceAlongLane(lane.laneId, lane.progress);
+      const length = this.distanceAlongLane(lane.laneId, 1);
+      if (length - along > NODE_TOLERANCE) {
+        exits.push({ laneId: lane.laneId, progress: lane.progress, direction: 1 });
+      }
+      if (along > NODE_TOLERANCE && !this.isOneWay(lane.laneId)) {
+        exits.push({ laneId: lane.laneId, progress: lane.progress, direction: -1 });
       }
     }
 
-    // Random valid choice
-    if (connections.length > 0) {
-      return connections[Math.floor(Math.random() * connections.length)] || null;
-    }
-    
-    return null;
+    const plannedNext = entity.route[entity.routeIndex + 1];
+    const planned = exits.filter(exit => exit.laneId === plannedNext);
+    const choices = planned.length > 0 ? planned : exits;
+    return choices[Math.floor(this.random() * choices.length)] ?? null;
   }
 
   /**
-   * Generate a random route for an entity
+   * Generate a random route for an entity, through lanes its type may use
    */
-  public generateRandomRoute(startLaneId: string, length: number = 5): string[] {
+  public generateRandomRoute(
+    startLaneId: string,
+    length: number = 5,
+    entityType?: EntityState['type']
+  ): string[] {
     const route = [startLaneId];
     let currentLane = startLaneId;
 
     for (let i = 0; i < length - 1; i++) {
-      const connections = this.laneConnections.get(currentLane) || [];
+      const connections = (this.laneConnections.get(currentLane) || [])
+        .filter(laneId => !entityType || this.canUseLane(laneId, entityType));
       if (connections.length === 0) break;
       
       // Avoid immediate backtracking
@@ -198,8 +266,8 @@ export class LaneNavigator {
       );
       
       const nextLane = validConnections.length > 0 
-        ? validConnections[Math.floor(Math.random() * validConnections.length)]
-        : connections[Math.floor(Math.random() * connections.length)];
+        ? validConnections[Math.floor(this.random() * validConnections.length)]
+        : connections[Math.floor(this.random() * connections.length)];
       
       if (!nextLane) break;
       
@@ -210,6 +278,203 @@ export class LaneNavigator {
     return route;
   }
 
+  /**
+   * Shortest route between two positions over the lane graph (A*). Both
+   * ends are snapped to the nearest usable lane. Returns null when the goal
+   * cannot be reached.
+   */
+  public findRoute(from: LanePoint, to: LanePoint, options: RouteOptions = {}): Route | null {
+    const usable = (edge: LaneGraphEdge) =>
+      !options.avoidLaneIds?.includes(edge.laneId) &&
+      (!options.entityType || this.canUseLane(edge.laneId, options.entityType));
+
+    const penalty = options.congestionPenalty ?? DEFAULT_CONGESTION_PENALTY;
+    const cost: EdgeCostFn = edge => {
+      if (!usable(edge)) return Infinity;
+      const base = options.cost ? options.cost(edge) : edge.length;
+      return base + (options.congestion?.get(edge.laneId) ?? 0) * penalty;
+    };
+
+    const startOn = projectOntoGraph(this.graph, from, usable);
+    if (!startOn) return null;
+    const start = insertNodeOnEdge(this.graph, startOn.edge, startOn.offset, 'route-start');
+
+    const goalOn = projectOntoGraph(start.graph, to, usable);
+    if (!goalOn) return null;
+    const goal = insertNodeOnEdge(start.graph, goalOn.edge, goalOn.offset, 'route-goal');
+
+    // A custom cost may undercut edge length, which breaks the A* heuristic
+    const path = findPath(goal.graph, start.nodeId, goal.nodeId, cost, !options.cost);
+    if (!path) return null;
+
+    if (path.edges.length === 0) {
+      return { laneIds: [startOn.edge.laneId], points: [startOn.point], length: 0, cost: 0 };
+    }
+
+    const laneIds: string[] = [];
+    const points: LanePoint[] = [path.edges[0]!.points[0]!];
+    for (const edge of path.edges) {
+      if (laneIds[laneIds.length - 1] !== edge.laneId) laneIds.push(edge.laneId);
+      points.push(...edge.points.slice(1));
+    }
+
+    return { laneIds, points, length: path.length, cost: path.cost };
+  }
+
+  /**
+   * Whether an entity type may travel along a lane (`allowedTypes`)
+   */
+  public canUseLane(laneId: string, entityType: EntityState['type']): boolean {
+    const lane = this.getLane(laneId);
+    if (!lane) return false;
+    return !lane.allowedTypes || lane.allowedTypes.includes(entityType);
+  }
+
+  /**
+   * One-way lanes may only be travelled from their first point to their last
+   */
+  public isOneWay(laneId: string): boolean {
+    return this.getLane(laneId)?.direction === 'oneway';
+  }
+
+  /**
+   * Speed limit of a lane in m/s, for an entity type if given - Infinity
+   * when it has none
+   */
+  public speedLimit(laneId: string, entityType?: EntityState['type']): number {
+    const lane = this.getLane(laneId);
+    const typeLimit = entityType ? lane?.maxSpeedByType?.[entityType] : undefined;
+    return Math.min(lane?.maxSpeed ?? Infinity, typeLimit ?? Infinity);
+  }
+
+  /**
+   * All lanes passing within `tolerance` meters of a position (defaults to
+   * half of each lane's width), nearest first
+   */
+  public lanesAt(position: LanePoint, tolerance?: number): Array<{
+    laneId: string;
+    point: LanePoint;
+    progress: number;
+    distance: number;
+  }> {
+    const matches = [];
+    const reach = tolerance ?? this.maxHalfWidth;
+    const cells: number[][] = [];
+    if (Number.isFinite(reach)) {
+      this.forEachCell(position.x - reach, position.y - reach, position.x + reach, position.y + reach, key => {
+        const cell = this.laneCells.get(key);
+        if (cell) cells.push(cell);
+      });
+    } else {
+      cells.push(this.laneNetwork.lanes.map((_lane, index) => index));
+    }
+
+    // Each lane once, in network order so lanes at the same distance keep it
+    const candidates = cells.length === 1 ? cells[0]! : Array.from(new Set(cells.flat())).sort((a, b) => a - b);
+    for (const index of candidates) {
+      const lane = this.laneNetwork.lanes[index]!;
+      const result = this.nearestPointOnSpecificLane(position, lane);
+      const limit = tolerance ?? (lane.width ?? DEFAULT_LANE_WIDTH) / 2;
+      if (result.distance <= limit) {
+        matches.push({ laneId: lane.id, ...result });
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Check whether a position lies within the width of any lane
+   */
+  public isOnLane(position: LanePoint, tolerance?: number): boolean {
+    return this.lanesAt(position, tolerance).length > 0;
+  }
+
+  /**
+   * Junction points - graph nodes shared by more than one lane. These are
+   * where vehicles can change lanes, and serve as spawn points.
+   */
+  public getJunctionPoints(): LanePoint[] {
+    if (this.junctionPoints) return this.junctionPoints;
+
+    this.junctionPoints = Array.from(this.graph.nodes.values())
+      .filter(node => node.laneIds.length > 1)
+      .map(node => ({ x: node.x, y: node.y }));
+    return this.junctionPoints;
+  }
+
+  /**
+   * The routing graph: lanes split into edges at every junction
+   */
+  public getGraph(): LaneGraph {
+    return this.graph;
+  }
+
+  /**
+   * First junction reached when travelling along a lane from `progress` in
+   * the given direction (1 = towards the lane end, -1 = towards its start)
+   */
+  public nextJunctionAlongLane(laneId: string, progress: number, direction: 1 | -1): {
+    point: LanePoint;
+    distance: number;
+  } | null {
+    const lane = this.getLane(laneId);
+    if (!lane) return null;
+
+    const here = this.distanceAtProgress(lane, progress);
+    let best: { point: LanePoint; distance: number } | null = null;
+
+    for (const junction of this.getJunctionPoints()) {
+      const onLane = this.nearestPointOnSpecificLane(junction, lane);
+      if (onLane.distance > 0.1) continue;
+
+      const distance = (this.distanceAtProgress(lane, onLane.progress) - here) * direction;
+      if (distance > 0.5 && (!best || distance < best.distance)) {
+        best = { point: junction, distance };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Travel `distance` meters along a lane from `progress` (negative distance
+   * travels backwards), stopping at the lane ends
+   */
+  public pointAlongLane(laneId: string, progress: number, distance: number): {
+    point: LanePoint;
+    progress: number;
+    heading: number;
+  } {
+    const lane = this.getLane(laneId);
+    if (!lane) {
+      throw new Error(`Lane not found: ${laneId}`);
+    }
+
+    const laneLength = this.calculateLaneLength(lane);
+    const travelled = Math.max(0, Math.min(laneLength,
+      this.distanceAtProgress(lane, progress) + distance
+    ));
+    const newProgress = this.progressAtDistance(lane, travelled);
+
+    return {
+      point: this.getPositionAtProgress(lane, newProgress),
+      progress: newProgress,
+      heading: this.getHeadingAtProgress(lane, newProgress)
+    };
+  }
+
+  /**
+   * Meters along a lane from its first point to `progress`
+   */
+  public distanceAlongLane(laneId: string, progress: number): number {
+    const lane = this.getLane(laneId);
+    if (!lane) {
+      throw new Error(`Lane not found: ${laneId}`);
+    }
+    return this.distanceAtProgress(lane, progress);
+  }
+
   /**
    * Get all lanes in the network
    */
@@ -221,7 +486,7 @@ export class LaneNavigator {
    * Get lane by ID
    */
   public getLane(laneId: string): Lane | undefined {
-    return this.laneNetwork.lanes.find(l => l.id === laneId);
+    return this.lanesById.get(laneId);
   }
 
   // Helper methods
@@ -241,6 +506,37 @@ export class LaneNavigator {
     return length;
   }
 
+  // Lane progress is measured per segment (see nearestPointOnSpecificLane),
+  // so convert through segment lengths to get metric distances
+  private distanceAtProgress(lane: Lane, progress: number): number {
+    const segments = lane.points.length - 1;
+    const scaled = Math.max(0, Math.min(1, progress)) * segments;
+    let distance = 0;
+
+    for (let i = 0; i < segments; i++) {
+      const start = lane.points[i]!;
+      const end = lane.points[i + 1]!;
+      const fraction = Math.max(0, Math.min(1, scaled - i));
+      distance += this.distance(start, end) * fraction;
+    }
+    return distance;
+  }
+
+  private progressAtDistance(lane: Lane, distance: number): number {
+    const segments = lane.points.length - 1;
+    if (segments < 1) return 0;
+    let remaining = distance;
+
+    for (let i = 0; i < segments; i++) {
+      const segmentLength = this.distance(lane.points[i]!, lane.points[i + 1]!);
+      if (remaining <= segmentLength) {
+        return (i + (segmentLength > 0 ? remaining / segmentLength : 0)) / segments;
+      }
+      remaining -= segmentLength;
+    }
+    return 1;
+  }
+
   private getPositionAtProgress(lane: Lane, progress: number): LanePoint {
     const firstPoint = lane.points[0];
     const lastPoint = lane.points[lane.points.length - 1];
@@ -285,14 +581,75 @@ export class LaneNavigator {
 
     return Math.atan2(end.y - start.y, end.x - start.x);
   }
+}
 
-  private findReturnLane(currentLaneId: string): string | null {
-    // Find any lane that connects to this one
-    for (const [laneId, connections] of this.laneConnections.entries()) {
-      if (connections.includes(currentLaneId) && laneId !== currentLaneId) {
-        return laneId;
-      }
+function validateLaneNetwork(network: LaneNetwork): string[] {
+  const issues: string[] = [];
+  if (!network || !Array.isArray(network.lanes)) {
+    return ['expected an object with a "lanes" array'];
+  }
+  if (network.units !== 'meters' && network.units !== 'px') {
+    issues.push(`units: expected "meters" or "px", got ${JSON.stringify(network.units)}`);
+  }
+  if (network.lanes.length === 0) {
+    issues.push('lanes: needs at least one lane');
+  }
+
+  const seen = new Set<string>();
+  network.lanes.forEach((lane, i) => {
+    const label = typeof lane?.id === 'string' && lane.id ? lane.id : `lanes[${i}]`;
+    if (typeof lane?.id !== 'string' || !lane.id) {
+      issues.push(`${label}: missing id`);
+    } else if (seen.has(lane.id)) {
+      issues.push(`${label}: duplicate id`);
+    } else {
+      seen.add(lane.id);
+    }
+
+    if (!Array.isArray(lane?.points) || lane.points.length < 2) {
+      issues.push(`${label}: points needs at least 2 points`);
+    } else if (!lane.points.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y))) {
+      issues.push(`${label}: points need numeric x and y`);
+    }
+    if (lane?.width !== undefined && !(Number.isFinite(lane.width) && lane.width > 0)) {
+      issues.push(`${label}: width must be a positive number`);
     }
-    return null;
+    if (lane?.direction !== undefined && !LANE_DIRECTIONS.includes(lane.direction)) {
+      issues.push(`${label}: direction must be one of ${LANE_DIRECTIONS.join(', ')}`);
+    }
+    if (lane?.maxSpeed !== undefined && !(Number.isFinite(lane.maxSpeed) && lane.maxSpeed > 0)) {
+      issues.push(`${label}: maxSpeed must be a positive number`);
+    }
+    if (lane?.maxSpeedByType !== undefined &&
+        (typeof lane.maxSpeedByType !== 'object' || lane.maxSpeedByType === null ||
+         !Object.entries(lane.maxSpeedByType).every(([type, limit]) =>
+           ENTITY_TYPES.includes(type as PositionTick['type']) && Number.isFinite(limit) && limit! > 0))) {
+      issues.push(`${label}: maxSpeedByType needs positive limits for ${ENTITY_TYPES.join(', ')}`);
+    }
+    if (lane?.allowedTypes !== undefined &&
+        (!Array.isArray(lane.allowedTypes) || lane.allowedTypes.length === 0 ||
+         !lane.allowedTypes.every(type => ENTITY_TYPES.includes(type)))) {
+      issues.push(`${label}: allowedTypes must list at least one of ${ENTITY_TYPES.join(', ')}`);
+    }
+  });
+
+  if (network.connections !== undefined && !Array.isArray(network.connections)) {
+    issues.push('connections: expected an array');
+    return issues;
   }
+  (network.connections ?? []).forEach((connection, i) => {
+    const label = `connections[${i}]`;
+    for (const end of ['from', 'to'] as const) {
+      if (!seen.has(connection?.[end])) {
+        issues.push(`${label}: unknown lane ${JSON.stringify(connection?.[end])} in ${end}`);
+      }
+    }
+    if (connection?.via !== undefined &&
+        (!Array.isArray(connection.via) ||
+         !connection.via.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y)))) {
+      issues.push(`${label}: via points need numeric x and y`);
+    }
+  });
+
+  return issues;
 }
@@ -0,0 +1,132 @@
+import { PositionTick, DTEvent } from './types';
+import { LaneNavigator } from './lane-navigator';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const MIN_MOVEMENT = 0.05;         // meters between ticks before direction is judged
+const ALONG_LANE_RATIO = 0.5;      // share of the movement that must follow the lane axis
+const STALE_MS = 10000;            // forget entities not heard from for this long
+
+export type LaneRule = 'laneAccess' | 'wrongWay';
+
+interface TrackedEntity {
+  x: number;
+  y: number;
+  t: number;
+  violations: Set<string>;         // "<rule>:<laneId>" currently in effect
+}
+
+/**
+ * Checks positions against the lane rules from lanes.json - which entity
+ * types may use a lane, and which way one-way lanes run - and raises a
+ * `zoneBreach` event when an entity starts breaking one. The event is not
+ * repeated until the entity has complied again.
+ */
+export class LaneRuleMonitor implements TickDetector {
+  private laneNavigator: LaneNavigator;
+  private generateId: () => string;
+  private tracked: Map<string, TrackedEntity> = new Map();
+  private lastSweep = 0;
+
+  constructor(laneNavigator: LaneNavigator, generateId: () => string = () => uuidv4()) {
+    this.laneNavigator = laneNavigator;
+    this.generateId = generateId;
+  }
+
+  /**
+   * Check a batch of ticks, returning events for newly started violations
+   */
+  public check(ticks: PositionTick[]): DTEvent[] {
+    const events: DTEvent[] = [];
+    if (ticks.length === 0) return events;
+
+    for (const tick of ticks) {
+      // Movement since a tick this old says nothing about direction
+      const tracked = this.tracked.get(tick.id);
+      const previous = tracked && tick.t - tracked.t <= STALE_MS ? tracked : undefined;
+      const active = this.violationsAt(tick, previous);
+
+      for (const [key, violation] of active) {
+        if (previous?.violations.has(key)) continue;
+
+        events.push({
+          id: this.generateId(),
+          t: tick.t,
+          type: 'zoneBreach',
+          assetIds: [tick.id],
+          zoneId: tick.zoneId || 'unknown',
+          payload: {
+            rule: violation.rule,
+            laneId: violation.laneId,
+            entityType: tick.type,
+            reason: violation.rule === 'laneAccess'
+              ? `${tick.type} not allowed on ${violation.laneId}`
+              : `travelling against one-way ${violation.laneId}`,
+            severity: 'high'
+          }
+        });
+      }
+
+      this.tracked.set(tick.id, { x: tick.x, y: tick.y, t: tick.t, violations: new Set(active.keys()) });
+    }
+
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+    if (now - this.lastSweep >= STALE_MS) {
+      this.tracked.forEach((entity, id) => {
+        if (now - entity.t > STALE_MS) this.tracked.delete(id);
+      });
+      this.lastSweep = now;
+    }
+
+    return events;
+  }
+
+  /**
+   * Drop all tracked state (e.g. when the tick source changes)
+   */
+  public reset(): void {
+    this.tracked.clear();
+    this.lastSweep = 0;
+  }
+
+  private violationsAt(
+    tick: PositionTick,
+    previous?: TrackedEntity
+  ): Map<string, { rule: LaneRule; laneId: string }> {
+    const violations = new Map<string, { rule: LaneRule; laneId: string }>();
+    const lanes = this.laneNavigator.lanesAt(tick);
+    const nearest = lanes[0];
+    if (!nearest) return violations;
+
+    // At a junction it is enough for one of the lanes to allow the entity
+    if (!lanes.some(lane => this.laneNavigator.canUseLane(lane.laneId, tick.type))) {
+      violations.set(`laneAccess:${nearest.laneId}`, { rule: 'laneAccess', laneId: nearest.laneId });
+    }
+
+    // Direction is judged from the movement since the previous tick, as
+    // headings from live tags cannot be relied on
+    if (!previous) return violations;
+    const dx = tick.x - previous.x;
+    const dy = tick.y - previous.y;
+    const moved = Math.sqrt(dx * dx + dy * dy);
+    if (moved < MIN_MOVEMENT) {
+      // Standing still keeps an ongoing wrong-way violation open
+      for (const key of previous.violations) {
+        if (key.startsWith('wrongWay:')) {
+          violations.set(key, { rule: 'wrongWay', laneId: key.slice('wrongWay:'.length) });
+        }
+      }
+      return violations;
+    }
+
+    if (lanes.every(lane => this.laneNavigator.isOneWay(lane.laneId))) {
+      const heading = this.laneNavigator.pointAlongLane(nearest.laneId, nearest.progress, 0).heading;
+      const along = dx * Math.cos(heading) + dy * Math.sin(heading);
+      if (along < -ALONG_LANE_RATIO * moved) {
+        violations.set(`wrongWay:${nearest.laneId}`, { rule: 'wrongWay', laneId: nearest.laneId });
+      }
+    }
+
+    return violations;
+  }
+}
@@ -1,56 +1,199 @@
 import { WebSocketServer } from 'ws';
-import { LaneNavigator } from './lane-navigator';
+import { LaneNavigator, LaneMapError } from './lane-navigator';
+import { serializeLaneGraph } from './lane-graph';
 import { WarehouseSimulator } from './warehouse-simulator';
-import { PositionTick, DTEvent, SimulatorConfig } from './types';
+import { ZoneRegistry, ZoneMapError } from './zone-registry';
+import { createEventPipeline } from './event-pipeline';
+import { createTelemetryStore } from './telemetry-store';
+import { parseHistoryQuery, executeHistoryQuery, HistoryQueryError } from './history-query';
+import {
+  ReplayController,
+  ReplayError,
+  ReplayAction,
+  ReplayOptions,
+  ReplayStatus,
+  REPLAY_ACTIONS,
+  parseReplayRequest
+} from './replay-controller';
+import { loadConfig, describeConfigOptions, ConfigError } from './config';
+import { TopicRouter, parseTopicList } from './mqtt-topics';
+import { DecoderRegistry, DecoderMapError } from './decoder-registry';
+import { AnchorRegistry, AnchorMapError } from './anchor-registry';
+import { DecodedPosition, PayloadDecodeError, headingAs } from './payload-decoders';
+import { TagTracker } from './tag-tracker';
+import { LaneMatcher } from './lane-matcher';
+import { createSeededRandom, createSeededIdGenerator } from './random';
+import { PositionTick, DTEvent, ServiceConfig } from './types';
 import * as fs from 'fs';
-import * as path from 'path';
 import * as mqtt from 'mqtt';
 import express from 'express';
 import cors from 'cors';
 
-const WS_PORT = 8084;
-const HTTP_PORT = 3001;
-const MQTT_BROKER = 'mqtt://broker.hivemq.com:1883';
-const MQTT_TOPIC = 'aqilah/dev/01';
+if (process.argv.includes('--help')) {
+  console.log(describeConfigOptions());
+  process.exit(0);
+}
+
+// Load configuration (defaults < config file < env < CLI flags)
+let serviceConfig: ServiceConfig;
+try {
+  serviceConfig = loadConfig();
+} catch (error) {
+  if (error instanceof ConfigError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const simulatorConfig = serviceConfig.simulator;
+const WS_PORT = simulatorConfig.wsPort;
+const HTTP_PORT = serviceConfig.httpPort;
+const MQTT_BROKER = serviceConfig.mqtt.url;
+const MQTT_TOPICS = parseTopicList(serviceConfig.mqtt.topic);
 
-// Operation mode
-type OperationMode = 'simulation' | 'mqtt';
-let currentMode: OperationMode = 'simulation';
+// Topic templates - which topics to subscribe to, and the device id, site
+// and tag type each topic carries (validated with the rest of the config)
+const topicRouter = new TopicRouter(MQTT_TOPICS);
+const ENTITY_TYPES: Array<PositionTick['type']> = ['forklift', 'pallet', 'worker'];
+
+// Defaults for what neither the topic nor the payload says
+const MQTT_DEFAULT_DEVICE_ID = 'mqtt-device-1';
+const MQTT_DEFAULT_CONFIDENCE = 0.85;
+
+// Operation mode - hybrid runs the simulator with real MQTT tags in the same world
+type OperationMode = 'simulation' | 'mqtt' | 'hybrid' | 'replay';
+const OPERATION_MODES: OperationMode[] = ['simulation', 'mqtt', 'hybrid', 'replay'];
+let currentMode: OperationMode = simulatorConfig.useSimulation ? 'simulation' : 'mqtt';
+let modeBeforeReplay: OperationMode = currentMode; // where replay `stop` returns to
+
+// Replay without an explicit window plays back the last 10 minutes
+const DEFAULT_REPLAY_WINDOW_MS = 10 * 60 * 1000;
 
 // Data storage
-const telemetryBuffer: PositionTick[] = [];
-const MAX_BUFFER_SIZE = 1000;
+const telemetryStore = createTelemetryStore(serviceConfig.storage);
 
 // Load lane configuration
-const lanesPath = path.join(__dirname, '../config/lanes.json');
-const laneConfig = JSON.parse(fs.readFileSync(lanesPath, 'utf8'));
-
-// Create lane navigator
-const laneNavigator = new LaneNavigator(laneConfig);
-
-// Simulator configuration
-const simulatorConfig: SimulatorConfig = {
-  wsPort: WS_PORT,
-  useSimulation: true,
-  forkliftCount: 2,
-  palletCount: 0,  // Focus on forklifts for testing
-  workerCount: 0,  // Focus on forklifts for testing
-  forkliftSpeedRange: [1.0, 2.5],      // m/s
-  palletSpeedRange: [0.5, 1.8],        // m/s  
-  workerSpeedRange: [0.3, 1.5],        // m/s
-  tickMs: 200,                          // 5Hz updates (200ms)
-  simSpeed: 1.0,                        // real-time
-  eventProbability: 0.001,              // per tick per entity
-  collisionRadius: 1.5,                 // meters
-  congestionThreshold: 3                // entities per lane
-};
+const laneConfig = JSON.parse(fs.readFileSync(serviceConfig.lanesFile, 'utf8'));
+
+// Load zone polygons - zoneId on every tick comes from here
+let zoneRegistry: ZoneRegistry;
+try {
+  zoneRegistry = new ZoneRegistry(JSON.parse(fs.readFileSync(serviceConfig.zonesFile, 'utf8')));
+} catch (error) {
+  if (error instanceof ZoneMapError) {
+    console.error(`❌ ${serviceConfig.zonesFile}: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+// Load UWB anchor positions - for tags that publish raw ranges
+let anchorRegistry: AnchorRegistry;
+try {
+  anchorRegistry = new AnchorRegistry(JSON.parse(fs.readFileSync(serviceConfig.anchorsFile, 'utf8')));
+} catch (error) {
+  if (error instanceof AnchorMapError) {
+    console.error(`❌ ${serviceConfig.anchorsFile}: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+// Load payload decoders - which decoder reads each MQTT topic
+let decoderRegistry: DecoderRegistry;
+try {
+  decoderRegistry = new DecoderRegistry(JSON.parse(fs.readFileSync(serviceConfig.mqtt.decodersFile, 'utf8')), anchorRegistry);
+} catch (error) {
+  if (error instanceof DecoderMapError) {
+    console.error(`❌ ${serviceConfig.mqtt.decodersFile}: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+// Per-tag tracking filter for live positions
+const tagTracker = serviceConfig.tracking.enabled ? new TagTracker(serviceConfig.tracking) : null;
+
+// Seeded runs share one PRNG so the same seed and config replay identically
+const random = simulatorConfig.seed !== undefined ? createSeededRandom(simulatorConfig.seed) : Math.random;
+const generateId = simulatorConfig.seed !== undefined ? createSeededIdGenerator(random) : undefined;
+
+// Create lane navigator - validates the lane network
+let laneNavigator: LaneNavigator;
+try {
+  laneNavigator = new LaneNavigator(laneConfig, random);
+} catch (error) {
+  if (error instanceof LaneMapError) {
+    console.error(`❌ ${serviceConfig.lanesFile}: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+// Lane matching for live positions, so every client sees the same track
+const laneMatcher = serviceConfig.mapMatching.enabled ? new LaneMatcher(laneNavigator, serviceConfig.mapMatching) : null;
 
 // Create simulator
-const simulator = new WarehouseSimulator(simulatorConfig, laneNavigator);
+const simulator = new WarehouseSimulator(simulatorConfig, laneNavigator, {
+  random,
+  zones: zoneRegistry,
+  generateId
+});
+
+// Event detection (lane and zone rules, near collisions, congestion, dwell,
+// speeding, collision prediction) runs on every recorded position, simulated and MQTT alike
+const eventPipeline = createEventPipeline(
+  simulatorConfig,
+  laneNavigator,
+  zoneRegistry,
+  generateId
+);
+
+// Replays recorded telemetry straight to clients - nothing is re-recorded
+const replayController = new ReplayController(
+  telemetryStore,
+  broadcastPositions,
+  broadcastEvent,
+  broadcastReplayStatus
+);
 
 // MQTT Client
 let mqttClient: mqtt.MqttClient | null = null;
 
+// Published to the last-will topic while connected; the broker replaces it
+// with the will payload if the service drops off without disconnecting
+const MQTT_ONLINE_PAYLOAD = 'online';
+
+// Connection options from config - credentials, TLS files, session and last will
+function mqttOptions(): mqtt.IClientOptions {
+  const config = serviceConfig.mqtt;
+  const options: mqtt.IClientOptions = {
+    clientId: config.clientId ?? `warehouse-iot-${Date.now()}`,
+    clean: config.cleanSession,
+    keepalive: 60,
+    reconnectPeriod: 5000,
+    connectTimeout: 30000,
+    rejectUnauthorized: config.tls.rejectUnauthorized
+  };
+
+  if (config.username !== undefined) options.username = config.username;
+  if (config.password !== undefined) options.password = config.password;
+  if (config.tls.caFile) options.ca = fs.readFileSync(config.tls.caFile);
+  if (config.tls.certFile) options.cert = fs.readFileSync(config.tls.certFile);
+  if (config.tls.keyFile) options.key = fs.readFileSync(config.tls.keyFile);
+  if (config.will.topic) {
+    options.will = {
+      topic: config.will.topic,
+      payload: Buffer.from(config.will.payload),
+      qos: config.will.qos,
+      retain: config.will.retain
+    };
+  }
+
+  return options;
+}
+
 // Initialize MQTT client
 function initializeMQTT() {
   if (mqttClient) {
@@ -58,81 +201,105 @@ function initializeMQTT() {
   }
 
   console.log(`📡 Connecting to MQTT broker: ${MQTT_BROKER}`);
-  mqttClient = mqtt.connect(MQTT_BROKER, {
-    clientId: `warehouse-iot-${Date.now()}`,
-    keepalive: 60,
-    reconnectPeriod: 5000,
-    connectTimeout: 30000
-  });
+  mqttClient = mqtt.connect(MQTT_BROKER, mqttOptions());
+
+  mqttClient.on('connect', (connack) => {
+    console.log(`✅ Connected to MQTT broker${connack.sessionPresent ? ' (session resumed)' : ''}`);
+
+    const will = serviceConfig.mqtt.will;
+    if (will.topic) {
+      mqttClient!.publish(will.topic, MQTT_ONLINE_PAYLOAD, { qos: will.qos, retain: will.retain });
+    }
 
-  mqttClient.on('connect', () => {
-    console.log(`✅ Connected to MQTT broker`);
-    mqttClient!.subscribe(MQTT_TOPIC, { qos: 1 }, (err) => {
+    // Subscribing again is harmless on a resumed session, and picks up
+    // templates changed since it began
+    const subscriptions: mqtt.ISubscriptionMap = {};
+    for (const { filter, qos } of topicRouter.subscriptions(serviceConfig.mqtt.qos)) {
+      subscriptions[filter] = { qos };
+    }
+    const filters = Object.keys(subscriptions).join(', ');
+    mqttClient!.subscribe(subscriptions, (err) => {
       if (err) {
-        console.error(`❌ Failed to subscribe to ${MQTT_TOPIC}:`, err);
+        console.error(`❌ Failed to subscribe to ${filters}:`, err);
       } else {
-        console.log(`📥 Subscribed to topic: ${MQTT_TOPIC}`);
+        console.log(`📥 Subscribed to topics: ${filters}`);
       }
     });
   });
 
   mqttClient.on('message', (topic, message) => {
     try {
-      if (currentMode !== 'mqtt') return; // Ignore if not in MQTT mode
+      if (currentMode !== 'mqtt' && currentMode !== 'hybrid') return; // Ignore unless real tags are live
 
-      const payload = message.toString();
-      console.log(`📨 MQTT message on ${topic}: ${payload}`);
+      console.log(`📨 MQTT message on ${topic} (${message.length} bytes)`);
 
-      let positionData: PositionTick;
+      const route = topicRouter.match(topic);
+      if (!route) {
+        console.warn(`⚠️  No topic template matches ${topic}`);
+        return;
+      }
 
-      // Try to parse as JSON first
+      let decoded: DecodedPosition[];
       try {
-        const jsonData = JSON.parse(payload);
-        positionData = {
-          id: jsonData.deviceId || `device-${Date.now()}`,
-          type: jsonData.type || 'forklift',
-          x: parseFloat(jsonData.x),
-          y: parseFloat(jsonData.y),
-          speed: jsonData.speed || 0,
-          heading: jsonData.heading || 0,
-          zoneId: jsonData.zoneId,
-          confidence: jsonData.confidence || 0.9,
-          t: jsonData.ts || Date.now()
+        decoded = decoderRegistry.decode(topic, message);
+      } catch (error) {
+        if (!(error instanceof PayloadDecodeError)) throw error;
+        console.warn(`⚠️  Rejected payload on ${topic}: ${error.code}${error.field ? ` (${error.field})` : ''} - ${error.message}`);
+        return;
+      }
+
+      const ticks: PositionTick[] = [];
+      for (const position of decoded) {
+        // The topic names the tag where its template says so, over the payload
+        const type = (route.type ?? position.type ?? 'forklift') as PositionTick['type'];
+        const heading = headingAs(position, type);
+        let tick: PositionTick = {
+          id: route.deviceId ?? position.id ?? MQTT_DEFAULT_DEVICE_ID,
+          type,
+          x: position.x,
+          y: position.y,
+          speed: position.speed ?? 0,
+          heading: heading ?? 0,
+          confidence: position.confidence ?? MQTT_DEFAULT_CONFIDENCE,
+          t: position.t ?? Date.now()
         };
-      } catch {
-        // Try to parse as CSV "x,y,speed,heading"
-        const parts = payload.split(',');
-        if (parts.length >= 2 && parts[0] && parts[1]) {
-          positionData = {
-            id: 'mqtt-device-1',
-            type: 'forklift',
-            x: parseFloat(parts[0].trim()),
-            y: parseFloat(parts[1].trim()),
-            speed: parts[2] ? parseFloat(parts[2].trim()) : 0,
-            heading: parts[3] ? parseFloat(parts[3].trim()) : 0,
-            confidence: 0.85,
-            t: Date.now()
-          };
-        } else {
-          throw new Error('Invalid CSV format');
+        if (route.site) tick.site = route.site;
+
+        if (!ENTITY_TYPES.includes(tick.type)) {
+          console.warn(`⚠️  Unknown tag type "${tick.type}" on ${topic}`);
+          continue;
         }
-      }
 
-      // Validate data
-      if (isNaN(positionData.x) || isNaN(positionData.y)) {
-        console.warn(`⚠️  Invalid position data: x=${positionData.x}, y=${positionData.y}`);
-        return;
+        // Filtered position, with speed and heading estimated unless the tag sent them
+        if (tagTracker) {
+          const tracked = tagTracker.update(tick, position.speed !== undefined && heading !== undefined);
+          if (!tracked.tick) {
+            console.warn(`⚠️  Rejected reading from ${tick.id}: ${tracked.rejected} at (${tick.x}, ${tick.y})`);
+            continue;
+          }
+          tick = tracked.tick;
+        }
+
+        // Lane, progress and matched position, for the dashboard and lane analytics
+        const lane = laneMatcher?.match(tick);
+        if (lane) tick.lane = lane;
+
+        // Zones are resolved here, not trusted from the tag
+        tick.zoneId = zoneRegistry.zoneIdAt(tick);
+        ticks.push(tick);
       }
+      if (ticks.length === 0) return;
 
-      // Add to telemetry buffer
-      telemetryBuffer.push(positionData);
-      if (telemetryBuffer.length > MAX_BUFFER_SIZE) {
-        telemetryBuffer.shift(); // Remove oldest
+      // Simulated vehicles give way to real ones
+      if (currentMode === 'hybrid') {
+        simulator.updateExternal(ticks);
       }
 
-      // Broadcast to WebSocket clients
-      broadcastPositions([positionData]);
-      console.log(`📍 Broadcasted MQTT position: ${positionData.id} at (${positionData.x}, ${positionData.y})`);
+      // Persist and broadcast to WebSocket clients
+      recordPositions(ticks);
+      for (const tick of ticks) {
+        console.log(`📍 Broadcasted MQTT position: ${tick.id} at (${tick.x}, ${tick.y})`);
+      }
 
     } catch (error) {
       console.error(`❌ Error processing MQTT message: ${error}`);
@@ -173,7 +340,7 @@ wss.on('connection', function connection(ws: any, request: any) {
     timestamp: Date.now(),
     entities: currentMode === 'simulation' 
       ? simulatorConfig.forkliftCount + simulatorConfig.palletCount + simulatorConfig.workerCount
-      : telemetryBuffer.length
+      : telemetryStore.stats().ticks
   }));
 
   // Handle client messages
@@ -191,12 +358,12 @@ wss.on('connection', function connection(ws: any, request: any) {
             type: 'config', 
             config: simulatorConfig,
             mode: currentMode,
-            topic: MQTT_TOPIC,
+            topics: MQTT_TOPICS,
             timestamp: Date.now() 
           }));
           break;
         case 'mode':
-          if (message.mode && ['simulation', 'mqtt'].includes(message.mode)) {
+          if (message.mode && OPERATION_MODES.includes(message.mode)) {
             switchMode(message.mode as OperationMode);
             ws.send(JSON.stringify({
               type: 'mode_changed',
@@ -206,11 +373,19 @@ wss.on('connection', function connection(ws: any, request: any) {
           } else {
             ws.send(JSON.stringify({
               type: 'error',
-              message: 'Invalid mode. Use "simulation" or "mqtt"',
+              message: 'Invalid mode. Use "simulation", "mqtt", "hybrid" or "replay"',
               timestamp: Date.now()
             }));
           }
           break;
+        case 'replay':
+          ws.send(JSON.stringify({
+            type: 'replay_status',
+            data: handleReplayAction(message.action, message),
+            mode: currentMode,
+            timestamp: Date.now()
+          }));
+          break;
         default:
           ws.send(JSON.stringify({ 
             type: 'error', 
@@ -219,6 +394,14 @@ wss.on('connection', function connection(ws: any, request: any) {
           }));
       }
     } catch (error) {
+      if (error instanceof ReplayError) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          message: error.message,
+          timestamp: Date.now()
+        }));
+        return;
+      }
       console.warn(`Invalid message from ${clientInfo}:`, data.toString());
       ws.send(JSON.stringify({ 
         type: 'error', 
@@ -239,13 +422,12 @@ wss.on('connection', function connection(ws: any, request: any) {
   });
 });
 
-// Broadcast position updates to all connected clients
-function broadcastPositions(positions: PositionTick[]) {
+// Send a message to all connected clients
+function broadcast(message: Record<string, unknown>) {
   if (clients.size === 0) return;
 
-  const message = JSON.stringify({
-    type: 'positions',
-    data: positions,
+  const serialized = JSON.stringify({
+    ...message,
     mode: currentMode,
     timestamp: Date.now()
   });
@@ -253,9 +435,9 @@ function broadcastPositions(positions: PositionTick[]) {
   for (const client of clients) {
     if (client.readyState === 1) { // WebSocket.OPEN
       try {
-        client.send(message);
+        client.send(serialized);
       } catch (error) {
-        console.error('Error sending positions to client:', error);
+        console.error(`Error sending ${message.type} to client:`, error);
         clients.delete(client);
       }
     } else {
@@ -264,51 +446,129 @@ function broadcastPositions(positions: PositionTick[]) {
   }
 }
 
+// Broadcast position updates to all connected clients
+function broadcastPositions(positions: PositionTick[]) {
+  broadcast({ type: 'positions', data: positions });
+}
+
 // Broadcast events to all connected clients
 function broadcastEvent(event: DTEvent) {
-  if (clients.size === 0) return;
+  broadcast({ type: 'event', data: event });
+}
 
-  const message = JSON.stringify({
-    type: 'event',
-    data: event,
-    mode: currentMode,
-    timestamp: Date.now()
-  });
+// Broadcast replay state changes (play, pause, seek, end of window)
+function broadcastReplayStatus(status: ReplayStatus) {
+  broadcast({ type: 'replay_status', data: status });
+}
 
-  for (const client of clients) {
-    if (client.readyState === 1) { // WebSocket.OPEN
-      try {
-        client.send(message);
-      } catch (error) {
-        console.error('Error sending event to client:', error);
-        clients.delete(client);
-      }
-    } else {
-      clients.delete(client);
-    }
-  }
+// Persist position updates, then broadcast them along with the events
+// detected from them
+function recordPositions(positions: PositionTick[]) {
+  telemetryStore.appendTicks(positions);
+  broadcastPositions(positions);
+  eventPipeline.process(positions).forEach(recordEvent);
+}
+
+// Persist events, then broadcast them
+function recordEvent(event: DTEvent) {
+  telemetryStore.appendEvent(event);
+  broadcastEvent(event);
 }
 
 // Mode switching function
-function switchMode(newMode: OperationMode) {
+function switchMode(newMode: OperationMode, replayOptions?: ReplayOptions) {
   if (currentMode === newMode) return;
+
+  // Replay needs recorded data - fail before leaving the current mode
+  if (newMode === 'replay') {
+    replayController.start(replayOptions ?? {
+      ...replayController.latestWindow(DEFAULT_REPLAY_WINDOW_MS),
+      speed: 1,
+      loop: false
+    });
+  }
   
   console.log(`🔄 Switching from ${currentMode} to ${newMode} mode`);
+  if (newMode === 'replay') modeBeforeReplay = currentMode;
   
-  if (currentMode === 'simulation') {
+  if (currentMode === 'simulation' || currentMode === 'hybrid') {
     simulator.stop();
+  } else if (currentMode === 'replay') {
+    replayController.stop();
   }
   
   currentMode = newMode;
+  eventPipeline.reset();
+  tagTracker?.reset();
+  laneMatcher?.reset();
+  simulator.clearExternal();
   
   if (newMode === 'simulation') {
-    simulator.start(broadcastPositions, broadcastEvent);
+    simulator.start(recordPositions, recordEvent);
     console.log(`🤖 Simulation mode started`);
+  } else if (newMode === 'hybrid') {
+    simulator.start(recordPositions, recordEvent);
+    console.log(`🔀 Hybrid mode started - simulating alongside ${MQTT_TOPICS.join(', ')}`);
+  } else if (newMode === 'replay') {
+    console.log(`⏪ Replay mode started`);
   } else {
-    console.log(`📡 MQTT mode started - listening to ${MQTT_TOPIC}`);
+    console.log(`📡 MQTT mode started - listening to ${MQTT_TOPICS.join(', ')}`);
   }
 }
 
+// Apply a replay control action; returns the resulting replay status
+function handleReplayAction(action: unknown, params: Record<string, unknown>): ReplayStatus {
+  if (!REPLAY_ACTIONS.includes(action as ReplayAction)) {
+    throw new ReplayError(`Invalid replay action. Use one of: ${REPLAY_ACTIONS.join(', ')}`);
+  }
+
+  const request = parseReplayRequest(params);
+
+  if (action === 'start') {
+    const window = request.from !== undefined && request.to !== undefined
+      ? { from: request.from, to: request.to }
+      : replayController.latestWindow(DEFAULT_REPLAY_WINDOW_MS);
+    const options = { ...window, speed: request.speed ?? 1, loop: request.loop ?? false };
+
+    if (currentMode === 'replay') {
+      replayController.start(options);
+    } else {
+      switchMode('replay', options);
+    }
+    return replayController.status();
+  }
+
+  if (currentMode !== 'replay') {
+    throw new ReplayError('Replay is not running');
+  }
+
+  switch (action as ReplayAction) {
+    case 'pause':
+      replayController.pause();
+      break;
+    case 'resume':
+      replayController.resume();
+      break;
+    case 'seek':
+      if (request.t === undefined) throw new ReplayError('Seek needs a target time t');
+      replayController.seek(request.t);
+      break;
+    case 'speed':
+      if (request.speed === undefined) throw new ReplayError('Speed change needs a speed');
+      replayController.setSpeed(request.speed);
+      break;
+    case 'loop':
+      if (request.loop === undefined) throw new ReplayError('Loop change needs loop: true or false');
+      replayController.setLoop(request.loop);
+      break;
+    case 'stop':
+      switchMode(modeBeforeReplay);
+      break;
+  }
+
+  return replayController.status();
+}
+
 // Express REST API
 const app = express();
 app.use(cors());
@@ -319,20 +579,53 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     mode: currentMode,
-    topic: MQTT_TOPIC,
+    topics: MQTT_TOPICS,
     broker: MQTT_BROKER,
-    telemetryCount: telemetryBuffer.length,
+    telemetryCount: telemetryStore.stats().ticks,
+    storage: telemetryStore.stats(),
     connectedClients: clients.size,
     mqttConnected: mqttClient?.connected || false,
+    decoders: decoderRegistry.stats(),
     timestamp: Date.now()
   });
 });
 
-// History endpoint
-app.get('/history', (req, res) => {
+// Tracking filter state per live tag - filtered position and velocity, last raw reading
+app.get('/tracks', (req, res) => {
+  res.json({
+    enabled: tagTracker !== null,
+    tracks: tagTracker?.getTracks() ?? [],
+    timestamp: Date.now()
+  });
+});
+
+// History endpoint - see history-query.ts for the supported filters
+app.get('/history', async (req, res) => {
+  try {
+    const query = parseHistoryQuery(req.query as Record<string, unknown>);
+    const page = await executeHistoryQuery(telemetryStore, query);
+
+    return res.json({
+      mode: currentMode,
+      ...page,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    if (error instanceof HistoryQueryError) {
+      return res.status(400).json({
+        error: error.message,
+        timestamp: Date.now()
+      });
+    }
+    throw error;
+  }
+});
+
+// Event history endpoint
+app.get('/events', async (req, res) => {
   const limit = parseInt(req.query.limit as string) || 100;
-  const recent = telemetryBuffer.slice(-limit);
-  
+  const recent = (await telemetryStore.queryEvents({ limit, order: 'desc' })).reverse();
+
   res.json({
     mode: currentMode,
     count: recent.length,
@@ -341,18 +634,47 @@ app.get('/history', (req, res) => {
   });
 });
 
+// Lane graph endpoint (junction nodes and directed edges, for visualisation)
+app.get('/lanes/graph', (req, res) => {
+  const graph = serializeLaneGraph(laneNavigator.getGraph());
+
+  res.json({
+    nodeCount: graph.nodes.length,
+    edgeCount: graph.edges.length,
+    ...graph,
+    timestamp: Date.now()
+  });
+});
+
+app.get('/zones', (req, res) => {
+  res.json({
+    zones: zoneRegistry.getAllZones(),
+    timestamp: Date.now()
+  });
+});
+
 // Mode switch endpoint
 app.post('/mode', (req, res) => {
   const { mode } = req.body;
   
-  if (!mode || !['simulation', 'mqtt'].includes(mode)) {
+  if (!mode || !OPERATION_MODES.includes(mode)) {
     return res.status(400).json({
-      error: 'Invalid mode. Use "simulation" or "mqtt"',
+      error: 'Invalid mode. Use "simulation", "mqtt", "hybrid" or "replay"',
       timestamp: Date.now()
     });
   }
   
-  switchMode(mode as OperationMode);
+  try {
+    switchMode(mode as OperationMode);
+  } catch (error) {
+    if (error instanceof ReplayError) {
+      return res.status(400).json({
+        error: error.message,
+        timestamp: Date.now()
+      });
+    }
+    throw error;
+  }
   
   return res.json({
     success: true,
@@ -361,6 +683,37 @@ app.post('/mode', (req, res) => {
   });
 });
 
+// Replay status endpoint
+app.get('/replay', (req, res) => {
+  res.json({
+    mode: currentMode,
+    replay: replayController.status(),
+    timestamp: Date.now()
+  });
+});
+
+// Replay control endpoint - start, pause, resume, seek, speed, loop, stop
+app.post('/replay/:action', (req, res) => {
+  try {
+    const status = handleReplayAction(req.params.action, req.body || {});
+
+    return res.json({
+      success: true,
+      mode: currentMode,
+      replay: status,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    if (error instanceof ReplayError) {
+      return res.status(400).json({
+        error: error.message,
+        timestamp: Date.now()
+      });
+    }
+    throw error;
+  }
+});
+
 // Start REST API server
 app.listen(HTTP_PORT, () => {
   console.log(`REST API server running on port ${HTTP_PORT}`);
@@ -369,18 +722,28 @@ app.listen(HTTP_PORT, () => {
 // Initialize MQTT connection
 initializeMQTT();
 
-// Start in simulation mode
-switchMode('simulation');
+// Start in the configured mode
+if (currentMode === 'simulation') {
+  simulator.start(recordPositions, recordEvent);
+}
 
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nShutting down gracefully...');
   
   simulator.stop();
+  replayController.stop();
   
+  // A clean disconnect does not trigger the will, so say so ourselves
+  const will = serviceConfig.mqtt.will;
+  if (mqttClient?.connected && will.topic) {
+    mqttClient.publish(will.topic, will.payload, { qos: will.qos, retain: will.retain });
+  }
   if (mqttClient) {
     mqttClient.end();
   }
+
+  telemetryStore.close();
   
   // Close all client connections
   for (const client of clients) {
@@ -407,6 +770,6 @@ process.on('unhandledRejection', (reason, promise) => {
 console.log(`IoT Service ready! 🚀`);
 console.log(`WebSocket endpoint: ws://localhost:${WS_PORT}`);
 console.log(`REST API endpoint: http://localhost:${HTTP_PORT}`);
-console.log(`MQTT Topic: ${MQTT_TOPIC}`);
+console.log(`MQTT Topics: ${MQTT_TOPICS.join(', ')}`);
 console.log(`Current mode: ${currentMode}`);
 console.log('Press Ctrl+C to stop');
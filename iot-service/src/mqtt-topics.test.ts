@@ -0,0 +1,97 @@
+import { parseTopicList, TopicRouter, TopicTemplateError } from './mqtt-topics';
+
+function issuesOf(templates: string[]): string[] {
+  try {
+    new TopicRouter(templates);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TopicTemplateError);
+    return (error as TopicTemplateError).issues;
+  }
+  return [];
+}
+
+describe('TopicRouter', () => {
+  describe('match', () => {
+    it('captures placeholder levels', () => {
+      const router = new TopicRouter(['site/{site}/tag/{type}/{deviceId}/pos']);
+
+      expect(router.match('site/leeds/tag/forklift/tag-7/pos')).toEqual({
+        template: 'site/{site}/tag/{type}/{deviceId}/pos',
+        site: 'leeds',
+        type: 'forklift',
+        deviceId: 'tag-7'
+      });
+    });
+
+    it('needs every level, and no empty placeholder levels', () => {
+      const router = new TopicRouter(['site/{site}/tag/{deviceId}/pos']);
+
+      expect(router.match('site/leeds/tag/pos')).toBeUndefined();
+      expect(router.match('site/leeds/tag/tag-7/pos/raw')).toBeUndefined();
+      expect(router.match('site/leeds/tag//pos')).toBeUndefined();
+      expect(router.match('site/leeds/anchor/tag-7/pos')).toBeUndefined();
+    });
+
+    it('matches any one level with + and the rest of the topic with #', () => {
+      const router = new TopicRouter(['tags/+/{deviceId}', 'raw/#']);
+
+      expect(router.match('tags/uwb/tag-7')).toEqual({ template: 'tags/+/{deviceId}', deviceId: 'tag-7' });
+      expect(router.match('tags/tag-7')).toBeUndefined();
+      expect(router.match('raw/a/b/c')).toEqual({ template: 'raw/#' });
+      expect(router.match('raw')).toEqual({ template: 'raw/#' });
+    });
+
+    it('takes the first template a topic matches', () => {
+      const router = new TopicRouter(['tags/{deviceId}', 'tags/+', '#']);
+
+      expect(router.match('tags/tag-7')).toEqual({ template: 'tags/{deviceId}', deviceId: 'tag-7' });
+      expect(router.match('anchors/a-1')).toEqual({ template: '#' });
+    });
+
+    it('keeps wildcards off the broker\'s $-topics unless the template names them', () => {
+      const router = new TopicRouter(['#', '$SYS/{site}/clients']);
+
+      expect(router.match('$SYS/broker/uptime')).toBeUndefined();
+      expect(router.match('$SYS/leeds/clients')).toEqual({ template: '$SYS/{site}/clients', site: 'leeds' });
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('subscribes once per filter, placeholders as +, at the default QoS', () => {
+      const router = new TopicRouter(['site/{site}/tag/{deviceId}/pos', 'site/+/tag/+/pos', 'raw/#']);
+
+      expect(router.subscriptions(1)).toEqual([
+        { filter: 'site/+/tag/+/pos', qos: 1 },
+        { filter: 'raw/#', qos: 1 }
+      ]);
+    });
+
+    it('takes a QoS suffix over the default, the highest where filters are shared', () => {
+      const router = new TopicRouter(['tags/{deviceId}@0', 'raw/#@2', 'tags/+@1']);
+
+      expect(router.subscriptions(2)).toEqual([
+        { filter: 'tags/+', qos: 1 },
+        { filter: 'raw/#', qos: 2 }
+      ]);
+      expect(router.match('tags/tag-7')).toEqual({ template: 'tags/{deviceId}', deviceId: 'tag-7' });
+    });
+  });
+
+  it('lists every problem with the templates', () => {
+    expect(issuesOf([])).toEqual(['at least one topic is required']);
+    expect(issuesOf(['tags/+@3'])).toEqual(['tags/+@3: QoS must be 0, 1 or 2, got 3']);
+    expect(issuesOf(['a/{tag}/b', 'a/{site}/{site}', 'a/x{site}', 'a/#/b', 'a/b+'])).toEqual([
+      'a/{tag}/b: unknown placeholder {tag}, expected one of {deviceId}, {site}, {type}',
+      'a/{site}/{site}: {site} appears more than once',
+      'a/x{site}: a placeholder must be a whole level, got "x{site}"',
+      'a/#/b: # is only allowed as the last level',
+      'a/b+: wildcards must be a whole level, got "b+"'
+    ]);
+  });
+});
+
+describe('parseTopicList', () => {
+  it('splits a comma-separated list, dropping blanks', () => {
+    expect(parseTopicList(' tags/{deviceId} , ,raw/#,')).toEqual(['tags/{deviceId}', 'raw/#']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Topic templates for MQTT subscriptions. A template is an MQTT topic
+ * filter whose levels may also be named placeholders - `{deviceId}`,
+ * `{site}` and `{type}` - that match one level like `+` and capture it:
+ *
+ *   site/{site}/tag/{type}/{deviceId}/pos   subscribes to site/+/tag/+/+/pos
+ *
+ * so a fleet of tags can publish to their own topics without repeating
+ * their ids in every payload. A template may end in `@<qos>` to subscribe
+ * at a QoS other than the configured default (site/{site}/tag/{type}/+/pos@0).
+ */
+
+export type TopicField = 'deviceId' | 'site' | 'type';
+export type TopicQos = 0 | 1 | 2;
+
+const TOPIC_FIELDS: TopicField[] = ['deviceId', 'site', 'type'];
+const PLACEHOLDER = /^\{(\w+)\}$/;
+const QOS_SUFFIX = /@(\d+)$/;
+
+/**
+ * Raised when topic templates are malformed; lists every problem found
+ */
+export class TopicTemplateError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid MQTT topic templates:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'TopicTemplateError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * What a topic said about the tag that published on it
+ */
+export interface TopicMatch {
+  template: string;
+  deviceId?: string;
+  site?: string;
+  type?: string;                   // as written in the topic, not yet checked
+}
+
+interface TopicTemplate {
+  template: string;
+  filter: string;                  // the subscription, placeholders as `+`
+  qos?: TopicQos;                  // unless the default
+  levels: Array<string | { field: TopicField }>;
+}
+
+/**
+ * Split a comma-separated list of templates, as given in config
+ */
+export function parseTopicList(spec: string): string[] {
+  return spec.split(',').map(template => template.trim()).filter(template => template !== '');
+}
+
+/**
+ * Subscriptions for a set of templates, and the fields a received topic
+ * carries. Templates are tried in listed order.
+ */
+export class TopicRouter {
+  private templates: TopicTemplate[];
+
+  constructor(templates: string[]) {
+    const issues: string[] = [];
+    if (templates.length === 0) {
+      issues.push('at least one topic is required');
+    }
+    this.templates = templates.map(template => parseTemplate(template, issues));
+    if (issues.length > 0) {
+      throw new TopicTemplateError(issues);
+    }
+  }
+
+  /**
+   * Topic filters to subscribe to, one per template; templates sharing a
+   * filter subscribe once, at the highest QoS any of them asks for
+   */
+  public subscriptions(defaultQos: TopicQos): Array<{ filter: string; qos: TopicQos }> {
+    const subscriptions = new Map<string, TopicQos>();
+    for (const template of this.templates) {
+      const qos = template.qos ?? defaultQos;
+      subscriptions.set(template.filter, Math.max(qos, subscriptions.get(template.filter) ?? 0) as TopicQos);
+    }
+    return Array.from(subscriptions, ([filter, qos]) => ({ filter, qos }));
+  }
+
+  /**
+   * The first template a topic matches, with the fields it captured
+   */
+  public match(topic: string): TopicMatch | undefined {
+    const levels = topic.split('/');
+
+    for (const template of this.templates) {
+      const match: TopicMatch = { template: template.template };
+      let matched = true;
+
+      for (let i = 0; i < template.levels.length && matched; i++) {
+        const level = template.levels[i]!;
+        if (level === '#') break;
+        const value = levels[i];
+        if (value === undefined) {
+          matched = false;
+        } else if (typeof level !== 'string') {
+          if (value === '') matched = false;
+          else match[level.field] = value;
+        } else if (level !== '+' && level !== value) {
+          matched = false;
+        }
+      }
+
+      // Without a trailing #, the topic must not run past the template
+      const last = template.levels[template.levels.length - 1];
+      if (matched && last !== '#' && levels.length !== template.levels.length) matched = false;
+      // Wildcards do not match the broker's own $-topics
+      if (matched && topic.startsWith('$') && !template.template.startsWith('$')) matched = false;
+
+      if (matched) return match;
+    }
+
+    return undefined;
+  }
+}
+
+function parseTemplate(spec: string, issues: string[]): TopicTemplate {
+  const levels: TopicTemplate['levels'] = [];
+  const seen = new Set<TopicField>();
+
+  const suffix = QOS_SUFFIX.exec(spec);
+  const template = suffix ? spec.slice(0, suffix.index) : spec;
+  const qos = suffix ? Number(suffix[1]) : undefined;
+  if (qos !== undefined && qos > 2) {
+    issues.push(`${spec}: QoS must be 0, 1 or 2, got ${qos}`);
+  }
+
+  template.split('/').forEach((level, i, all) => {
+    const placeholder = PLACEHOLDER.exec(level);
+    if (placeholder) {
+      const field = placeholder[1] as TopicField;
+      if (!TOPIC_FIELDS.includes(field)) {
+        issues.push(`${template}: unknown placeholder {${placeholder[1]}}, expected one of ${TOPIC_FIELDS.map(name => `{${name}}`).join(', ')}`);
+      } else if (seen.has(field)) {
+        issues.push(`${template}: {${field}} appears more than once`);
+      }
+      seen.add(field);
+      levels.push({ field });
+      return;
+    }
+
+    if (level.includes('{') || level.includes('}')) {
+      issues.push(`${template}: a placeholder must be a whole level, got "${level}"`);
+    } else if (level === '#' && i !== all.length - 1) {
+      issues.push(`${template}: # is only allowed as the last level`);
+    } else if (level !== '#' && level !== '+' && /[#+]/.test(level)) {
+      issues.push(`${template}: wildcards must be a whole level, got "${level}"`);
+    }
+    levels.push(level);
+  });
+
+  return {
+    template,
+    filter: levels.map(level => (typeof level === 'string' ? level : '+')).join('/'),
+    qos: qos as TopicQos | undefined,
+    levels
+  };
+}
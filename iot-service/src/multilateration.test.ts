@@ -0,0 +1,96 @@
+import { AnchorRange, MultilaterationError, MultilaterationErrorCode, MultilaterationOptions, multilaterate } from './multilateration';
+import { Anchor, LanePoint } from './types';
+
+const OPTIONS: MultilaterationOptions = { tagHeight: 0, minAnchors: 3, maxGdop: 8 };
+
+function rangesTo(tag: LanePoint, anchors: Anchor[], tagHeight = 0, noise: number[] = []): AnchorRange[] {
+  return anchors.map((anchor, i) => ({
+    anchor,
+    range: Math.hypot(anchor.x - tag.x, anchor.y - tag.y, (anchor.z ?? 0) - tagHeight) + (noise[i] ?? 0)
+  }));
+}
+
+function anchorsAt(...points: Array<[number, number, number?]>): Anchor[] {
+  return points.map(([x, y, z], i) => ({ id: `A${i + 1}`, x, y, z }));
+}
+
+function errorCode(ranges: AnchorRange[], options: MultilaterationOptions = OPTIONS): MultilaterationErrorCode {
+  try {
+    multilaterate(ranges, options);
+  } catch (error) {
+    if (error instanceof MultilaterationError) return error.code;
+    throw error;
+  }
+  throw new Error('ranges solved without error');
+}
+
+describe('multilaterate', () => {
+  const square = anchorsAt([0, 0], [20, 0], [20, 20], [0, 20]);
+
+  it('recovers the position from exact ranges', () => {
+    const result = multilaterate(rangesTo({ x: 7, y: 13 }, square), OPTIONS);
+
+    expect(result.x).toBeCloseTo(7, 6);
+    expect(result.y).toBeCloseTo(13, 6);
+    expect(result.anchors).toBe(4);
+    expect(result.residual).toBeCloseTo(0, 6);
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('flattens slant ranges to anchors mounted above the tag', () => {
+    const mounted = anchorsAt([0, 0, 4], [20, 0, 4], [20, 20, 4], [0, 20, 4]);
+    const result = multilaterate(rangesTo({ x: 15, y: 4 }, mounted, 1.2), { ...OPTIONS, tagHeight: 1.2 });
+
+    expect(result.x).toBeCloseTo(15, 6);
+    expect(result.y).toBeCloseTo(4, 6);
+  });
+
+  it('stays close under ranging noise and lowers confidence for it', () => {
+    const exact = multilaterate(rangesTo({ x: 10, y: 10 }, square), OPTIONS);
+    const noisy = multilaterate(rangesTo({ x: 10, y: 10 }, square, 0, [0.3, -0.2, 0.25, -0.3]), OPTIONS);
+
+    expect(Math.hypot(noisy.x - 10, noisy.y - 10)).toBeLessThan(0.5);
+    expect(noisy.residual).toBeGreaterThan(0.1);
+    expect(noisy.confidence).toBeLessThan(exact.confidence);
+  });
+
+  describe('degenerate anchor layouts', () => {
+    it('rejects fewer ranges than minAnchors', () => {
+      expect(errorCode(rangesTo({ x: 5, y: 5 }, square.slice(0, 2)))).toBe('tooFewAnchors');
+      expect(errorCode(rangesTo({ x: 5, y: 5 }, square.slice(0, 3)), { ...OPTIONS, minAnchors: 4 })).toBe('tooFewAnchors');
+    });
+
+    it('rejects anchors in a line', () => {
+      const line = anchorsAt([0, 0], [10, 0], [20, 0], [30, 0]);
+      expect(errorCode(rangesTo({ x: 12, y: 6 }, line))).toBe('poorGeometry');
+    });
+
+    it('rejects anchors at one point', () => {
+      const stacked = anchorsAt([5, 5], [5, 5], [5, 5]);
+      expect(errorCode(rangesTo({ x: 9, y: 8 }, stacked))).toBe('poorGeometry');
+    });
+
+    it('rejects a tag too nearly in line with the anchors for maxGdop', () => {
+      const shallow = anchorsAt([0, 0], [10, 0.05], [20, 0]);
+      const beyondEnd = { x: 30, y: 1 };
+
+      expect(multilaterate(rangesTo({ x: 10, y: 15 }, shallow), OPTIONS).y).toBeCloseTo(15, 6);
+      expect(errorCode(rangesTo(beyondEnd, shallow))).toBe('poorGeometry');
+      expect(multilaterate(rangesTo(beyondEnd, shallow), { ...OPTIONS, maxGdop: 1000 }).gdop).toBeGreaterThan(8);
+    });
+
+    it('solves from a tag between anchors on two sides but flags the worse geometry', () => {
+      const spread = multilaterate(rangesTo({ x: 10, y: 10 }, square), OPTIONS);
+      const corner = multilaterate(rangesTo({ x: 10, y: 10 }, anchorsAt([0, 0], [20, 0], [0, 20])), OPTIONS);
+
+      expect(corner.x).toBeCloseTo(10, 6);
+      expect(corner.gdop).toBeGreaterThan(spread.gdop);
+    });
+
+    it('reports no solution for ranges that cannot be solved', () => {
+      const ranges = rangesTo({ x: 5, y: 5 }, square);
+      ranges[1]!.range = NaN;
+      expect(errorCode(ranges)).toBe('noSolution');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Anchor } from './types';
+
+const MAX_ITERATIONS = 20;
+const CONVERGED_M = 1e-4;          // stop once a step moves the estimate less than this
+const SINGULAR = 1e-6;             // anchor directions this close to parallel fix no position
+const RANGE_NOISE_M = 0.1;         // two-way ranging noise; the floor for estimated error
+const ERROR_SCALE_M = 0.5;         // estimated error at which confidence falls to one half
+
+export interface AnchorRange {
+  anchor: Anchor;
+  range: number;                   // meters, tag to anchor
+}
+
+export interface MultilaterationOptions {
+  tagHeight: number;               // meters; ranges to higher anchors are slanted
+  minAnchors: number;
+  maxGdop: number;
+}
+
+export interface MultilaterationResult {
+  x: number;
+  y: number;
+  anchors: number;                 // ranges the solution was built from
+  residual: number;                // meters, RMS of range residuals
+  gdop: number;                    // how anchor geometry scales ranging error into position error
+  confidence: number;              // 0..1, from residual and gdop
+}
+
+export type MultilaterationErrorCode = 'tooFewAnchors' | 'poorGeometry' | 'noSolution';
+
+/**
+ * Raised when ranges do not pin down a position
+ */
+export class MultilaterationError extends Error {
+  public readonly code: MultilaterationErrorCode;
+
+  constructor(code: MultilaterationErrorCode, message: string) {
+    super(message);
+    this.name = 'MultilaterationError';
+    this.code = code;
+  }
+}
+
+interface Circle {
+  x: number;
+  y: number;
+  r: number;                       // range in the tag's plane
+}
+
+interface Normal {
+  a: number;                       // JᵀJ = [[a, b], [b, c]]
+  b: number;
+  c: number;
+  gx: number;                      // Jᵀr
+  gy: number;
+  sumSquares: number;              // Σr²
+}
+
+/**
+ * Least-squares position from ranges to three or more anchors, in the
+ * plane tags move in. Starts from the linearised solution and refines it
+ * by Gauss-Newton on the range residuals; the geometry at the solution
+ * gives the GDOP, and with the residual the estimated error that
+ * confidence is derived from.
+ */
+export function multilaterate(ranges: AnchorRange[], options: MultilaterationOptions): MultilaterationResult {
+  if (ranges.length < options.minAnchors) {
+    throw new MultilaterationError('tooFewAnchors', `${ranges.length} anchor ranges, at least ${options.minAnchors} needed`);
+  }
+
+  // Slant ranges to the horizontal distance at tag height
+  const circles: Circle[] = ranges.map(({ anchor, range }) => {
+    const dz = (anchor.z ?? 0) - options.tagHeight;
+    return { x: anchor.x, y: anchor.y, r: Math.sqrt(Math.max(range * range - dz * dz, 0)) };
+  });
+
+  let { x, y } = initialEstimate(circles);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const normal = normalEquations(circles, x, y);
+    const det = normal.a * normal.c - normal.b * normal.b;
+    if (det < SINGULAR) break;
+    const dx = -(normal.c * normal.gx - normal.b * normal.gy) / det;
+    const dy = -(normal.a * normal.gy - normal.b * normal.gx) / det;
+    x += dx;
+    y += dy;
+    if (Math.sqrt(dx * dx + dy * dy) < CONVERGED_M) break;
+  }
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new MultilaterationError('noSolution', 'ranges did not converge on a position');
+  }
+
+  const normal = normalEquations(circles, x, y);
+  const det = normal.a * normal.c - normal.b * normal.b;
+  const gdop = det < SINGULAR ? Infinity : Math.sqrt((normal.a + normal.c) / det);
+  if (gdop > options.maxGdop) {
+    throw new MultilaterationError('poorGeometry', `anchor geometry too poor (GDOP ${Number.isFinite(gdop) ? gdop.toFixed(1) : '∞'}, at most ${options.maxGdop})`);
+  }
+
+  const residual = Math.sqrt(normal.sumSquares / circles.length);
+  const estimatedError = gdop * Math.max(residual, RANGE_NOISE_M);
+  return {
+    x,
+    y,
+    anchors: circles.length,
+    residual,
+    gdop,
+    confidence: 1 / (1 + (estimatedError / ERROR_SCALE_M) ** 2)
+  };
+}
+
+/**
+ * Subtracting the first range equation from the others leaves linear
+ * equations in x and y; their least-squares solution is close enough to
+ * start from. Collinear anchors leave it undetermined - the centroid then.
+ */
+function initialEstimate(circles: Circle[]): { x: number; y: number } {
+  const first = circles[0]!;
+  let a = 0, b = 0, c = 0, ex = 0, ey = 0;
+  for (const circle of circles.slice(1)) {
+    const ax = 2 * (circle.x - first.x);
+    const ay = 2 * (circle.y - first.y);
+    const rhs = first.r * first.r - circle.r * circle.r +
+      circle.x * circle.x + circle.y * circle.y - first.x * first.x - first.y * first.y;
+    a += ax * ax;
+    b += ax * ay;
+    c += ay * ay;
+    ex += ax * rhs;
+    ey += ay * rhs;
+  }
+
+  const det = a * c - b * b;
+  if (Math.abs(det) > SINGULAR * Math.max(a * c, 1)) {
+    return { x: (c * ex - b * ey) / det, y: (a * ey - b * ex) / det };
+  }
+  return {
+    x: circles.reduce((sum, circle) => sum + circle.x, 0) / circles.length,
+    y: circles.reduce((sum, circle) => sum + circle.y, 0) / circles.length
+  };
+}
+
+// Jacobian rows are unit vectors from each anchor, so JᵀJ depends on geometry alone
+function normalEquations(circles: Circle[], x: number, y: number): Normal {
+  const normal: Normal = { a: 0, b: 0, c: 0, gx: 0, gy: 0, sumSquares: 0 };
+  for (const circle of circles) {
+    const dx = x - circle.x;
+    const dy = y - circle.y;
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1e-9);
+    const ux = dx / distance;
+    const uy = dy / distance;
+    const residual = distance - circle.r;
+    normal.a += ux * ux;
+    normal.b += ux * uy;
+    normal.c += uy * uy;
+    normal.gx += ux * residual;
+    normal.gy += uy * residual;
+    normal.sumSquares += residual * residual;
+  }
+  return normal;
+}
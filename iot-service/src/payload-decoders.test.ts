@@ -0,0 +1,259 @@
+import {
+  AutoDecoder, BinaryFrameDecoder, CsvDecoder, DecodeErrorCode, JsonDecoder,
+  PayloadDecodeError, PayloadDecoder, PozyxDecoder, RangeDecoder, headingAs
+} from './payload-decoders';
+import { AnchorRegistry } from './anchor-registry';
+
+function decodeError(decoder: PayloadDecoder, payload: Buffer | string): PayloadDecodeError {
+  try {
+    decoder.decode(typeof payload === 'string' ? Buffer.from(payload) : payload);
+  } catch (error) {
+    if (error instanceof PayloadDecodeError) return error;
+    throw error;
+  }
+  throw new Error('payload decoded without error');
+}
+
+function expectCode(decoder: PayloadDecoder, payload: Buffer | string, code: DecodeErrorCode, field?: string): void {
+  const error = decodeError(decoder, payload);
+  expect(error.code).toBe(code);
+  if (field !== undefined) expect(error.field).toBe(field);
+}
+
+function frame(fields: Partial<{ version: number; type: number; x: number; y: number; confidence: number; t: number }> = {}): Buffer {
+  const buffer = Buffer.alloc(BinaryFrameDecoder.FRAME_BYTES);
+  buffer.writeUInt8(fields.version ?? 1, 0);
+  buffer.writeUInt8(fields.type ?? 0, 1);
+  buffer.writeFloatLE(fields.x ?? 12.5, 2);
+  buffer.writeFloatLE(fields.y ?? 3.25, 6);
+  buffer.writeUInt16LE(1500, 10);
+  buffer.writeUInt16LE(15708, 12);
+  buffer.writeUInt8(fields.confidence ?? 180, 14);
+  buffer.writeDoubleLE(fields.t ?? 1700000000000, 16);
+  return buffer;
+}
+
+describe('JsonDecoder', () => {
+  const decoder = new JsonDecoder();
+
+  it('decodes one position or an array of them', () => {
+    expect(decoder.decode(Buffer.from('{"deviceId":"forklift-7","type":"forklift","x":12.5,"y":"3.2","ts":1700000000000}')))
+      .toEqual([{ id: 'forklift-7', type: 'forklift', x: 12.5, y: 3.2, t: 1700000000000 }]);
+    expect(decoder.decode(Buffer.from('[{"x":1,"y":2},{"x":3,"y":4,"speed":0.5}]')))
+      .toEqual([{ x: 1, y: 2 }, { x: 3, y: 4, speed: 0.5 }]);
+  });
+
+  it('reads renamed keys', () => {
+    const renamed = new JsonDecoder({ x: 'posX', y: 'posY', id: 'tag' });
+    expect(renamed.decode(Buffer.from('{"tag":7,"posX":1,"posY":2}'))).toEqual([{ id: '7', x: 1, y: 2 }]);
+  });
+
+  it.each([
+    ['{"x":1,', 'malformed', undefined],
+    ['[1, 2]', 'malformed', undefined],
+    ['{"y":2}', 'missingField', 'x'],
+    ['{"x":"east","y":2}', 'invalidField', 'x'],
+    ['{"x":1,"y":2,"speed":true}', 'invalidField', 'speed'],
+    ['{"x":1,"y":2,"deviceId":{"id":7}}', 'invalidField', 'deviceId']
+  ] as const)('rejects %s as %s', (payload, code, field) => {
+    expectCode(decoder, payload, code, field);
+  });
+
+  it('rejects the whole payload for one bad record', () => {
+    expectCode(decoder, '[{"x":1,"y":2},{"x":1}]', 'missingField', 'y');
+  });
+});
+
+describe('CsvDecoder', () => {
+  it('reads the default columns, leaving trailing ones off', () => {
+    expect(new CsvDecoder().decode(Buffer.from('12.5,3.2,1.1\n4,5'))).toEqual([
+      { x: 12.5, y: 3.2, speed: 1.1 },
+      { x: 4, y: 5 }
+    ]);
+  });
+
+  it('skips columns with an empty name', () => {
+    const decoder = new CsvDecoder(['t', 'x', 'y', '', 'id']);
+    expect(decoder.decode(Buffer.from('1700000000000,1,2,ignored,forklift-1')))
+      .toEqual([{ t: 1700000000000, x: 1, y: 2, id: 'forklift-1' }]);
+  });
+
+  it.each([
+    [' \n ', 'malformed', undefined],
+    ['12.5', 'missingField', 'y'],
+    ['12.5,north', 'invalidField', 'y'],
+    ['1,2,fast', 'invalidField', 'speed']
+  ] as const)('rejects %j as %s', (payload, code, field) => {
+    expectCode(new CsvDecoder(), payload, code, field);
+  });
+});
+
+describe('BinaryFrameDecoder', () => {
+  const decoder = new BinaryFrameDecoder();
+
+  it('decodes a version 1 frame', () => {
+    const [position] = decoder.decode(frame());
+    expect(position).toMatchObject({ type: 'forklift', x: 12.5, y: 3.25, speed: 1.5, confidence: 0.9, t: 1700000000000 });
+  });
+
+  it('reports a forklift heading in degrees', () => {
+    const [position] = decoder.decode(frame({ type: 0 }));
+    expect(position!.heading).toBeCloseTo(90, 2);
+    expect(position).not.toHaveProperty('headingRadians');
+  });
+
+  it('reports a worker heading in radians', () => {
+    const [position] = decoder.decode(frame({ type: 2 }));
+    expect(position!.heading).toBeCloseTo(Math.PI / 2, 4);
+  });
+
+  it('leaves the heading of a frame with no type in radians for the caller', () => {
+    const [position] = decoder.decode(frame({ type: 255 }));
+    expect(position).not.toHaveProperty('heading');
+    expect(position!.headingRadians).toBeCloseTo(Math.PI / 2, 4);
+  });
+
+  it('leaves out an unspecified type, confidence and timestamp', () => {
+    const [position] = decoder.decode(frame({ type: 255, confidence: 255, t: 0 }));
+    expect(position).not.toHaveProperty('type');
+    expect(position).not.toHaveProperty('confidence');
+    expect(position).not.toHaveProperty('t');
+  });
+
+  it('rejects a frame of the wrong size', () => {
+    expectCode(decoder, frame().subarray(0, 20), 'badLength');
+  });
+
+  it('rejects other frame versions', () => {
+    expectCode(decoder, frame({ version: 2 }), 'unsupportedVersion', 'version');
+  });
+
+  it('rejects unknown type codes', () => {
+    expectCode(decoder, frame({ type: 7 }), 'invalidField', 'type');
+  });
+
+  it('rejects non-finite coordinates', () => {
+    expectCode(decoder, frame({ x: NaN }), 'invalidField', 'x');
+  });
+});
+
+describe('PozyxDecoder', () => {
+  const decoder = new PozyxDecoder();
+
+  it('converts millimetres and seconds', () => {
+    const payload = '[{"tagId":"26542","success":true,"timestamp":1700000000.25,"data":{"coordinates":{"x":12500,"y":3200,"z":1000}}}]';
+    expect(decoder.decode(Buffer.from(payload))).toEqual([{ id: '26542', x: 12.5, y: 3.2, t: 1700000000250 }]);
+  });
+
+  it.each([
+    ['not json', 'malformed', undefined],
+    ['["fix"]', 'malformed', undefined],
+    ['[{"tagId":"26542","success":false,"errorCode":"NOT_ENOUGH_ANCHORS"}]', 'tagError', undefined],
+    ['[{"tagId":"26542","success":true,"data":{}}]', 'missingField', 'data.coordinates'],
+    ['[{"tagId":"26542","success":true}]', 'missingField', 'data.coordinates'],
+    ['[{"tagId":"26542","data":{"coordinates":{"x":"far","y":0}}}]', 'invalidField', 'data.coordinates.x'],
+    ['[{"tagId":"26542","data":{"coordinates":{"x":0}}}]', 'missingField', 'data.coordinates.y']
+  ] as const)('rejects %s as %s', (payload, code, field) => {
+    expectCode(decoder, payload, code, field);
+  });
+
+  it('names the failed tag', () => {
+    const error = decodeError(decoder, '{"tagId":"26542","success":false,"errorCode":"NOT_ENOUGH_ANCHORS"}');
+    expect(error.message).toBe('tag 26542: NOT_ENOUGH_ANCHORS');
+  });
+});
+
+describe('RangeDecoder', () => {
+  const anchors = new AnchorRegistry({
+    units: 'meters',
+    anchors: [
+      { id: 'A1', x: 0, y: 0 },
+      { id: 'A2', x: 20, y: 0 },
+      { id: 'A3', x: 20, y: 20 },
+      { id: 'A4', x: 0, y: 20 },
+      { id: 'L1', x: 0, y: 40 },
+      { id: 'L2', x: 10, y: 40 },
+      { id: 'L3', x: 20, y: 40 }
+    ]
+  });
+  const decoder = new RangeDecoder(anchors);
+  const rangesFrom = (ids: string[], x: number, y: number) => Object.fromEntries(ids.map(id => {
+    const anchor = anchors.get(id)!;
+    return [id, Math.hypot(anchor.x - x, anchor.y - y)];
+  }));
+
+  it('solves a report into a position with a confidence', () => {
+    const report = { deviceId: 'worker-3', type: 'worker', ts: 1700000000000, ranges: rangesFrom(['A1', 'A2', 'A3', 'A4'], 6, 14) };
+    const [position] = decoder.decode(Buffer.from(JSON.stringify(report)));
+
+    expect(position).toMatchObject({ id: 'worker-3', type: 'worker', t: 1700000000000 });
+    expect(position!.x).toBeCloseTo(6, 6);
+    expect(position!.y).toBeCloseTo(14, 6);
+    expect(position!.confidence).toBeGreaterThan(0.9);
+  });
+
+  it.each([
+    ['{"ranges":', 'malformed', undefined],
+    ['[7]', 'malformed', undefined],
+    ['{"deviceId":"worker-3"}', 'missingField', 'ranges'],
+    ['{"ranges":[1,2,3]}', 'missingField', 'ranges'],
+    ['{"ranges":{"A1":"near","A2":1,"A3":1}}', 'invalidField', 'ranges.A1'],
+    ['{"ranges":{"A1":5,"A2":-1,"A3":1}}', 'invalidField', 'ranges.A2'],
+    ['{"ranges":{"A1":5,"A2":5,"A3":5},"ts":"later"}', 'invalidField', 'ts']
+  ] as const)('rejects %s as %s', (payload, code, field) => {
+    expectCode(decoder, payload, code, field);
+  });
+
+  it('rejects ranges to too few known anchors, naming the unknown ones', () => {
+    const error = decodeError(decoder, JSON.stringify({ ranges: { A1: 5, A2: 5, B9: 5 } }));
+    expect(error.code).toBe('tooFewAnchors');
+    expect(error.field).toBe('ranges');
+    expect(error.message).toContain('unknown anchors B9');
+  });
+
+  it('rejects ranges to anchors in a line', () => {
+    expectCode(decoder, JSON.stringify({ ranges: rangesFrom(['L1', 'L2', 'L3'], 5, 30) }), 'poorGeometry', 'ranges');
+  });
+
+  it('rejects a range too large to be a number', () => {
+    expectCode(decoder, '{"ranges":{"A1":5,"A2":5,"A3":1e400}}', 'invalidField', 'ranges.A3');
+  });
+});
+
+describe('AutoDecoder', () => {
+  const decoder = new AutoDecoder();
+
+  it('reads our JSON schema or the legacy CSV', () => {
+    expect(decoder.decode(Buffer.from(' {"x":1,"y":2}'))).toEqual([{ x: 1, y: 2 }]);
+    expect(decoder.decode(Buffer.from('1,2,0.5,90'))).toEqual([{ x: 1, y: 2, speed: 0.5, heading: 90 }]);
+  });
+
+  it('reports errors from the decoder it picked', () => {
+    expectCode(decoder, '{"x":1', 'malformed');
+    expectCode(decoder, 'hello', 'invalidField', 'x');
+  });
+});
+
+describe('headingAs', () => {
+  it('keeps the heading when the type is the payload\'s own or the payload gives none', () => {
+    expect(headingAs({ x: 0, y: 0, type: 'forklift', heading: 90 }, 'forklift')).toBe(90);
+    expect(headingAs({ x: 0, y: 0, heading: 1.5 }, 'worker')).toBe(1.5);
+    expect(headingAs({ x: 0, y: 0 }, 'worker')).toBeUndefined();
+  });
+
+  it('converts the heading when the topic names another type than the payload', () => {
+    const [forklift] = new BinaryFrameDecoder().decode(frame({ type: 0 }));
+    const [worker] = new BinaryFrameDecoder().decode(frame({ type: 2 }));
+
+    expect(headingAs(forklift!, 'worker')).toBeCloseTo(Math.PI / 2, 4);
+    expect(headingAs(worker!, 'forklift')).toBeCloseTo(90, 2);
+    expect(headingAs(forklift!, 'pallet')).toBeCloseTo(Math.PI / 2, 4);
+  });
+
+  it('puts a heading left in radians in the type\'s convention', () => {
+    const [position] = new BinaryFrameDecoder().decode(frame({ type: 255 }));
+
+    expect(headingAs(position!, 'forklift')).toBeCloseTo(90, 2);
+    expect(headingAs(position!, 'worker')).toBeCloseTo(Math.PI / 2, 4);
+  });
+});
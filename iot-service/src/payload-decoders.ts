@@ -0,0 +1,380 @@
+import { AnchorRegistry } from './anchor-registry';
+import { MultilaterationError } from './multilateration';
+
+/**
+ * Decoders turning an MQTT payload into positions. A decoder only reads
+ * what the payload says; the tag's id and type may come from the topic
+ * instead (see mqtt-topics.ts), and defaults are filled in by the caller.
+ */
+
+export type DecodeErrorCode =
+  | 'malformed'                    // not the format at all
+  | 'missingField'
+  | 'invalidField'
+  | 'badLength'                    // binary frame of the wrong size
+  | 'unsupportedVersion'
+  | 'tagError'                     // the positioning system reported a failed fix
+  | 'tooFewAnchors'                // ranges to too few known anchors to solve from
+  | 'poorGeometry'                 // anchors too nearly in line to fix a position
+  | 'noSolution';
+
+/**
+ * Raised when a payload cannot be decoded, saying where and why
+ */
+export class PayloadDecodeError extends Error {
+  public readonly code: DecodeErrorCode;
+  public readonly field?: string;
+
+  constructor(code: DecodeErrorCode, message: string, field?: string) {
+    super(message);
+    this.name = 'PayloadDecodeError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+/**
+ * A position as a payload gives it; fields it does not carry are left out
+ */
+export interface DecodedPosition {
+  id?: string;
+  type?: string;                   // as written in the payload, not yet checked
+  x: number;                       // meters
+  y: number;
+  speed?: number;                  // m/s
+  heading?: number;                // as ticks report it: degrees for forklifts, radians otherwise
+  headingRadians?: number;         // a heading still to be put in its type's convention, once the topic names the type
+  confidence?: number;             // 0..1
+  t?: number;                      // epoch milliseconds
+}
+
+/**
+ * Decodes a whole payload or throws a PayloadDecodeError - a payload with
+ * one bad record in it is rejected whole
+ */
+export interface PayloadDecoder {
+  decode(payload: Buffer): DecodedPosition[];
+}
+
+export type PositionField = Exclude<keyof DecodedPosition, 'headingRadians'>;
+
+export const POSITION_FIELDS: PositionField[] = ['id', 'type', 'x', 'y', 'speed', 'heading', 'confidence', 't'];
+
+/**
+ * Our JSON schema - one position object, or an array of them:
+ *   { "deviceId": "forklift-7", "type": "forklift", "x": 12.5, "y": 3.2,
+ *     "speed": 1.1, "heading": 90, "confidence": 0.9, "ts": 1700000000000 }
+ * Keys can be renamed per field for tags that publish a near variant.
+ */
+export class JsonDecoder implements PayloadDecoder {
+  public static readonly DEFAULT_KEYS: Record<PositionField, string> = {
+    id: 'deviceId',
+    type: 'type',
+    x: 'x',
+    y: 'y',
+    speed: 'speed',
+    heading: 'heading',
+    confidence: 'confidence',
+    t: 'ts'
+  };
+
+  private keys: Record<PositionField, string>;
+
+  constructor(keys: Partial<Record<PositionField, string>> = {}) {
+    this.keys = { ...JsonDecoder.DEFAULT_KEYS, ...keys };
+  }
+
+  public decode(payload: Buffer): DecodedPosition[] {
+    const data = parseJson(payload);
+    const records = Array.isArray(data) ? data : [data];
+    return records.map(record => this.decodeRecord(record));
+  }
+
+  private decodeRecord(record: unknown): DecodedPosition {
+    if (typeof record !== 'object' || record === null) {
+      throw new PayloadDecodeError('malformed', 'expected a JSON object per position');
+    }
+    const source = record as Record<string, unknown>;
+
+    const position: DecodedPosition = {
+      x: requireNumber(numberField(source[this.keys.x], this.keys.x), this.keys.x),
+      y: requireNumber(numberField(source[this.keys.y], this.keys.y), this.keys.y)
+    };
+    for (const field of ['speed', 'heading', 'confidence', 't'] as const) {
+      const value = numberField(source[this.keys[field]], this.keys[field]);
+      if (value !== undefined) position[field] = value;
+    }
+    for (const field of ['id', 'type'] as const) {
+      const value = source[this.keys[field]];
+      if (value === undefined || value === null || value === '') continue;
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new PayloadDecodeError('invalidField', `${this.keys[field]}: expected a string`, this.keys[field]);
+      }
+      position[field] = String(value);
+    }
+    return position;
+  }
+}
+
+/**
+ * One position per line of comma-separated values, columns in the
+ * configured order ("x,y,speed,heading" by default). An empty column name
+ * skips that column; trailing columns may be left off.
+ */
+export class CsvDecoder implements PayloadDecoder {
+  public static readonly DEFAULT_COLUMNS: string[] = ['x', 'y', 'speed', 'heading'];
+
+  private columns: string[];
+
+  constructor(columns: string[] = CsvDecoder.DEFAULT_COLUMNS) {
+    this.columns = columns;
+  }
+
+  public decode(payload: Buffer): DecodedPosition[] {
+    const lines = payload.toString('utf8').split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+    if (lines.length === 0) {
+      throw new PayloadDecodeError('malformed', 'empty payload');
+    }
+    return lines.map(line => this.decodeLine(line));
+  }
+
+  private decodeLine(line: string): DecodedPosition {
+    const values = line.split(',').map(value => value.trim());
+    const fields: Partial<Record<PositionField, string>> = {};
+    this.columns.forEach((column, i) => {
+      const value = values[i];
+      if (column !== '' && value !== undefined && value !== '') fields[column as PositionField] = value;
+    });
+
+    const position: DecodedPosition = {
+      x: requireNumber(numberField(fields.x, 'x'), 'x'),
+      y: requireNumber(numberField(fields.y, 'y'), 'y')
+    };
+    for (const field of ['speed', 'heading', 'confidence', 't'] as const) {
+      const value = numberField(fields[field], field);
+      if (value !== undefined) position[field] = value;
+    }
+    if (fields.id !== undefined) position.id = fields.id;
+    if (fields.type !== undefined) position.type = fields.type;
+    return position;
+  }
+}
+
+/**
+ * Compact little-endian frame for tags on constrained links, 24 bytes:
+ *
+ *   0  u8   version (1)
+ *   1  u8   tag type: 0 forklift, 1 pallet, 2 worker, 255 unspecified
+ *   2  f32  x, meters
+ *   6  f32  y, meters
+ *  10  u16  speed, mm/s
+ *  12  u16  heading, 1/10000 rad
+ *  14  u8   confidence, 0..200 for 0..1 (255 unspecified)
+ *  15  u8   reserved
+ *  16  f64  timestamp, epoch ms (0 for time of receipt)
+ *
+ * The frame carries no id; it comes from the topic. The heading is reported
+ * in its type's convention; a frame with no type leaves that to the caller.
+ */
+export class BinaryFrameDecoder implements PayloadDecoder {
+  public static readonly FRAME_BYTES = 24;
+  private static readonly TYPES = ['forklift', 'pallet', 'worker'];
+
+  public decode(payload: Buffer): DecodedPosition[] {
+    if (payload.length !== BinaryFrameDecoder.FRAME_BYTES) {
+      throw new PayloadDecodeError('badLength', `expected a ${BinaryFrameDecoder.FRAME_BYTES}-byte frame, got ${payload.length} bytes`);
+    }
+    const version = payload.readUInt8(0);
+    if (version !== 1) {
+      throw new PayloadDecodeError('unsupportedVersion', `frame version ${version} is not supported`, 'version');
+    }
+
+    const typeCode = payload.readUInt8(1);
+    if (typeCode !== 255 && BinaryFrameDecoder.TYPES[typeCode] === undefined) {
+      throw new PayloadDecodeError('invalidField', `unknown tag type code ${typeCode}`, 'type');
+    }
+    const position: DecodedPosition = {
+      x: requireNumber(payload.readFloatLE(2), 'x'),
+      y: requireNumber(payload.readFloatLE(6), 'y'),
+      speed: payload.readUInt16LE(10) / 1000
+    };
+    const heading = payload.readUInt16LE(12) / 10000;
+    const type = BinaryFrameDecoder.TYPES[typeCode];
+    if (type !== undefined) {
+      position.type = type;
+      position.heading = reportedHeading(heading, type);
+    } else {
+      position.headingRadians = heading;
+    }
+
+    const confidence = payload.readUInt8(14);
+    if (confidence !== 255) position.confidence = Math.min(confidence, 200) / 200;
+    const t = payload.readDoubleLE(16);
+    if (t !== 0) position.t = requireNumber(t, 't');
+
+    return [position];
+  }
+}
+
+/**
+ * Pozyx positioning JSON, as its MQTT API publishes it - an array of tag
+ * fixes with the tag id, a timestamp in seconds and coordinates in
+ * millimetres. Fixes the system reports as failed are decode errors.
+ */
+export class PozyxDecoder implements PayloadDecoder {
+  public decode(payload: Buffer): DecodedPosition[] {
+    const data = parseJson(payload);
+    const fixes = Array.isArray(data) ? data : [data];
+    return fixes.map(fix => this.decodeFix(fix));
+  }
+
+  private decodeFix(record: unknown): DecodedPosition {
+    if (typeof record !== 'object' || record === null) {
+      throw new PayloadDecodeError('malformed', 'expected a JSON object per tag');
+    }
+    const fix = record as Record<string, unknown>;
+    if (fix.success === false) {
+      throw new PayloadDecodeError('tagError', `tag ${fix.tagId ?? '?'}: ${fix.errorCode ?? 'positioning failed'}`);
+    }
+
+    const data = typeof fix.data === 'object' && fix.data !== null ? fix.data as Record<string, unknown> : undefined;
+    if (typeof data?.coordinates !== 'object' || data.coordinates === null) {
+      throw new PayloadDecodeError('missingField', 'data.coordinates is missing', 'data.coordinates');
+    }
+    const coordinates = data.coordinates as Record<string, unknown>;
+    const position: DecodedPosition = {
+      x: requireNumber(numberField(coordinates.x, 'data.coordinates.x'), 'data.coordinates.x') / 1000,
+      y: requireNumber(numberField(coordinates.y, 'data.coordinates.y'), 'data.coordinates.y') / 1000
+    };
+    if (fix.tagId !== undefined) position.id = String(fix.tagId);
+    const timestamp = numberField(fix.timestamp, 'timestamp');
+    if (timestamp !== undefined) position.t = Math.round(timestamp * 1000);
+    return position;
+  }
+}
+
+/**
+ * Raw two-way ranges from a tag to fixed anchors, solved into a position
+ * by multilateration - one report or an array of them:
+ *   { "deviceId": "worker-3", "ts": 1700000000000,
+ *     "ranges": { "A1": 7.42, "A2": 12.08, "A5": 9.87 } }
+ * Confidence comes from the solution's residual and the anchor geometry.
+ */
+export class RangeDecoder implements PayloadDecoder {
+  private anchors: AnchorRegistry;
+
+  constructor(anchors: AnchorRegistry) {
+    this.anchors = anchors;
+  }
+
+  public decode(payload: Buffer): DecodedPosition[] {
+    const data = parseJson(payload);
+    const reports = Array.isArray(data) ? data : [data];
+    return reports.map(report => this.decodeReport(report));
+  }
+
+  private decodeReport(record: unknown): DecodedPosition {
+    if (typeof record !== 'object' || record === null) {
+      throw new PayloadDecodeError('malformed', 'expected a JSON object per range report');
+    }
+    const report = record as Record<string, unknown>;
+    if (typeof report.ranges !== 'object' || report.ranges === null || Array.isArray(report.ranges)) {
+      throw new PayloadDecodeError('missingField', 'ranges: expected an object of anchor id to meters', 'ranges');
+    }
+
+    const ranges: Record<string, number> = {};
+    for (const [anchorId, raw] of Object.entries(report.ranges)) {
+      const range = requireNumber(numberField(raw, `ranges.${anchorId}`), `ranges.${anchorId}`);
+      if (range < 0) {
+        throw new PayloadDecodeError('invalidField', `ranges.${anchorId}: a range cannot be negative`, `ranges.${anchorId}`);
+      }
+      ranges[anchorId] = range;
+    }
+
+    let solution;
+    try {
+      solution = this.anchors.locate(ranges);
+    } catch (error) {
+      if (!(error instanceof MultilaterationError)) throw error;
+      throw new PayloadDecodeError(error.code, error.message, 'ranges');
+    }
+
+    const position: DecodedPosition = {
+      x: solution.x,
+      y: solution.y,
+      confidence: Math.round(solution.confidence * 1000) / 1000
+    };
+    if (report.deviceId !== undefined && report.deviceId !== null && report.deviceId !== '') {
+      position.id = String(report.deviceId);
+    }
+    if (typeof report.type === 'string' && report.type) position.type = report.type;
+    const t = numberField(report.ts, 'ts');
+    if (t !== undefined) position.t = t;
+    return position;
+  }
+}
+
+/**
+ * What the service always accepted: our JSON schema, or else the legacy
+ * "x,y,speed,heading" CSV
+ */
+export class AutoDecoder implements PayloadDecoder {
+  private json = new JsonDecoder();
+  private csv = new CsvDecoder();
+
+  public decode(payload: Buffer): DecodedPosition[] {
+    const text = payload.toString('utf8').trim();
+    return text.startsWith('{') || text.startsWith('[') ? this.json.decode(payload) : this.csv.decode(payload);
+  }
+}
+
+/**
+ * A heading in radians as ticks report it for the type - forklift headings
+ * are in degrees
+ */
+export function reportedHeading(radians: number, type: string): number {
+  return type === 'forklift' ? radians * (180 / Math.PI) : radians;
+}
+
+/**
+ * A decoded position's heading as ticks report it for `type`, which can
+ * differ from the type in the payload when the topic names another - the
+ * heading is then in the payload type's convention and is converted
+ */
+export function headingAs(position: DecodedPosition, type: string): number | undefined {
+  if (position.heading === undefined) {
+    return position.headingRadians !== undefined ? reportedHeading(position.headingRadians, type) : undefined;
+  }
+  if (position.type === undefined || position.type === type) return position.heading;
+
+  const radians = position.type === 'forklift' ? position.heading * (Math.PI / 180) : position.heading;
+  return reportedHeading(radians, type);
+}
+
+function parseJson(payload: Buffer): unknown {
+  try {
+    return JSON.parse(payload.toString('utf8'));
+  } catch (error) {
+    throw new PayloadDecodeError('malformed', `invalid JSON: ${(error as Error).message}`);
+  }
+}
+
+// A number or numeric string; undefined when absent
+function numberField(raw: unknown, field: string): number | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PayloadDecodeError('invalidField', `${field}: expected a number, got ${JSON.stringify(raw)}`, field);
+  }
+  return value;
+}
+
+function requireNumber(value: number | undefined, field: string): number {
+  if (value === undefined) {
+    throw new PayloadDecodeError('missingField', `${field} is missing`, field);
+  }
+  if (!Number.isFinite(value)) {
+    throw new PayloadDecodeError('invalidField', `${field}: expected a finite number`, field);
+  }
+  return value;
+}
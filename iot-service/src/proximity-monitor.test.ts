@@ -0,0 +1,159 @@
+import { ProximityMonitor } from './proximity-monitor';
+import { LaneNavigator } from './lane-navigator';
+import { IncidentTracker } from './incident-tracker';
+import { createSeededRandom } from './random';
+import { DTEvent, PositionTick } from './types';
+
+const LANES = new LaneNavigator({
+  units: 'meters',
+  lanes: [{ id: 'aisle', points: [{ x: -10, y: 0 }, { x: 10, y: 0 }] }]
+});
+const COLLISION_RADIUS = 1.5;
+
+function worker(id: string, x: number, y: number, speed: number, t: number): PositionTick {
+  return { id, type: 'worker', x, y, speed, heading: 0, zoneId: 'unknown', t };
+}
+
+function monitor(): ProximityMonitor {
+  let next = 0;
+  return new ProximityMonitor(
+    LANES,
+    { collisionRadius: COLLISION_RADIUS, congestionThreshold: 3 },
+    () => `event-${++next}`
+  );
+}
+
+const nearMisses = (events: DTEvent[]) => events
+  .filter(event => event.type === 'nearCollision' && event.state !== 'update')
+  .map(event => `${event.t} ${event.state} ${event.assetIds?.join('+')}`);
+
+/**
+ * The near miss rules checked over every pair of entities: a pair with a
+ * mover within the collision radius opens one, and an open one holds while
+ * the pair is within 1.3 radii
+ */
+class BruteForceNearMisses {
+  private latest: Map<string, PositionTick> = new Map();
+  private incidents = new IncidentTracker('nearCollision', { clearMs: 1000, cooldownMs: 5000 }, () => 'reference');
+
+  public check(ticks: PositionTick[]): DTEvent[] {
+    const now = Math.max(...ticks.map(tick => tick.t));
+    const inBatch = new Set(ticks.map(tick => tick.id));
+    for (const tick of ticks) this.latest.set(tick.id, tick);
+
+    const events: DTEvent[] = [];
+    const all = Array.from(this.latest.values()).sort((a, b) => a.id.localeCompare(b.id));
+    for (let i = 0; i < all.length; i++) {
+      for (let j = i + 1; j < all.length; j++) {
+        const a = all[i]!;
+        const b = all[j]!;
+        const key = `${a.id}+${b.id}`;
+        if (!inBatch.has(a.id) && !inBatch.has(b.id) && !this.incidents.isOpen(key)) continue;
+
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        if (distance > COLLISION_RADIUS * 1.3) continue;
+        const triggered = (a.speed > 0.1 || b.speed > 0.1) && distance <= COLLISION_RADIUS;
+        const event = this.incidents.observe(key, {
+          t: now, triggered, severity: 'low', assetIds: [a.id, b.id], zoneId: 'unknown', payload: {}
+        });
+        if (event) events.push(event);
+      }
+    }
+
+    return [...events, ...this.incidents.closeIdle(now)];
+  }
+}
+
+describe('ProximityMonitor', () => {
+  describe('near collisions', () => {
+    it('opens a near miss when a mover comes within the radius and closes it once they part', () => {
+      const proximity = monitor();
+      const events: DTEvent[] = [];
+
+      // A worker walks past another standing still, 1 m to one side: within
+      // the radius from 4 s, within 1.3 radii until 6.5 s
+      for (let t = 0; t <= 10000; t += 500) {
+        events.push(...proximity.check([worker('a', -5 + t / 1000, 1, 1, t), worker('b', 0, 0, 0, t)]));
+      }
+
+      expect(nearMisses(events)).toEqual(['4000 open a+b', '7500 close a+b']);
+      expect(events[0]).toMatchObject({ startedAt: 4000, zoneId: 'unknown', payload: { distance: 1.41 } });
+    });
+
+    it('ignores two entities standing still side by side', () => {
+      const proximity = monitor();
+
+      expect(proximity.check([worker('a', 0, 0, 0, 0), worker('b', 0.5, 0, 0, 0)])).toEqual([]);
+    });
+
+    it('finds pairs across cell borders and at negative coordinates', () => {
+      const proximity = monitor();
+      const events = proximity.check([
+        worker('a', -0.1, -0.1, 1, 0), worker('b', 0.1, 0.1, 0, 0),
+        worker('c', -20.3, -7.9, 1, 0), worker('d', -19.9, -8.1, 0, 0)
+      ]);
+
+      expect(nearMisses(events)).toEqual(['0 open a+b', '0 open c+d']);
+    });
+
+    it('agrees with checking every pair, whether entities report together or apart', () => {
+      const random = createSeededRandom(3);
+      const proximity = monitor();
+      const reference = new BruteForceNearMisses();
+
+      // Thirty entities wandering a 16 m square around the origin, every
+      // third one standing still
+      const entities = Array.from({ length: 30 }, (_, i) => ({
+        id: `e${String(i).padStart(2, '0')}`,
+        x: random() * 16 - 8,
+        y: random() * 16 - 8,
+        heading: random() * 2 * Math.PI,
+        speed: i % 3 === 0 ? 0 : 0.5 + random()
+      }));
+
+      const actual: string[] = [];
+      const expected: string[] = [];
+      for (let t = 200; t <= 120000; t += 200) {
+        const reporting: PositionTick[] = [];
+        for (const entity of entities) {
+          entity.heading += (random() - 0.5) * 0.5;
+          entity.x = Math.max(-8, Math.min(8, entity.x + Math.cos(entity.heading) * entity.speed * 0.2));
+          entity.y = Math.max(-8, Math.min(8, entity.y + Math.sin(entity.heading) * entity.speed * 0.2));
+          if (random() < 0.7) reporting.push(worker(entity.id, entity.x, entity.y, entity.speed, t));
+        }
+
+        // Alternate between one batch a step, as from the simulator, and
+        // a few readings at a time, as from MQTT
+        const batches = t % 2000 < 1000
+          ? [reporting]
+          : [reporting.slice(0, 5), reporting.slice(5, 12), reporting.slice(12)];
+        for (const batch of batches.filter(b => b.length > 0)) {
+          actual.push(...nearMisses(proximity.check(batch)));
+          expected.push(...nearMisses(reference.check(batch)));
+        }
+      }
+
+      expect(expected.length).toBeGreaterThan(20);
+      expect(actual.sort()).toEqual(expected.sort());
+    });
+  });
+
+  describe('congestion', () => {
+    it('opens when a lane holds the threshold and closes once it empties', () => {
+      const proximity = monitor();
+      const crowd = (t: number, y: number) => ['a', 'b', 'c'].map((id, i) => worker(id, i * 3, y, 0, t));
+
+      const opened = proximity.check(crowd(0, 0)).filter(event => event.type === 'congestion');
+      proximity.check(crowd(1000, 20));
+      const closed = proximity.check(crowd(4000, 20)).filter(event => event.type === 'congestion');
+
+      expect(opened).toEqual([expect.objectContaining({
+        state: 'open',
+        zoneId: 'aisle',
+        assetIds: ['a', 'b', 'c'],
+        payload: expect.objectContaining({ occupancy: 3, queued: 3, threshold: 3 })
+      })]);
+      expect(closed).toEqual([expect.objectContaining({ state: 'close', zoneId: 'aisle' })]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { PositionTick, DTEvent, EventSeverity } from './types';
+import { LaneNavigator } from './lane-navigator';
+import { SpatialIndex } from './spatial-index';
+import { IncidentTracker } from './incident-tracker';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const STALE_MS = 10000;            // forget entities not heard from for this long
+const MOVING_SPEED = 0.1;          // m/s - a near miss needs at least one mover
+const RELEASE_FACTOR = 1.3;        // a near miss stays open until the pair is this many radii apart
+const COLLISION_CLEAR_MS = 1000;   // pair apart this long closes the near miss
+const COLLISION_COOLDOWN_MS = 5000;
+const CONGESTION_CLEAR_MS = 3000;  // lane below the hold level this long closes the congestion
+const CONGESTION_COOLDOWN_MS = 10000;
+const PAIR_KEY_BASE = 2 ** 21;     // pair keys stay exact integers for this many entities
+
+export interface ProximityOptions {
+  collisionRadius: number;         // meters
+  congestionThreshold: number;     // entities per lane
+}
+
+/**
+ * Near-collision and lane congestion detection over the latest position of
+ * every entity. Positions live in a spatial index that is updated as ticks
+ * arrive, so a tick is only compared with its neighbours - a single MQTT
+ * reading and a whole simulator step cost the same per entity.
+ *
+ * Each near miss (per pair) and congestion (per lane) is one incident that
+ * opens, updates as its severity changes and closes once the condition has
+ * cleared, with hysteresis so it does not flap at the threshold.
+ */
+export class ProximityMonitor implements TickDetector {
+  private laneNavigator: LaneNavigator;
+  private options: ProximityOptions;
+  private collisions: IncidentTracker<number>;
+  private congestions: IncidentTracker;
+  private index: SpatialIndex<PositionTick>;
+  private entityNumbers: Map<string, number> = new Map();      // entity id -> its number, for pair keys
+  private nextNumber = 0;
+  private entityLanes: Map<string, string> = new Map();        // entity id -> lane id
+  private laneOccupants: Map<string, Set<string>> = new Map(); // lane id -> entity ids
+  private lastSweep = 0;
+
+  constructor(
+    laneNavigator: LaneNavigator,
+    options: ProximityOptions,
+    generateId: () => string = () => uuidv4()
+  ) {
+    this.laneNavigator = laneNavigator;
+    this.options = options;
+    this.collisions = new IncidentTracker<number>('nearCollision', {
+      clearMs: COLLISION_CLEAR_MS,
+      cooldownMs: COLLISION_COOLDOWN_MS
+    }, generateId);
+    this.congestions = new IncidentTracker('congestion', {
+      clearMs: CONGESTION_CLEAR_MS,
+      cooldownMs: CONGESTION_COOLDOWN_MS
+    }, generateId);
+    this.index = new SpatialIndex(Math.max(options.collisionRadius * RELEASE_FACTOR, 1));
+  }
+
+  public check(ticks: PositionTick[]): DTEvent[] {
+    if (ticks.length === 0) return [];
+
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+    const touchedLanes = new Set<string>();
+
+    for (const tick of ticks) {
+      this.index.update(tick.id, tick);
+      if (!this.entityNumbers.has(tick.id)) this.entityNumbers.set(tick.id, this.nextNumber++);
+      this.moveToLane(tick, touchedLanes);
+    }
+    if (now - this.lastSweep >= STALE_MS) {
+      this.dropStale(now, touchedLanes);
+      this.lastSweep = now;
+    }
+
+    return [
+      ...this.nearCollisions(ticks, now),
+      ...this.congestion(touchedLanes, now),
+      ...this.collisions.closeIdle(now),
+      ...this.congestions.closeIdle(now)
+    ];
+  }
+
+  public reset(): void {
+    this.collisions.reset();
+    this.congestions.reset();
+    this.index.clear();
+    this.entityNumbers.clear();
+    this.nextNumber = 0;
+    this.entityLanes.clear();
+    this.laneOccupants.clear();
+    this.lastSweep = 0;
+  }
+
+  /**
+   * Pairs near this batch's ticks, plus pairs with an open near miss. A
+   * near miss opens when a pair with at least one mover comes within the
+   * collision radius and holds until they are RELEASE_FACTOR radii apart.
+   */
+  private nearCollisions(ticks: PositionTick[], now: number): DTEvent[] {
+    const events: DTEvent[] = [];
+    const holdRadius = this.options.collisionRadius * RELEASE_FACTOR;
+    const inBatch = new Set(ticks.map(tick => tick.id));
+
+    const observePair = (a: PositionTick, b: PositionTick, distance: number) => {
+      // Numeric pair keys - a busy floor holds thousands of near misses
+      const aNumber = this.entityNumbers.get(a.id)!;
+      const bNumber = this.entityNumbers.get(b.id)!;
+      const key = Math.min(aNumber, bNumber) * PAIR_KEY_BASE + Math.max(aNumber, bNumber);
+      const moving = a.speed > MOVING_SPEED || b.speed > MOVING_SPEED;
+      const triggered = moving && distance <= this.options.collisionRadius;
+      if (!triggered && !this.collisions.isOpen(key)) return;
+
+      const first = a.id < b.id ? a : b;
+      const second = first === a ? b : a;
+      const event = this.collisions.observe(key, {
+        t: now,
+        triggered,
+        severity: this.collisionSeverity(distance),
+        assetIds: [first.id, second.id],
+        zoneId: first.zoneId || second.zoneId || 'unknown',
+        payload: {
+          distance: Math.round(distance * 100) / 100,
+          closingSpeed: Math.abs(first.speed - second.speed)
+        }
+      });
+      if (event) events.push(event);
+    };
+
+    // Pairs with both entities in the batch are handled from the lower id
+    for (const tick of ticks) {
+      this.index.forEachWithin(tick, holdRadius, (id, other, distance) => {
+        if (id === tick.id || (id < tick.id && inBatch.has(id))) return;
+        observePair(tick, other, distance);
+      });
+    }
+
+    // Open near misses whose entities did not report in this batch
+    // (observing an open incident never adds or removes one, so this is safe)
+    this.collisions.forEachOpen((_key, [firstId, secondId]) => {
+      if (!firstId || !secondId || inBatch.has(firstId) || inBatch.has(secondId)) return;
+      const first = this.index.get(firstId);
+      const second = this.index.get(secondId);
+      if (!first || !second) return;
+      const distance = Math.sqrt((first.x - second.x) ** 2 + (first.y - second.y) ** 2);
+      if (distance <= holdRadius) observePair(first, second, distance);
+    });
+
+    return events;
+  }
+
+  /**
+   * Lanes touched by this batch, plus lanes with open congestion. Congestion
+   * opens at the threshold and holds until occupancy drops below it by more
+   * than one entity.
+   */
+  private congestion(lanes: Set<string>, now: number): DTEvent[] {
+    const events: DTEvent[] = [];
+    const threshold = this.options.congestionThreshold;
+    const holdLevel = Math.max(1, threshold - 1);
+    const candidates = new Set([...lanes, ...this.congestions.openIncidents().map(incident => incident.key)]);
+
+    for (const laneId of candidates) {
+      const occupants = Array.from(this.laneOccupants.get(laneId) || []);
+      if (occupants.length < holdLevel) continue;
+
+      const queued = occupants.filter(id => (this.index.get(id)?.speed ?? 0) <= MOVING_SPEED);
+      const event = this.congestions.observe(laneId, {
+        t: now,
+        triggered: occupants.length >= threshold,
+        severity: this.congestionSeverity(occupants.length),
+        assetIds: occupants,
+        zoneId: laneId,
+        payload: {
+          occupancy: occupants.length,
+          queued: queued.length,
+          threshold
+        }
+      });
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  private collisionSeverity(distance: number): EventSeverity {
+    const ratio = distance / this.options.collisionRadius;
+    if (ratio <= 0.5) return 'high';
+    if (ratio <= 0.75) return 'medium';
+    return 'low';
+  }
+
+  private congestionSeverity(occupancy: number): EventSeverity {
+    const ratio = occupancy / this.options.congestionThreshold;
+    if (ratio >= 2) return 'high';
+    if (ratio >= 1.5) return 'medium';
+    return 'low';
+  }
+
+  private moveToLane(tick: PositionTick, touched: Set<string>): void {
+    const laneId = this.laneNavigator.lanesAt(tick)[0]?.laneId;
+    const previous = this.entityLanes.get(tick.id);
+    if (previous) touched.add(previous);
+    if (laneId) touched.add(laneId);
+    if (previous === laneId) return;
+
+    if (previous) this.laneOccupants.get(previous)?.delete(tick.id);
+    if (laneId) {
+      if (!this.laneOccupants.has(laneId)) this.laneOccupants.set(laneId, new Set());
+      this.laneOccupants.get(laneId)!.add(tick.id);
+      this.entityLanes.set(tick.id, laneId);
+    } else {
+      this.entityLanes.delete(tick.id);
+    }
+  }
+
+  private dropStale(now: number, touched: Set<string>): void {
+    const stale = Array.from(this.index.values()).filter(tick => now - tick.t > STALE_MS);
+
+    for (const tick of stale) {
+      this.index.remove(tick.id);
+      this.entityNumbers.delete(tick.id);
+      const laneId = this.entityLanes.get(tick.id);
+      if (laneId) {
+        this.laneOccupants.get(laneId)?.delete(tick.id);
+        touched.add(laneId);
+      }
+      this.entityLanes.delete(tick.id);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { createSeededIdGenerator, createSeededRandom } from './random';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const draw = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+describe('createSeededRandom', () => {
+  it('yields the mulberry32 sequence for a numeric seed', () => {
+    expect(draw(createSeededRandom(42), 3)).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099
+    ]);
+    expect(draw(createSeededRandom(0), 2)).toEqual([0.26642920868471265, 0.0003297457005828619]);
+  });
+
+  it('hashes a string seed to a fixed sequence of its own', () => {
+    expect(draw(createSeededRandom('warehouse'), 3)).toEqual([
+      0.9920565143693238, 0.6389211378991604, 0.09267490287311375
+    ]);
+    expect(draw(createSeededRandom('warehouse'), 3)).not.toEqual(draw(createSeededRandom('warehouses'), 3));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(createSeededRandom(1), 5)).not.toEqual(draw(createSeededRandom(2), 5));
+  });
+
+  it('stays within [0, 1) and spreads over it', () => {
+    const values = draw(createSeededRandom(7), 10000);
+    const tenths = new Array(10).fill(0);
+    for (const value of values) tenths[Math.floor(value * 10)]++;
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    for (const count of tenths) {
+      expect(count).toBeGreaterThan(900);
+      expect(count).toBeLessThan(1100);
+    }
+  });
+});
+
+describe('createSeededIdGenerator', () => {
+  it('makes version 4 UUIDs', () => {
+    const generateId = createSeededIdGenerator(createSeededRandom(42));
+    const ids = Array.from({ length: 100 }, generateId);
+
+    for (const id of ids) expect(id).toMatch(UUID_V4);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('makes the same ids from the same seed', () => {
+    const ids = () => Array.from({ length: 3 }, createSeededIdGenerator(createSeededRandom(42)));
+
+    expect(ids()[0]).toBe('9972daab-2c86-459f-9d78-3fe1be4e3280');
+    expect(ids()).toEqual(ids());
+  });
+});
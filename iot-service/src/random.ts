@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Source of uniform random numbers in [0, 1) - Math.random or a seeded PRNG
+ */
+export type RandomFn = () => number;
+
+/**
+ * Hash a string seed to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded PRNG (mulberry32) - the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: number | string): RandomFn {
+  let state = (typeof seed === 'string' ? hashSeed(seed) : seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * UUID v4 generator drawing its bytes from the given random source, so
+ * event ids are reproducible in seeded runs
+ */
+export function createSeededIdGenerator(random: RandomFn): () => string {
+  return () => uuidv4({
+    random: Array.from({ length: 16 }, () => Math.floor(random() * 256))
+  });
+}
@@ -0,0 +1,162 @@
+import { parseReplayRequest, ReplayController, ReplayError, ReplayOptions } from './replay-controller';
+import { MemoryTelemetryStore } from './telemetry-store';
+import { DTEvent, PositionTick } from './types';
+
+const T0 = 1_700_000_000_000;
+
+function tick(id: string, t: number): PositionTick {
+  return { id, type: 'forklift', x: (t - T0) / 1000, y: 5, speed: 1, heading: 0, zoneId: 'aisle', t };
+}
+
+function event(t: number): DTEvent {
+  return { id: `event-${t - T0}`, t, type: 'blocked', assetIds: ['forklift-1'], zoneId: 'aisle', payload: {} };
+}
+
+// forklift-1 reports every 100 ms for the whole recording, forklift-2 only
+// for its first second
+function recording(durationMs: number): MemoryTelemetryStore {
+  const store = new MemoryTelemetryStore(1_000_000);
+  for (let t = 0; t < durationMs; t += 100) {
+    store.appendTicks(t < 1000 ? [tick('forklift-1', T0 + t), tick('forklift-2', T0 + t)] : [tick('forklift-1', T0 + t)]);
+    if (t % 1000 === 500) store.appendEvent(event(T0 + t));
+  }
+  return store;
+}
+
+describe('ReplayController', () => {
+  let store: MemoryTelemetryStore;
+  let frames: PositionTick[][];
+  let events: DTEvent[];
+  let replay: ReplayController;
+
+  const open = (durationMs: number) => {
+    store = recording(durationMs);
+    replay = new ReplayController(
+      store,
+      positions => frames.push(positions),
+      played => events.push(played),
+      () => undefined
+    );
+  };
+  const start = (options: Partial<ReplayOptions> = {}) =>
+    replay.start({ from: T0, to: T0 + 2000, speed: 1, loop: false, ...options });
+  const lastFrame = () => frames[frames.length - 1]!;
+  const frameT = (frame: PositionTick[]) => Math.max(...frame.map(played => played.t)) - T0;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    frames = [];
+    events = [];
+    open(10_000);
+  });
+
+  afterEach(() => {
+    replay.stop();
+    jest.useRealTimers();
+  });
+
+  it('plays recorded time scaled by the speed', async () => {
+    start({ speed: 2 });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(replay.status()).toMatchObject({ state: 'playing', speed: 2 });
+    expect(replay.status().position! - T0).toBeGreaterThanOrEqual(900);
+    expect(replay.status().position! - T0).toBeLessThanOrEqual(1000);
+    expect(frameT(lastFrame())).toBeLessThanOrEqual(replay.status().position! - T0);
+    expect(events.map(played => played.t - T0)).toEqual([500]);
+  });
+
+  it('sends the whole scene each frame and drops entities gone quiet', async () => {
+    start({ to: T0 + 8000, speed: 4 });
+    await jest.advanceTimersByTimeAsync(500);
+    expect(lastFrame().map(played => played.id).sort()).toEqual(['forklift-1', 'forklift-2']);
+
+    await jest.advanceTimersByTimeAsync(1250);
+    expect(lastFrame().map(played => played.id)).toEqual(['forklift-1']);
+  });
+
+  it('ends at the end of the window', async () => {
+    start();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(replay.status()).toMatchObject({ state: 'ended', position: T0 + 2000 });
+    expect(frameT(lastFrame())).toBe(2000);
+    expect(events.map(played => played.t - T0)).toEqual([500, 1500]);
+
+    replay.resume();
+    expect(replay.status()).toMatchObject({ state: 'playing', position: T0 });
+  });
+
+  it('starts over at the end of the window when looping', async () => {
+    start({ loop: true, speed: 4 });
+    await jest.advanceTimersByTimeAsync(750);
+
+    expect(replay.status().state).toBe('playing');
+    expect(replay.status().position! - T0).toBeLessThan(2000);
+    expect(events.map(played => played.t - T0)).toEqual([500, 1500, 500]);
+  });
+
+  it('seeks within the window, starting the scene afresh', async () => {
+    start();
+    await jest.advanceTimersByTimeAsync(500);
+    replay.pause();
+    replay.seek(T0 + 1500);
+    frames = [];
+
+    expect(replay.status()).toMatchObject({ state: 'paused', position: T0 + 1500 });
+    replay.resume();
+    await jest.advanceTimersByTimeAsync(200);
+    expect(frames.length).toBeGreaterThan(0);
+    expect(frames.flat().every(played => played.id === 'forklift-1' && played.t >= T0 + 1500)).toBe(true);
+  });
+
+  it('loads the window in chunks, each record once', async () => {
+    open(150_000);
+    const queried: Array<{ from?: number; to?: number }> = [];
+    const queryTicks = store.queryTicks.bind(store);
+    jest.spyOn(store, 'queryTicks').mockImplementation(query => {
+      queried.push({ from: query.from, to: query.to });
+      return queryTicks(query);
+    });
+
+    start({ to: T0 + 150_000, speed: 16 });
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(replay.status().state).toBe('ended');
+    expect(queried.map(query => [query.from! - T0, query.to! - T0])).toEqual([
+      [0, 59_999],
+      [60_000, 119_999],
+      [120_000, 150_000]
+    ]);
+    expect(events).toHaveLength(150);
+    expect(new Set(events.map(played => played.id)).size).toBe(150);
+  });
+
+  it('rejects invalid windows, speeds and seek targets', () => {
+    expect(() => start({ to: T0 })).toThrow(ReplayError);
+    expect(() => start({ speed: 32 })).toThrow('Replay speed must be between 0.25 and 16');
+    expect(() => replay.seek(T0)).toThrow('Replay is not running');
+
+    start();
+    expect(() => replay.seek(T0 + 3000)).toThrow(`Seek target must be within ${T0}..${T0 + 2000}`);
+  });
+
+  it('defaults to the latest recorded telemetry', () => {
+    expect(replay.latestWindow(5000)).toEqual({ from: T0 + 4900, to: T0 + 9900 });
+    expect(() => new ReplayController(new MemoryTelemetryStore(10), jest.fn(), jest.fn(), jest.fn()).latestWindow(5000))
+      .toThrow('No recorded telemetry to replay');
+  });
+});
+
+describe('parseReplayRequest', () => {
+  it('reads numbers from strings', () => {
+    expect(parseReplayRequest({ from: '1000', to: 2000, speed: '4', loop: true }))
+      .toEqual({ from: 1000, to: 2000, speed: 4, loop: true });
+  });
+
+  it('rejects malformed parameters and half a window', () => {
+    expect(() => parseReplayRequest({ t: 'soon' })).toThrow('Invalid t: expected a number');
+    expect(() => parseReplayRequest({ loop: 'yes' })).toThrow('Invalid loop: expected true or false');
+    expect(() => parseReplayRequest({ from: 1000 })).toThrow('Replay window needs both from and to');
+  });
+});
@@ -0,0 +1,332 @@
+import { PositionTick, DTEvent } from './types';
+import { TelemetryStore } from './telemetry-store';
+
+export const MIN_REPLAY_SPEED = 0.25;
+export const MAX_REPLAY_SPEED = 16;
+
+const FRAME_MS = 50;               // wall-clock interval between playback frames
+const CHUNK_MS = 60 * 1000;        // recorded time loaded from the store at once
+const STALE_MS = 5000;             // drop entities not seen for this long (recorded time)
+
+export interface ReplayWindow {
+  from: number;                    // epoch ms of the first recorded tick to play
+  to: number;                      // epoch ms where playback ends or loops
+}
+
+export interface ReplayOptions extends ReplayWindow {
+  speed: number;                   // 0.25x - 16x
+  loop: boolean;
+}
+
+export interface ReplayStatus {
+  state: 'idle' | 'playing' | 'paused' | 'ended';
+  from?: number;
+  to?: number;
+  position?: number;               // recorded time currently shown
+  speed: number;
+  loop: boolean;
+}
+
+/**
+ * Raised for invalid replay requests - maps to a 400 response
+ */
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Plays recorded ticks and events back from the telemetry store in
+ * recorded time, scaled by the playback speed
+ */
+export class ReplayController {
+  private store: TelemetryStore;
+  private onPositions: (positions: PositionTick[]) => void;
+  private onEvent: (event: DTEvent) => void;
+  private onStatus: (status: ReplayStatus) => void;
+
+  private options?: ReplayOptions;
+  private state: ReplayStatus['state'] = 'idle';
+  private position = 0;
+  private lastFrameAt = 0;
+  private intervalId?: NodeJS.Timeout;
+
+  // Recorded data for [chunkFrom, chunkTo] not yet played
+  private chunkFrom = 0;
+  private chunkTo = 0;
+  private ticks: PositionTick[] = [];
+  private events: DTEvent[] = [];
+  private loading?: Promise<void>;
+  private generation = 0;          // bumped on seek and stop, so loads in flight are discarded
+
+  // Latest recorded tick per entity, so every frame carries the whole scene
+  private snapshot: Map<string, PositionTick> = new Map();
+
+  constructor(
+    store: TelemetryStore,
+    onPositions: (positions: PositionTick[]) => void,
+    onEvent: (event: DTEvent) => void,
+    onStatus: (status: ReplayStatus) => void
+  ) {
+    this.store = store;
+    this.onPositions = onPositions;
+    this.onEvent = onEvent;
+    this.onStatus = onStatus;
+  }
+
+  /**
+   * Start playing a window of recorded telemetry
+   */
+  public start(options: ReplayOptions): void {
+    if (options.from >= options.to) {
+      throw new ReplayError('Invalid replay window: from must be before to');
+    }
+    this.validateSpeed(options.speed);
+
+    this.stopTimer();
+    this.options = { ...options };
+    this.seekTo(options.from);
+    this.play();
+  }
+
+  /**
+   * Default window when replay is started without one: the last
+   * `durationMs` of recorded telemetry
+   */
+  public latestWindow(durationMs: number): ReplayWindow {
+    const newest = this.store.stats().newest;
+    if (newest === undefined) {
+      throw new ReplayError('No recorded telemetry to replay');
+    }
+    return { from: newest - durationMs, to: newest };
+  }
+
+  public pause(): void {
+    if (this.state !== 'playing') return;
+    this.stopTimer();
+    this.state = 'paused';
+    this.onStatus(this.status());
+  }
+
+  public resume(): void {
+    if (!this.options || this.state === 'playing') return;
+    if (this.state === 'ended') {
+      this.seekTo(this.options.from);
+    }
+    this.play();
+  }
+
+  /**
+   * Jump to a recorded timestamp inside the current window
+   */
+  public seek(t: number): void {
+    if (!this.options) {
+      throw new ReplayError('Replay is not running');
+    }
+    if (t < this.options.from || t > this.options.to) {
+      throw new ReplayError(`Seek target must be within ${this.options.from}..${this.options.to}`);
+    }
+
+    this.seekTo(t);
+    if (this.state === 'ended') {
+      this.state = 'paused';
+    }
+    this.onStatus(this.status());
+  }
+
+  public setSpeed(speed: number): void {
+    this.validateSpeed(speed);
+    if (!this.options) {
+      throw new ReplayError('Replay is not running');
+    }
+    this.options.speed = speed;
+    this.onStatus(this.status());
+  }
+
+  public setLoop(loop: boolean): void {
+    if (!this.options) {
+      throw new ReplayError('Replay is not running');
+    }
+    this.options.loop = loop;
+    this.onStatus(this.status());
+  }
+
+  /**
+   * Stop playback and forget the window
+   */
+  public stop(): void {
+    this.stopTimer();
+    this.options = undefined;
+    this.state = 'idle';
+    this.ticks = [];
+    this.events = [];
+    this.snapshot.clear();
+    this.generation++;
+    this.loading = undefined;
+  }
+
+  public status(): ReplayStatus {
+    return {
+      state: this.state,
+      from: this.options?.from,
+      to: this.options?.to,
+      position: this.options ? this.position : undefined,
+      speed: this.options?.speed ?? 1,
+      loop: this.options?.loop ?? false
+    };
+  }
+
+  private validateSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed < MIN_REPLAY_SPEED || speed > MAX_REPLAY_SPEED) {
+      throw new ReplayError(`Replay speed must be between ${MIN_REPLAY_SPEED} and ${MAX_REPLAY_SPEED}`);
+    }
+  }
+
+  private play(): void {
+    this.state = 'playing';
+    this.lastFrameAt = Date.now();
+    this.intervalId = setInterval(() => this.frame(), FRAME_MS);
+    this.onStatus(this.status());
+  }
+
+  private stopTimer(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  private seekTo(t: number): void {
+    this.position = t;
+    // Timestamps are whole milliseconds, so the first chunk starts exactly at t
+    this.chunkFrom = t - 1;
+    this.chunkTo = t - 1;
+    this.ticks = [];
+    this.events = [];
+    this.snapshot.clear();
+    this.generation++;
+    this.loading = undefined;
+  }
+
+  /**
+   * Load chunks of recorded data after the current one until `target` is
+   * covered
+   */
+  private async loadChunks(target: number): Promise<void> {
+    const generation = this.generation;
+    while (this.options && this.chunkTo < target) {
+      this.chunkFrom = this.chunkTo;
+      this.chunkTo = Math.min(this.chunkFrom + CHUNK_MS, this.options.to);
+
+      // Each chunk covers (chunkFrom, chunkTo]
+      const query = { from: this.chunkFrom + 1, to: this.chunkTo };
+      const [ticks, events] = await Promise.all([this.store.queryTicks(query), this.store.queryEvents(query)]);
+      if (generation !== this.generation) return;
+      this.ticks.push(...ticks);
+      this.events.push(...events);
+    }
+  }
+
+  /**
+   * Advance recorded time and emit everything that happened since the last frame
+   */
+  private frame(): void {
+    if (!this.options || this.loading) return;
+
+    const now = Date.now();
+    const target = Math.min(
+      this.position + (now - this.lastFrameAt) * this.options.speed,
+      this.options.to
+    );
+
+    // Frames wait while data loads, then catch up on the time spent
+    if (this.chunkTo < target) {
+      const generation = this.generation;
+      this.loading = this.loadChunks(target)
+        .catch(error => {
+          if (generation !== this.generation) return;
+          console.error('❌ Failed to load replay data:', error);
+          this.pause();
+        })
+        .finally(() => {
+          if (generation === this.generation) this.loading = undefined;
+        });
+      return;
+    }
+    this.lastFrameAt = now;
+
+    let tickCount = 0;
+    while (tickCount < this.ticks.length && this.ticks[tickCount]!.t <= target) tickCount++;
+    let eventCount = 0;
+    while (eventCount < this.events.length && this.events[eventCount]!.t <= target) eventCount++;
+
+    const played = this.ticks.splice(0, tickCount);
+    const events = this.events.splice(0, eventCount);
+    this.position = target;
+
+    for (const tick of played) {
+      this.snapshot.set(tick.id, tick);
+    }
+    for (const [id, tick] of this.snapshot) {
+      if (target - tick.t > STALE_MS) this.snapshot.delete(id);
+    }
+
+    if (played.length > 0) {
+      this.onPositions(Array.from(this.snapshot.values()));
+    }
+    events.forEach(event => this.onEvent(event));
+
+    if (target >= this.options.to) {
+      if (this.options.loop) {
+        this.seekTo(this.options.from);
+      } else {
+        this.stopTimer();
+        this.state = 'ended';
+      }
+      this.onStatus(this.status());
+    }
+  }
+}
+
+export type ReplayAction = 'start' | 'pause' | 'resume' | 'seek' | 'speed' | 'loop' | 'stop';
+export const REPLAY_ACTIONS: ReplayAction[] = ['start', 'pause', 'resume', 'seek', 'speed', 'loop', 'stop'];
+
+export interface ReplayRequest {
+  from?: number;
+  to?: number;
+  t?: number;
+  speed?: number;
+  loop?: boolean;
+}
+
+/**
+ * Validate the parameters of a replay request from REST or WebSocket
+ */
+export function parseReplayRequest(input: Record<string, unknown>): ReplayRequest {
+  const request: ReplayRequest = {};
+
+  for (const name of ['from', 'to', 't', 'speed'] as const) {
+    const raw = input[name];
+    if (raw === undefined) continue;
+    const value = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ReplayError(`Invalid ${name}: expected a number`);
+    }
+    request[name] = value;
+  }
+
+  if (input.loop !== undefined) {
+    if (typeof input.loop !== 'boolean') {
+      throw new ReplayError('Invalid loop: expected true or false');
+    }
+    request.loop = input.loop;
+  }
+
+  if ((request.from === undefined) !== (request.to === undefined)) {
+    throw new ReplayError('Replay window needs both from and to');
+  }
+
+  return request;
+}
@@ -0,0 +1,114 @@
+import { SpatialIndex } from './spatial-index';
+import { createSeededRandom } from './random';
+import { LanePoint } from './types';
+
+interface Item extends LanePoint {
+  id: string;
+}
+
+const item = (id: string, x: number, y: number): Item => ({ id, x, y });
+const idOf = (it: Item) => it.id;
+
+function index(items: Item[], cellSize = 2): SpatialIndex<Item> {
+  const spatial = new SpatialIndex<Item>(cellSize);
+  spatial.rebuild(items, idOf);
+  return spatial;
+}
+
+// Ids within the radius, by checking every item
+function bruteForce(items: Item[], center: LanePoint, radius: number): string[] {
+  return items
+    .filter(it => Math.sqrt((it.x - center.x) ** 2 + (it.y - center.y) ** 2) <= radius)
+    .map(idOf)
+    .sort();
+}
+
+const ids = (results: Array<{ id: string }>) => results.map(result => result.id).sort();
+
+describe('SpatialIndex', () => {
+  it('rejects a cell size that is not positive', () => {
+    expect(() => new SpatialIndex(0)).toThrow('Invalid cell size: 0');
+    expect(() => new SpatialIndex(NaN)).toThrow('Invalid cell size: NaN');
+  });
+
+  describe('queryRadius', () => {
+    it('finds items in the cells around a point on a cell corner', () => {
+      // Cells of 2 m meet at (4, 4)
+      const items = [
+        item('a', 3.5, 3.5), item('b', 4.5, 3.5), item('c', 3.5, 4.5), item('d', 4.5, 4.5), item('far', 6.5, 4)
+      ];
+      const results = index(items).queryRadius({ x: 4, y: 4 }, 1);
+
+      expect(ids(results)).toEqual(['a', 'b', 'c', 'd']);
+      expect(results[0]!.distance).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('finds items more than a cell away when the radius spans several cells', () => {
+      const items = [item('a', 0.1, 0.1), item('b', 7.9, 0.1), item('c', 4, 7.9)];
+
+      expect(ids(index(items).queryRadius({ x: 4, y: 4 }, 6))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('counts an item exactly on the radius as within it', () => {
+      expect(ids(index([item('a', 3, 0)]).queryRadius({ x: 0, y: 0 }, 3))).toEqual(['a']);
+    });
+
+    it('handles negative coordinates, where cells round down', () => {
+      // -0.5 and 0.5 are in different cells, as are -2.1 and -1.9
+      const items = [item('a', -0.5, 0), item('b', 0.5, 0), item('c', -2.1, -1.9), item('d', -4.5, -4.5)];
+      const spatial = index(items);
+
+      expect(ids(spatial.queryRadius({ x: 0, y: 0 }, 0.6))).toEqual(['a', 'b']);
+      expect(ids(spatial.queryRadius({ x: -2, y: -2 }, 0.2))).toEqual(['c']);
+      expect(ids(spatial.queryRadius({ x: -4, y: -4 }, 1))).toEqual(['d']);
+    });
+
+    it('agrees with checking every item, across cell borders and signs', () => {
+      const random = createSeededRandom(12);
+      const items = Array.from({ length: 300 }, (_, i) => item(`e${i}`, random() * 40 - 20, random() * 40 - 20));
+      const spatial = index(items, 1.5);
+
+      for (let i = 0; i < 200; i++) {
+        const center = { x: random() * 44 - 22, y: random() * 44 - 22 };
+        const radius = random() * 5;
+        expect(ids(spatial.queryRadius(center, radius))).toEqual(bruteForce(items, center, radius));
+      }
+    });
+  });
+
+  describe('update and rebuild', () => {
+    it('moves an item between cells as it is updated', () => {
+      const spatial = index([item('a', 1, 1)]);
+
+      spatial.update('a', item('a', 9, 9));
+
+      expect(spatial.size).toBe(1);
+      expect(spatial.queryRadius({ x: 1, y: 1 }, 1)).toEqual([]);
+      expect(ids(spatial.queryRadius({ x: 9, y: 9 }, 1))).toEqual(['a']);
+      expect(spatial.get('a')).toEqual(item('a', 9, 9));
+    });
+
+    it('forgets removed items', () => {
+      const spatial = index([item('a', 1, 1), item('b', 1.5, 1)]);
+
+      spatial.remove('a');
+      spatial.remove('missing');
+
+      expect(spatial.size).toBe(1);
+      expect(spatial.get('a')).toBeUndefined();
+      expect(ids(spatial.queryRadius({ x: 1, y: 1 }, 1))).toEqual(['b']);
+    });
+
+    it('replaces the whole contents on rebuild', () => {
+      const spatial = index([item('a', 1, 1), item('b', -3, 5)]);
+
+      spatial.rebuild([item('b', 10, 10), item('c', 1, 1)], idOf);
+
+      expect(spatial.size).toBe(2);
+      expect(Array.from(spatial.values()).map(idOf).sort()).toEqual(['b', 'c']);
+      expect(ids(spatial.queryRadius({ x: 1, y: 1 }, 1))).toEqual(['c']);
+      expect(spatial.queryRadius({ x: -3, y: 5 }, 1)).toEqual([]);
+      expect(ids(spatial.queryRadius({ x: 10, y: 10 }, 1))).toEqual(['b']);
+    });
+  });
+});
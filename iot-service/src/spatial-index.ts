@@ -0,0 +1,125 @@
+import { LanePoint } from './types';
+
+/**
+ * Uniform grid over the warehouse floor for radius queries. Items are
+ * bucketed by cell, so a query only looks at the cells its circle touches
+ * instead of every item. Items can be updated in place as they move, or the
+ * whole index rebuilt each tick.
+ */
+export class SpatialIndex<T extends LanePoint> {
+  private cellSize: number;
+  private cells: Map<string, Map<string, T>> = new Map();
+  private itemCells: Map<string, string> = new Map();   // item id -> cell key
+
+  /**
+   * @param cellSize Cell edge in meters - about the most common query radius
+   */
+  constructor(cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw new Error(`Invalid cell size: ${cellSize}`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  public get size(): number {
+    return this.itemCells.size;
+  }
+
+  /**
+   * Replace the contents of the index
+   */
+  public rebuild(items: Iterable<T>, idOf: (item: T) => string): void {
+    this.clear();
+    for (const item of items) {
+      this.update(idOf(item), item);
+    }
+  }
+
+  /**
+   * Insert an item or move it to its new position
+   */
+  public update(id: string, item: T): void {
+    const key = this.cellKey(Math.floor(item.x / this.cellSize), Math.floor(item.y / this.cellSize));
+    const previousKey = this.itemCells.get(id);
+
+    if (previousKey !== undefined && previousKey !== key) {
+      this.removeFromCell(previousKey, id);
+    }
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Map();
+      this.cells.set(key, cell);
+    }
+    cell.set(id, item);
+    this.itemCells.set(id, key);
+  }
+
+  public remove(id: string): void {
+    const key = this.itemCells.get(id);
+    if (key === undefined) return;
+    this.removeFromCell(key, id);
+    this.itemCells.delete(id);
+  }
+
+  public get(id: string): T | undefined {
+    const key = this.itemCells.get(id);
+    return key === undefined ? undefined : this.cells.get(key)?.get(id);
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.itemCells.clear();
+  }
+
+  public values(): IterableIterator<T> {
+    const cells = this.cells;
+    return (function* () {
+      for (const cell of cells.values()) yield* cell.values();
+    })();
+  }
+
+  /**
+   * Items within `radius` meters of a point, with their ids and distances
+   */
+  public queryRadius(center: LanePoint, radius: number): Array<{ id: string; item: T; distance: number }> {
+    const results: Array<{ id: string; item: T; distance: number }> = [];
+    this.forEachWithin(center, radius, (id, item, distance) => results.push({ id, item, distance }));
+    return results;
+  }
+
+  /**
+   * Visit the items within `radius` meters of a point without building a
+   * result list - for hot loops over many queries
+   */
+  public forEachWithin(center: LanePoint, radius: number, visit: (id: string, item: T, distance: number) => void): void {
+    const minX = Math.floor((center.x - radius) / this.cellSize);
+    const maxX = Math.floor((center.x + radius) / this.cellSize);
+    const minY = Math.floor((center.y - radius) / this.cellSize);
+    const maxY = Math.floor((center.y + radius) / this.cellSize);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = this.cells.get(this.cellKey(cx, cy));
+        if (!cell) continue;
+
+        // forEach rather than for-of: no entry arrays for the hot loop to allocate
+        cell.forEach((item, id) => {
+          const distance = Math.sqrt((item.x - center.x) ** 2 + (item.y - center.y) ** 2);
+          if (distance <= radius) visit(id, item, distance);
+        });
+      }
+    }
+  }
+
+  private removeFromCell(key: string, id: string): void {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+    cell.delete(id);
+    if (cell.size === 0) this.cells.delete(key);
+  }
+
+  private cellKey(cx: number, cy: number): string {
+    return `${cx}:${cy}`;
+  }
+}
@@ -0,0 +1,113 @@
+import { SpeedingMonitor } from './speeding-monitor';
+import { LaneNavigator } from './lane-navigator';
+import { ZoneRegistry } from './zone-registry';
+import { DTEvent, PositionTick } from './types';
+
+// An aisle along y = 5 limited to 1.5 m/s, through a 1 m/s zone at x 20..30
+const LANES = new LaneNavigator({
+  units: 'meters',
+  lanes: [{ id: 'aisle', points: [{ x: 0, y: 5 }, { x: 40, y: 5 }], maxSpeed: 1.5 }]
+});
+const ZONES = new ZoneRegistry({
+  units: 'meters',
+  zones: [{
+    id: 'slow',
+    name: 'Slow',
+    type: 'AISLE',
+    polygon: [{ x: 20, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 10 }, { x: 20, y: 10 }],
+    maxSpeed: 1
+  }]
+});
+const SUSTAIN_MS = 2000;
+const OFF_LANE_Y = 50;
+
+function tick(t: number, speed: number, overrides: Partial<PositionTick> = {}): PositionTick {
+  return { id: 'forklift-1', type: 'forklift', x: 10, y: OFF_LANE_Y, speed, heading: 0, zoneId: 'unknown', t, ...overrides };
+}
+
+describe('SpeedingMonitor', () => {
+  let monitor: SpeedingMonitor;
+
+  // A tick every 500 ms from `from` up to and including `to`
+  const run = (from: number, to: number, at: (t: number) => PositionTick): DTEvent[] => {
+    const events: DTEvent[] = [];
+    for (let t = from; t <= to; t += 500) events.push(...monitor.check([at(t)]));
+    return events;
+  };
+
+  beforeEach(() => {
+    let next = 0;
+    monitor = new SpeedingMonitor(LANES, ZONES, {
+      speedLimits: { forklift: 3, pallet: 3, worker: 2 },
+      sustainMs: SUSTAIN_MS
+    }, () => `event-${++next}`);
+  });
+
+  describe('sustain window', () => {
+    it('opens once the limit has been exceeded for sustainMs, from when it began', () => {
+      const events = run(0, 3000, t => tick(t, 4));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        t: SUSTAIN_MS,
+        type: 'speeding',
+        state: 'open',
+        startedAt: 0,
+        assetIds: ['forklift-1'],
+        payload: { speed: 4, speedSource: 'reported', limit: 3, limitSource: 'entityType', severity: 'medium' }
+      });
+    });
+
+    it('ignores bursts shorter than sustainMs and starts the window over after each', () => {
+      const events = run(0, 6000, t => tick(t, t % 2000 < 1500 ? 4 : 2));
+
+      expect(events).toEqual([]);
+    });
+
+    it('allows a little over the limit', () => {
+      expect(run(0, 5000, t => tick(t, 3.05))).toEqual([]);
+    });
+  });
+
+  describe('limits', () => {
+    const limitOf = (x: number, y: number, type: PositionTick['type'] = 'forklift') => {
+      monitor.reset();
+      const events = run(0, SUSTAIN_MS, t => tick(t, 5, { x, y, type, id: `${type}-1` }));
+      const { limit, limitSource, limitId } = events[0]!.payload!;
+      return { limit, limitSource, limitId };
+    };
+
+    it('applies the lowest of the entity type\'s, lane\'s and zone\'s limits', () => {
+      expect(limitOf(10, OFF_LANE_Y)).toEqual({ limit: 3, limitSource: 'entityType', limitId: undefined });
+      expect(limitOf(10, OFF_LANE_Y, 'worker')).toEqual({ limit: 2, limitSource: 'entityType', limitId: undefined });
+      expect(limitOf(10, 5)).toEqual({ limit: 1.5, limitSource: 'lane', limitId: 'aisle' });
+      expect(limitOf(25, 5)).toEqual({ limit: 1, limitSource: 'zone', limitId: 'slow' });
+    });
+  });
+
+  it('derives the speed from positions when the tag reports none', () => {
+    // 3 m every 500 ms
+    const events = run(0, 3000, t => tick(t, 0, { type: 'worker', id: 'worker-1', x: t * 0.006 }));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      t: 500 + SUSTAIN_MS,
+      startedAt: 500,
+      payload: { speed: 6, speedSource: 'derived', limit: 2, severity: 'high' }
+    });
+  });
+
+  it('closes the incident once back under the limit, with the peak speed', () => {
+    const events = run(0, 5000, t => tick(t, t <= 2500 ? (t === 1000 ? 5 : 4) : 2));
+
+    expect(events.map(event => [event.state, event.t])).toEqual([['open', 2000], ['close', 3500]]);
+    expect(events[1]).toMatchObject({ endedAt: 2500, payload: { peakSpeed: 5 } });
+  });
+
+  it('forgets an entity not heard from for a while', () => {
+    run(0, 1500, t => tick(t, 4));
+    monitor.check([tick(12000, 1, { id: 'forklift-2' })]);
+
+    expect(run(12500, 13500, t => tick(t, 4))).toEqual([]);
+  });
+});
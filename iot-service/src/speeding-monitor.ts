@@ -0,0 +1,175 @@
+import { PositionTick, DTEvent, EventSeverity } from './types';
+import { LaneNavigator } from './lane-navigator';
+import { ZoneRegistry } from './zone-registry';
+import { IncidentTracker } from './incident-tracker';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const SPEED_TOLERANCE = 0.1;       // m/s over a limit that still counts as keeping to it
+const DERIVED_WINDOW_MS = 1000;    // derive speed over about this long, to smooth out UWB jitter
+const MAX_DERIVED_GAP_MS = 5000;   // positions further apart say nothing about current speed
+const CLEAR_MS = 1000;             // back under the limit this long ends the incident
+const COOLDOWN_MS = 5000;
+const STALE_MS = 10000;            // forget entities not heard from for this long
+
+export interface SpeedingOptions {
+  speedLimits: Record<PositionTick['type'], number>; // m/s anywhere, per entity type
+  sustainMs: number;               // how long a limit must be exceeded to count
+}
+
+export type SpeedLimitSource = 'entityType' | 'lane' | 'zone';
+
+interface SpeedState {
+  history: Array<{ x: number; y: number; t: number }>;
+  overSince?: number;              // when the entity went over its limit
+  peakSpeed: number;
+}
+
+/**
+ * Raises `speeding` incidents when an entity goes faster than the lowest
+ * limit that applies to it - its entity type's, the lane's and every zone's
+ * it is in - for longer than `sustainMs`. Speed is the tick's reported
+ * speed, or derived from positions when the tag does not report one.
+ */
+export class SpeedingMonitor implements TickDetector {
+  private laneNavigator: LaneNavigator;
+  private zones: ZoneRegistry;
+  private options: SpeedingOptions;
+  private incidents: IncidentTracker;
+  private states: Map<string, SpeedState> = new Map();
+  private lastSweep = 0;
+
+  constructor(
+    laneNavigator: LaneNavigator,
+    zones: ZoneRegistry,
+    options: SpeedingOptions,
+    generateId: () => string = () => uuidv4()
+  ) {
+    this.laneNavigator = laneNavigator;
+    this.zones = zones;
+    this.options = options;
+    this.incidents = new IncidentTracker('speeding', { clearMs: CLEAR_MS, cooldownMs: COOLDOWN_MS }, generateId);
+  }
+
+  public check(ticks: PositionTick[]): DTEvent[] {
+    if (ticks.length === 0) return [];
+
+    const events: DTEvent[] = [];
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+
+    for (const tick of ticks) {
+      const state = this.track(tick);
+      const { speed, source } = this.speedOf(tick, state);
+      const limit = this.limitAt(tick);
+
+      if (speed <= limit.value + SPEED_TOLERANCE) {
+        state.overSince = undefined;
+        if (!this.incidents.isOpen(tick.id)) state.peakSpeed = 0;
+        continue;
+      }
+
+      state.overSince ??= tick.t;
+      state.peakSpeed = Math.max(state.peakSpeed, speed);
+
+      const event = this.incidents.observe(tick.id, {
+        t: tick.t,
+        since: state.overSince,
+        triggered: tick.t - state.overSince >= this.options.sustainMs,
+        severity: this.severity(speed, limit.value),
+        assetIds: [tick.id],
+        zoneId: tick.zoneId || 'unknown',
+        payload: {
+          entityType: tick.type,
+          speed: Math.round(speed * 100) / 100,
+          speedSource: source,
+          peakSpeed: Math.round(state.peakSpeed * 100) / 100,
+          limit: limit.value,
+          limitSource: limit.source,
+          limitId: limit.id
+        }
+      });
+      if (event) events.push(event);
+    }
+
+    if (now - this.lastSweep >= STALE_MS) {
+      this.states.forEach((state, id) => {
+        const last = state.history[state.history.length - 1];
+        if (!last || now - last.t > STALE_MS) this.states.delete(id);
+      });
+      this.lastSweep = now;
+    }
+
+    return [...events, ...this.incidents.closeIdle(now)];
+  }
+
+  public reset(): void {
+    this.incidents.reset();
+    this.states.clear();
+    this.lastSweep = 0;
+  }
+
+  /**
+   * The lowest limit that applies at a position. Where lanes meet, the
+   * most permissive lane counts, as the entity may be on any of them.
+   */
+  private limitAt(tick: PositionTick): { value: number; source: SpeedLimitSource; id?: string } {
+    let limit: { value: number; source: SpeedLimitSource; id?: string } = {
+      value: this.options.speedLimits[tick.type] ?? Infinity,
+      source: 'entityType'
+    };
+
+    const lanes = this.laneNavigator.lanesAt(tick)
+      .map(lane => ({ id: lane.laneId, value: this.laneNavigator.speedLimit(lane.laneId, tick.type) }))
+      .sort((a, b) => b.value - a.value);
+    const lane = lanes[0];
+    if (lane && lane.value < limit.value) {
+      limit = { value: lane.value, source: 'lane', id: lane.id };
+    }
+
+    for (const zone of this.zones.zonesAt(tick)) {
+      const value = Math.min(zone.maxSpeed ?? Infinity, zone.maxSpeedByType?.[tick.type] ?? Infinity);
+      if (value < limit.value) {
+        limit = { value, source: 'zone', id: zone.id };
+      }
+    }
+
+    return limit;
+  }
+
+  private speedOf(tick: PositionTick, state: SpeedState): { speed: number; source: 'reported' | 'derived' } {
+    if (tick.speed > 0) return { speed: tick.speed, source: 'reported' };
+
+    const base = state.history[0];
+    const elapsed = base ? tick.t - base.t : 0;
+    if (!base || elapsed < DERIVED_WINDOW_MS / 2 || elapsed > MAX_DERIVED_GAP_MS) {
+      return { speed: 0, source: 'derived' };
+    }
+    const distance = Math.sqrt((tick.x - base.x) ** 2 + (tick.y - base.y) ** 2);
+    return { speed: distance / (elapsed / 1000), source: 'derived' };
+  }
+
+  /**
+   * Keep the positions of about the last DERIVED_WINDOW_MS, plus one older
+   * position to measure from
+   */
+  private track(tick: PositionTick): SpeedState {
+    let state = this.states.get(tick.id);
+    if (!state) {
+      state = { history: [], peakSpeed: 0 };
+      this.states.set(tick.id, state);
+    }
+
+    state.history.push({ x: tick.x, y: tick.y, t: tick.t });
+    while (state.history.length > 2 && state.history[1]!.t <= tick.t - DERIVED_WINDOW_MS) {
+      state.history.shift();
+    }
+    return state;
+  }
+
+  private severity(speed: number, limit: number): EventSeverity {
+    const ratio = speed / limit;
+    if (ratio >= 1.5) return 'high';
+    if (ratio >= 1.25) return 'medium';
+    return 'low';
+  }
+}
@@ -0,0 +1,125 @@
+import { TagTracker, TrackUpdate } from './tag-tracker';
+import { PositionTick } from './types';
+
+const OPTIONS = { enabled: true, accelerationNoise: 1.0, maxSpeed: 8 };
+const STEP_MS = 200;
+
+function reading(t: number, x: number, y = 5, overrides: Partial<PositionTick> = {}): PositionTick {
+  return { id: 'worker-1', type: 'worker', x, y, speed: 0, heading: 0, confidence: 1, t, ...overrides };
+}
+
+// A tag walking east at 1 m/s, reporting every STEP_MS
+function walk(tracker: TagTracker, steps: number): TrackUpdate[] {
+  return Array.from({ length: steps }, (_, i) => {
+    const t = i * STEP_MS;
+    return tracker.update(reading(t, t / 1000), false);
+  });
+}
+
+describe('TagTracker', () => {
+  it('estimates speed and heading for tags that report only positions', () => {
+    const tracker = new TagTracker(OPTIONS);
+    const last = walk(tracker, 30).pop()!;
+
+    expect(last.tick!.speed).toBeCloseTo(1, 1);
+    expect(last.tick!.heading).toBeCloseTo(0, 1);
+    expect(last.tick!.raw).toEqual({ x: 29 * STEP_MS / 1000, y: 5 });
+  });
+
+  it('reports forklift headings in degrees', () => {
+    const tracker = new TagTracker(OPTIONS);
+    let update: TrackUpdate | undefined;
+    for (let t = 0; t < 30 * STEP_MS; t += STEP_MS) {
+      update = tracker.update(reading(t, 5, t / 1000, { id: 'forklift-1', type: 'forklift' }), false);
+    }
+
+    expect(update!.tick!.heading).toBeCloseTo(90, 0);
+  });
+
+  describe('jump rejection', () => {
+    it('rejects a reading further than maxSpeed allows and keeps the track', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 10);
+
+      expect(tracker.update(reading(10 * STEP_MS, 25, 5), false)).toEqual({ rejected: 'impossibleJump' });
+      const next = tracker.update(reading(11 * STEP_MS, 2.2, 5), false);
+      expect(next.tick!.x).toBeCloseTo(2.2, 0);
+
+      const [track] = tracker.getTracks();
+      expect(track).toMatchObject({ rejected: 1, lastRejection: { t: 10 * STEP_MS, reason: 'impossibleJump' } });
+      expect(track!.lastRaw).toEqual({ x: 2.2, y: 5, t: 11 * STEP_MS });
+    });
+
+    it('allows a longer jump after a longer gap', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 10);
+
+      // 20 m in 5 s is within maxSpeed
+      const update = tracker.update(reading(1800 + 5000, 21.8, 5), false);
+      expect(update.rejected).toBeUndefined();
+    });
+
+    it('rejects readings reachable at maxSpeed but far outside the prediction', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 20);
+
+      expect(tracker.update(reading(20 * STEP_MS, 4, 6.5), false)).toEqual({ rejected: 'outlier' });
+    });
+
+    it('widens the gate for low-confidence readings', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 20);
+
+      expect(tracker.update(reading(20 * STEP_MS, 4, 6.5, { confidence: 0.1 }), false).rejected).toBeUndefined();
+    });
+
+    it('starts over where the tag is after repeated rejections in a row', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 10);
+
+      const jumps = [10, 11, 12].map(step => tracker.update(reading(step * STEP_MS, 30, 5), false));
+      expect(jumps.slice(0, 2)).toEqual([{ rejected: 'impossibleJump' }, { rejected: 'impossibleJump' }]);
+      expect(jumps[2]!.tick).toMatchObject({ x: 30, y: 5 });
+      expect(tracker.getTracks()[0]).toMatchObject({ rejected: 3, x: 30 });
+    });
+
+    it('does not start over on readings a little out of order', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 10);
+
+      for (let i = 0; i < 5; i++) {
+        expect(tracker.update(reading(STEP_MS * i, 0, 5), false)).toEqual({ rejected: 'outOfOrder' });
+      }
+      expect(tracker.getTracks()[0]!.x).toBeCloseTo(1.8, 1);
+    });
+
+    it('starts over on a reading far behind the track, as after a tag resets its clock', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 60);
+
+      // The last reading was at 11.8 s
+      expect(tracker.update(reading(10000, 3, 5), false)).toEqual({ rejected: 'outOfOrder' });
+      const restarted = tracker.update(reading(1000, 3, 5), false);
+      expect(restarted.tick).toMatchObject({ x: 3, y: 5 });
+      expect(tracker.update(reading(1000 + STEP_MS, 3.2, 5), false).tick!.x).toBeCloseTo(3.2, 0);
+    });
+
+    it('starts over without rejecting after a stale gap', () => {
+      const tracker = new TagTracker(OPTIONS);
+      walk(tracker, 10);
+
+      const update = tracker.update(reading(1800 + 10001, 100, 5), false);
+      expect(update.tick).toMatchObject({ x: 100, y: 5 });
+      expect(tracker.getTracks()[0]!.rejected).toBe(0);
+    });
+  });
+
+  it('forgets every track on reset', () => {
+    const tracker = new TagTracker(OPTIONS);
+    walk(tracker, 5);
+    tracker.reset();
+
+    expect(tracker.getTracks()).toEqual([]);
+    expect(tracker.update(reading(0, 50, 5), false).tick).toMatchObject({ x: 50 });
+  });
+});
@@ -0,0 +1,250 @@
+import { PositionTick, RawReading, TrackingConfig } from './types';
+
+const GATE = 13.8;                 // chi-square, 2 dof, 99.9% - innovations beyond this are outliers
+const MAX_REJECTED_IN_ROW = 3;     // then the tag has really moved (or the track is wrong): start over
+const STALE_MS = 10000;            // a track this far from a reading in time, either way, starts over
+const MEASUREMENT_SIGMA = 0.15;    // meters, UWB position noise at full confidence
+const MIN_CONFIDENCE = 0.1;
+const JUMP_SIGMAS = 3;             // measurement noise allowed on top of a jump at maxSpeed
+const MOVING_SPEED = 0.05;         // m/s - slower than this, the heading is held rather than estimated
+
+export type RejectionReason = 'outOfOrder' | 'impossibleJump' | 'outlier';
+
+// Position and velocity along one axis, with their covariance [[pp, pv], [pv, vv]].
+// The axes are filtered independently: with position noise the same in x
+// and y and no coupling in the motion model, the cross terms stay zero.
+interface AxisState {
+  p: number;
+  v: number;
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+interface Track {
+  type: PositionTick['type'];
+  t: number;
+  x: AxisState;
+  y: AxisState;
+  heading: number;                 // radians
+  updates: number;
+  rejected: number;
+  rejectedInRow: number;
+  lastRaw: RawReading & { t: number };
+  lastRejection?: { t: number; reason: RejectionReason };
+}
+
+/**
+ * A reading run through the tracker - the filtered tick, or why the
+ * reading was rejected
+ */
+export type TrackUpdate =
+  | { tick: PositionTick; rejected?: undefined }
+  | { tick?: undefined; rejected: RejectionReason };
+
+export interface TrackSummary {
+  id: string;
+  type: PositionTick['type'];
+  t: number;
+  x: number;
+  y: number;
+  vx: number;                      // m/s
+  vy: number;
+  speed: number;
+  heading: number;                 // as ticks report it (degrees for forklifts)
+  positionSigma: number;           // meters, one standard deviation
+  updates: number;
+  rejected: number;
+  lastRaw: RawReading & { t: number };
+  lastRejection?: { t: number; reason: RejectionReason };
+}
+
+/**
+ * Per-tag constant-velocity Kalman filter for live positions. Smooths
+ * jitter, estimates speed and heading for tags that only report where they
+ * are, and rejects readings that arrive out of order, would need an
+ * impossible speed to reach, or fall far outside the filter's prediction.
+ * Filtered ticks keep the reading as the tag sent it under `raw`.
+ *
+ * Headings follow the simulator's convention: degrees for forklifts,
+ * radians for everything else.
+ */
+export class TagTracker {
+  private options: TrackingConfig;
+  private tracks: Map<string, Track> = new Map();
+  private lastSweep = 0;
+
+  constructor(options: TrackingConfig) {
+    this.options = options;
+  }
+
+  /**
+   * Filter one reading. `reportsMotion` says the tag sent its own speed
+   * and heading, which are passed through rather than estimated.
+   */
+  public update(reading: PositionTick, reportsMotion: boolean): TrackUpdate {
+    const raw: RawReading = {
+      x: reading.x,
+      y: reading.y,
+      ...(reportsMotion && { speed: reading.speed, heading: reading.heading })
+    };
+    const variance = (MEASUREMENT_SIGMA / Math.max(reading.confidence ?? 1, MIN_CONFIDENCE)) ** 2;
+    this.dropStale(reading.t);
+
+    // Small steps back in time are stragglers and get rejected; a large one
+    // means the tag's clock was reset, and its track would never catch up
+    let track = this.tracks.get(reading.id);
+    if (!track || Math.abs(reading.t - track.t) > STALE_MS) {
+      track = this.start(reading, raw, variance, track);
+      return { tick: this.toTick(reading, track, raw, reportsMotion) };
+    }
+    track.lastRaw = { ...raw, t: reading.t };
+
+    const rejection = this.check(track, reading, variance);
+    if (rejection) {
+      track.rejected++;
+      track.rejectedInRow++;
+      track.lastRejection = { t: reading.t, reason: rejection };
+      if (rejection === 'outOfOrder' || track.rejectedInRow < MAX_REJECTED_IN_ROW) {
+        return { rejected: rejection };
+      }
+      track = this.start(reading, raw, variance, track);
+      return { tick: this.toTick(reading, track, raw, reportsMotion) };
+    }
+
+    const dt = (reading.t - track.t) / 1000;
+    track.x = correct(predict(track.x, dt, this.options.accelerationNoise), reading.x, variance);
+    track.y = correct(predict(track.y, dt, this.options.accelerationNoise), reading.y, variance);
+    track.t = reading.t;
+    track.updates++;
+    track.rejectedInRow = 0;
+    if (Math.hypot(track.x.v, track.y.v) >= MOVING_SPEED) {
+      track.heading = Math.atan2(track.y.v, track.x.v);
+    }
+
+    return { tick: this.toTick(reading, track, raw, reportsMotion) };
+  }
+
+  /**
+   * Filter state of every tag, for diagnostics
+   */
+  public getTracks(): TrackSummary[] {
+    return Array.from(this.tracks, ([id, track]) => ({
+      id,
+      type: track.type,
+      t: track.t,
+      x: track.x.p,
+      y: track.y.p,
+      vx: track.x.v,
+      vy: track.y.v,
+      speed: Math.hypot(track.x.v, track.y.v),
+      heading: toReported(track.heading, track.type),
+      positionSigma: Math.sqrt((track.x.pp + track.y.pp) / 2),
+      updates: track.updates,
+      rejected: track.rejected,
+      lastRaw: track.lastRaw,
+      ...(track.lastRejection && { lastRejection: track.lastRejection })
+    }));
+  }
+
+  public reset(): void {
+    this.tracks.clear();
+    this.lastSweep = 0;
+  }
+
+  // Tags gone quiet would start over anyway; forget them so tags that come
+  // and go do not pile up
+  private dropStale(now: number): void {
+    if (now - this.lastSweep < STALE_MS) return;
+    this.tracks.forEach((track, id) => {
+      if (now - track.t > STALE_MS) this.tracks.delete(id);
+    });
+    this.lastSweep = now;
+  }
+
+  private check(track: Track, reading: PositionTick, variance: number): RejectionReason | undefined {
+    if (reading.t <= track.t) return 'outOfOrder';
+
+    const dt = (reading.t - track.t) / 1000;
+    const jump = Math.hypot(reading.x - track.x.p, reading.y - track.y.p);
+    if (jump - JUMP_SIGMAS * Math.sqrt(variance) > this.options.maxSpeed * dt) return 'impossibleJump';
+
+    // Squared Mahalanobis distance of the reading from the prediction
+    const x = predict(track.x, dt, this.options.accelerationNoise);
+    const y = predict(track.y, dt, this.options.accelerationNoise);
+    const distance = (reading.x - x.p) ** 2 / (x.pp + variance) + (reading.y - y.p) ** 2 / (y.pp + variance);
+    if (distance > GATE) return 'outlier';
+
+    return undefined;
+  }
+
+  // A new track at the reading, at rest unless the tag says it is moving
+  private start(reading: PositionTick, raw: RawReading, variance: number, previous?: Track): Track {
+    const heading = fromReported(reading.heading, reading.type);
+    const speed = raw.speed ?? 0;
+    const velocityVariance = (this.options.maxSpeed / 2) ** 2;
+
+    const track: Track = {
+      type: reading.type,
+      t: reading.t,
+      x: { p: reading.x, v: speed * Math.cos(heading), pp: variance, pv: 0, vv: velocityVariance },
+      y: { p: reading.y, v: speed * Math.sin(heading), pp: variance, pv: 0, vv: velocityVariance },
+      heading: raw.heading !== undefined ? heading : previous?.heading ?? 0,
+      updates: (previous?.updates ?? 0) + 1,
+      rejected: previous?.rejected ?? 0,
+      rejectedInRow: 0,
+      lastRaw: { ...raw, t: reading.t },
+      lastRejection: previous?.lastRejection
+    };
+    this.tracks.set(reading.id, track);
+    return track;
+  }
+
+  private toTick(reading: PositionTick, track: Track, raw: RawReading, reportsMotion: boolean): PositionTick {
+    return {
+      ...reading,
+      x: track.x.p,
+      y: track.y.p,
+      speed: reportsMotion ? reading.speed : Math.hypot(track.x.v, track.y.v),
+      heading: reportsMotion ? reading.heading : toReported(track.heading, track.type),
+      raw
+    };
+  }
+}
+
+/**
+ * Constant-velocity prediction dt seconds ahead, with white-noise
+ * acceleration of the given standard deviation as process noise
+ */
+function predict(axis: AxisState, dt: number, accelerationNoise: number): AxisState {
+  const q = accelerationNoise * accelerationNoise;
+  return {
+    p: axis.p + axis.v * dt,
+    v: axis.v,
+    pp: axis.pp + 2 * dt * axis.pv + dt * dt * axis.vv + q * dt ** 3 / 3,
+    pv: axis.pv + dt * axis.vv + q * dt * dt / 2,
+    vv: axis.vv + q * dt
+  };
+}
+
+function correct(axis: AxisState, measured: number, variance: number): AxisState {
+  const innovation = measured - axis.p;
+  const s = axis.pp + variance;
+  const kp = axis.pp / s;
+  const kv = axis.pv / s;
+  return {
+    p: axis.p + kp * innovation,
+    v: axis.v + kv * innovation,
+    pp: (1 - kp) * axis.pp,
+    pv: (1 - kp) * axis.pv,
+    vv: axis.vv - kv * axis.pv
+  };
+}
+
+function fromReported(heading: number, type: PositionTick['type']): number {
+  return type === 'forklift' ? heading * (Math.PI / 180) : heading;
+}
+
+function toReported(heading: number, type: PositionTick['type']): number {
+  return type === 'forklift' ? heading * (180 / Math.PI) : heading;
+}
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NdjsonTelemetryStore } from './telemetry-store';
+import { PositionTick, StorageConfig } from './types';
+
+const T0 = 1_700_000_000_000;
+const LINE_BYTES = Buffer.byteLength(JSON.stringify(tick(T0))) + 1;
+
+function tick(t: number, id = 'forklift-1', x = 10): PositionTick {
+  return { id, type: 'forklift', x, y: 5, speed: 1, heading: 0, zoneId: 'aisle', t };
+}
+
+function segmentFiles(dataDir: string): string[] {
+  return fs.readdirSync(dataDir).filter(file => /^ticks-\d+\.ndjson$/.test(file)).sort();
+}
+
+describe('NdjsonTelemetryStore', () => {
+  let dataDir: string;
+  let store: NdjsonTelemetryStore | undefined;
+
+  const open = (overrides: Partial<StorageConfig> = {}) => {
+    store = new NdjsonTelemetryStore({
+      driver: 'ndjson',
+      dataDir,
+      segmentDurationMs: 1000,
+      maxSegmentBytes: 1024 * 1024,
+      retentionMs: 60 * 60 * 1000,
+      maxTotalBytes: 1024 * 1024 * 1024,
+      flushIntervalMs: 60 * 1000,
+      memoryBufferSize: 100,
+      ...overrides
+    });
+    return store;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'telemetry-store-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    store?.close();
+    store = undefined;
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('rotation', () => {
+    it('starts a new segment once the current one spans segmentDurationMs', async () => {
+      const telemetry = open();
+      for (let t = 0; t < 4000; t += 250) telemetry.appendTicks([tick(T0 + t)]);
+      telemetry.flush();
+
+      expect(segmentFiles(dataDir)).toHaveLength(4);
+      expect(telemetry.stats().ticks).toBe(16);
+      expect((await telemetry.queryTicks({})).map(record => record.t - T0))
+        .toEqual(Array.from({ length: 16 }, (_, i) => i * 250));
+    });
+
+    it('starts a new segment once the current one reaches maxSegmentBytes', () => {
+      const telemetry = open({ maxSegmentBytes: 300 });
+      for (let i = 0; i < 10; i++) {
+        telemetry.appendTicks([tick(T0 + i)]);
+        telemetry.flush();
+      }
+
+      // A segment is only checked before a write, so it may run one write over
+      const files = segmentFiles(dataDir);
+      expect(files.length).toBeGreaterThan(1);
+      files.forEach(file => {
+        expect(fs.statSync(path.join(dataDir, file)).size).toBeLessThan(300 + LINE_BYTES);
+      });
+      expect(telemetry.stats().ticks).toBe(10);
+    });
+
+    it('seals segments with an index that a reopened store reads', async () => {
+      const telemetry = open();
+      for (let t = 0; t < 3000; t += 500) telemetry.appendTicks([tick(T0 + t)]);
+      telemetry.close();
+
+      expect(fs.readdirSync(dataDir).filter(file => file.endsWith('.idx.json'))).toHaveLength(3);
+
+      const reopened = open();
+      expect(reopened.stats().ticks).toBe(6);
+      expect(await reopened.queryTicks({ from: T0 + 1000, to: T0 + 1500 })).toHaveLength(2);
+    });
+  });
+
+  describe('retention', () => {
+    it('drops segments that ended before retentionMs', async () => {
+      const telemetry = open({ retentionMs: 2000 });
+      for (let t = 0; t <= 5000; t += 500) telemetry.appendTicks([tick(T0 + t)]);
+      telemetry.flush();
+
+      const times = (await telemetry.queryTicks({})).map(record => record.t - T0);
+      expect(times[0]).toBeGreaterThanOrEqual(2000);
+      expect(times[times.length - 1]).toBe(5000);
+    });
+
+    it('drops the oldest segments beyond maxTotalBytes', async () => {
+      const telemetry = open({ maxTotalBytes: 500 });
+      for (let t = 0; t < 10000; t += 1000) {
+        telemetry.appendTicks([tick(T0 + t), tick(T0 + t + 1)]);
+        telemetry.flush();
+      }
+
+      // Retention runs as a segment starts, before the new one fills
+      expect(telemetry.stats().bytes).toBeLessThanOrEqual(500 + 2 * LINE_BYTES);
+      const times = (await telemetry.queryTicks({})).map(record => record.t - T0);
+      expect(times[0]).toBeGreaterThan(0);
+      expect(times[times.length - 1]).toBe(9001);
+    });
+
+    it('always keeps the segment being written', () => {
+      const telemetry = open({ retentionMs: 0 });
+      telemetry.appendTicks([tick(T0)]);
+      telemetry.appendTicks([tick(T0 + 5000)]);
+      telemetry.flush();
+
+      expect(segmentFiles(dataDir)).toHaveLength(1);
+      expect(telemetry.stats().ticks).toBe(1);
+    });
+  });
+
+  describe('failed writes', () => {
+    it('keeps records that could not be written for the next flush, and out of the index', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const telemetry = open();
+      const blocked = path.join(dataDir, `ticks-${T0}.ndjson`);
+      fs.mkdirSync(blocked);           // appending to a directory fails
+      telemetry.appendTicks([tick(T0), tick(T0 + 100)]);
+      telemetry.flush();
+
+      expect(telemetry.stats().ticks).toBe(0);
+
+      fs.rmdirSync(blocked);
+      telemetry.flush();
+      expect(telemetry.stats().ticks).toBe(2);
+      expect((await telemetry.queryTicks({})).map(record => record.t - T0)).toEqual([0, 100]);
+    });
+  });
+
+  describe('out-of-order writes', () => {
+    it('keeps late records queryable in time order', async () => {
+      const telemetry = open();
+      telemetry.appendTicks([tick(T0), tick(T0 + 500), tick(T0 + 1500)]);
+      telemetry.appendTicks([tick(T0 + 200, 'forklift-2')]);  // late, lands in the second segment
+      telemetry.appendTicks([tick(T0 + 1700)]);
+      telemetry.flush();
+
+      expect(segmentFiles(dataDir)).toHaveLength(2);
+      expect((await telemetry.queryTicks({})).map(record => record.t - T0)).toEqual([0, 200, 500, 1500, 1700]);
+      expect((await telemetry.queryTicks({ order: 'desc' })).map(record => record.t - T0))
+        .toEqual([1700, 1500, 500, 200, 0]);
+      expect(await telemetry.queryTicks({ from: T0 + 100, to: T0 + 300 })).toEqual([tick(T0 + 200, 'forklift-2')]);
+    });
+
+    it('does not rotate early after a late record', () => {
+      const telemetry = open();
+      telemetry.appendTicks([tick(T0 + 5000)]);
+      telemetry.appendTicks([tick(T0 + 100)]);
+      telemetry.appendTicks([tick(T0 + 5900)]);
+      telemetry.flush();
+
+      expect(segmentFiles(dataDir)).toHaveLength(1);
+    });
+
+    it('finds late records after the store is reopened', async () => {
+      const telemetry = open();
+      telemetry.appendTicks([tick(T0), tick(T0 + 1500), tick(T0 + 300, 'forklift-2')]);
+      telemetry.close();
+
+      const reopened = open();
+      expect(await reopened.queryTicks({ entityId: 'forklift-2' })).toEqual([tick(T0 + 300, 'forklift-2')]);
+      expect((await reopened.queryTicks({ limit: 2 })).map(record => record.t - T0)).toEqual([0, 300]);
+    });
+  });
+});
@@ -0,0 +1,646 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PositionTick, DTEvent, StorageConfig } from './types';
+
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface TelemetryQuery {
+  from?: number;                   // epoch ms, inclusive
+  to?: number;                     // epoch ms, inclusive
+  entityId?: string;
+  type?: string;                   // entity type for ticks, event type for events
+  zoneId?: string;
+  bbox?: BoundingBox;              // only records with a position can match
+  limit?: number;
+  order?: 'asc' | 'desc';          // desc returns the most recent records first
+}
+
+export interface TelemetryStoreStats {
+  driver: StorageConfig['driver'];
+  ticks: number;
+  events: number;
+  segments: number;
+  bytes: number;
+  oldest?: number;
+  newest?: number;
+}
+
+/**
+ * Visitor for streaming scans - return false to stop the scan
+ */
+export type RecordVisitor<T> = (record: T) => boolean | void;
+
+/**
+ * Persistence backend for position ticks and events. Writes are buffered;
+ * reads are asynchronous, so a long query does not hold up live traffic.
+ */
+export interface TelemetryStore {
+  appendTicks(ticks: PositionTick[]): void;
+  appendEvent(event: DTEvent): void;
+  queryTicks(query: TelemetryQuery): Promise<PositionTick[]>;
+  queryEvents(query: TelemetryQuery): Promise<DTEvent[]>;
+  scanTicks(query: TelemetryQuery, visit: RecordVisitor<PositionTick>): Promise<void>;
+  stats(): TelemetryStoreStats;
+  flush(): void;
+  close(): void;
+}
+
+type RecordKind = 'ticks' | 'events';
+
+interface RecordKeys {
+  t: number;
+  entityIds: string[];
+  type: string;
+  zoneId?: string;
+  x?: number;
+  y?: number;
+}
+
+function tickKeys(tick: PositionTick): RecordKeys {
+  return { t: tick.t, entityIds: [tick.id], type: tick.type, zoneId: tick.zoneId, x: tick.x, y: tick.y };
+}
+
+function eventKeys(event: DTEvent): RecordKeys {
+  return { t: event.t, entityIds: event.assetIds || [], type: event.type, zoneId: event.zoneId };
+}
+
+// Chronological order, ties broken by entity id so pagination is stable
+function compareKeys(a: RecordKeys, b: RecordKeys): number {
+  if (a.t !== b.t) return a.t - b.t;
+  const idA = a.entityIds[0] || '';
+  const idB = b.entityIds[0] || '';
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+}
+
+function matchesQuery(keys: RecordKeys, query: TelemetryQuery): boolean {
+  if (query.from !== undefined && keys.t < query.from) return false;
+  if (query.to !== undefined && keys.t > query.to) return false;
+  if (query.entityId !== undefined && !keys.entityIds.includes(query.entityId)) return false;
+  if (query.type !== undefined && keys.type !== query.type) return false;
+  if (query.zoneId !== undefined && keys.zoneId !== query.zoneId) return false;
+  if (query.bbox !== undefined) {
+    if (keys.x === undefined || keys.y === undefined) return false;
+    if (keys.x < query.bbox.minX || keys.x > query.bbox.maxX ||
+        keys.y < query.bbox.minY || keys.y > query.bbox.maxY) return false;
+  }
+  return true;
+}
+
+/**
+ * Filter and sort a batch of records, then hand them to the visitor;
+ * returns false once the visitor has asked to stop
+ */
+function visitMatching<T>(
+  records: T[],
+  keysOf: (record: T) => RecordKeys,
+  query: TelemetryQuery,
+  visit: RecordVisitor<T>
+): boolean {
+  const direction = query.order === 'desc' ? -1 : 1;
+  const matching = records
+    .map(record => ({ record, keys: keysOf(record) }))
+    .filter(entry => matchesQuery(entry.keys, query))
+    .sort((a, b) => compareKeys(a.keys, b.keys) * direction);
+
+  for (const entry of matching) {
+    if (visit(entry.record) === false) return false;
+  }
+  return true;
+}
+
+async function collect<T>(scan: (visit: RecordVisitor<T>) => Promise<void>, limit?: number): Promise<T[]> {
+  const results: T[] = [];
+  await scan(record => {
+    results.push(record);
+    return limit === undefined || results.length < limit;
+  });
+  return results;
+}
+
+/**
+ * Bounded in-memory store - nothing survives a restart
+ */
+export class MemoryTelemetryStore implements TelemetryStore {
+  private ticks: PositionTick[] = [];
+  private events: DTEvent[] = [];
+  private maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  public appendTicks(ticks: PositionTick[]): void {
+    this.ticks.push(...ticks);
+    if (this.ticks.length > this.maxSize) {
+      this.ticks.splice(0, this.ticks.length - this.maxSize); // Remove oldest
+    }
+  }
+
+  public appendEvent(event: DTEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.maxSize) {
+      this.events.shift();
+    }
+  }
+
+  public queryTicks(query: TelemetryQuery): Promise<PositionTick[]> {
+    return collect(visit => this.scanTicks(query, visit), query.limit);
+  }
+
+  public queryEvents(query: TelemetryQuery): Promise<DTEvent[]> {
+    return collect(async visit => { visitMatching(this.events, eventKeys, query, visit); }, query.limit);
+  }
+
+  public async scanTicks(query: TelemetryQuery, visit: RecordVisitor<PositionTick>): Promise<void> {
+    visitMatching(this.ticks, tickKeys, query, visit);
+  }
+
+  public stats(): TelemetryStoreStats {
+    return {
+      driver: 'memory',
+      ticks: this.ticks.length,
+      events: this.events.length,
+      segments: 0,
+      bytes: 0,
+      oldest: this.ticks[0]?.t,
+      newest: this.ticks[this.ticks.length - 1]?.t
+    };
+  }
+
+  public flush(): void {
+    // Nothing buffered
+  }
+
+  public close(): void {
+    // Nothing to release
+  }
+}
+
+const BLOCK_RECORDS = 1000;         // records per block of a segment's time index
+
+// A run of consecutive records in a segment file; queries read only the
+// blocks whose time range they overlap
+interface SegmentBlock {
+  startT: number;
+  endT: number;
+  offset: number;                  // byte offset of the first record
+  bytes: number;
+  count: number;
+}
+
+// Segment index - kept in memory and written next to sealed segments
+interface SegmentIndex {
+  file: string;
+  startT: number;
+  endT: number;
+  count: number;
+  bytes: number;
+  entityIds: Set<string>;
+  zoneIds: Set<string>;
+  blocks: SegmentBlock[];
+  sealed: boolean;
+}
+
+interface SerializedSegmentIndex {
+  file: string;
+  startT: number;
+  endT: number;
+  count: number;
+  bytes: number;
+  entityIds: string[];
+  zoneIds: string[];
+  blocks: SegmentBlock[];
+}
+
+const SEGMENT_PATTERN = /^(ticks|events)-(\d+)\.ndjson$/;
+
+// When a segment file was started - its records may reach further back
+function segmentFileT(file: string): number {
+  return Number(SEGMENT_PATTERN.exec(file)![2]);
+}
+
+// One NDJSON line; a truncated trailing line from an unclean shutdown parses as nothing
+function parseRecord<T>(line: string): T | undefined {
+  if (!line) return undefined;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Segments in time order, with segments whose time ranges overlap grouped
+ * together - their records have to be sorted as one batch
+ */
+function overlappingGroups(segments: SegmentIndex[]): SegmentIndex[][] {
+  const groups: SegmentIndex[][] = [];
+  let groupEndT = -Infinity;
+  for (const segment of [...segments].sort((a, b) => a.startT - b.startT)) {
+    const group = groups[groups.length - 1];
+    if (group && segment.startT <= groupEndT) {
+      group.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+    groupEndT = Math.max(groupEndT, segment.endT);
+  }
+  return groups;
+}
+
+/**
+ * Append-only log of one record kind, split into time-ordered segment files
+ */
+class SegmentLog<T extends { t: number }> {
+  private kind: RecordKind;
+  private config: StorageConfig;
+  private keysOf: (record: T) => RecordKeys;
+  private segments: SegmentIndex[] = [];
+  private pending: string[] = [];
+  private pendingKeys: RecordKeys[] = [];
+
+  constructor(kind: RecordKind, config: StorageConfig, keysOf: (record: T) => RecordKeys) {
+    this.kind = kind;
+    this.config = config;
+    this.keysOf = keysOf;
+    this.loadSegments();
+  }
+
+  /**
+   * Discover existing segments and their indexes; the last segment of a
+   * previous run is sealed so this run starts with a fresh file
+   */
+  private loadSegments(): void {
+    const files = fs.readdirSync(this.config.dataDir)
+      .map(file => ({ file, match: SEGMENT_PATTERN.exec(file) }))
+      .filter(entry => entry.match && entry.match[1] === this.kind)
+      .sort((a, b) => segmentFileT(a.file) - segmentFileT(b.file));
+
+    for (const { file } of files) {
+      const index = this.readIndex(file) || this.rebuildIndex(file);
+      if (!index.sealed) {
+        this.sealSegment(index);
+      }
+      this.segments.push(index);
+    }
+  }
+
+  private readIndex(file: string): SegmentIndex | null {
+    const indexPath = path.join(this.config.dataDir, `${file}.idx.json`);
+    if (!fs.existsSync(indexPath)) return null;
+
+    try {
+      const data: SerializedSegmentIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+      if (!Array.isArray(data.blocks)) return null; // written before block indexes
+      return {
+        ...data,
+        entityIds: new Set(data.entityIds),
+        zoneIds: new Set(data.zoneIds),
+        sealed: true
+      };
+    } catch (error) {
+      console.warn(`⚠️  Corrupt segment index ${indexPath}, rebuilding:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Rebuild a segment index by scanning its records (e.g. after a crash)
+   */
+  private rebuildIndex(file: string): SegmentIndex {
+    const filePath = path.join(this.config.dataDir, file);
+    const index: SegmentIndex = {
+      file,
+      startT: segmentFileT(file),
+      endT: 0,
+      count: 0,
+      bytes: fs.statSync(filePath).size,
+      entityIds: new Set(),
+      zoneIds: new Set(),
+      blocks: [],
+      sealed: false
+    };
+
+    const content = fs.readFileSync(filePath);
+    let offset = 0;
+    while (offset < content.length) {
+      const newline = content.indexOf(10, offset);
+      const next = newline === -1 ? content.length : newline + 1;
+      const record = parseRecord<T>(content.toString('utf8', offset, next).trim());
+      if (record) this.addToIndex(index, this.keysOf(record), offset, next - offset);
+      offset = next;
+    }
+
+    return index;
+  }
+
+  // Late records (device clocks, out-of-order MQTT delivery) go into the
+  // current segment, so its time range widens both ways
+  private addToIndex(index: SegmentIndex, keys: RecordKeys, offset: number, bytes: number): void {
+    index.count++;
+    index.startT = Math.min(index.startT, keys.t);
+    index.endT = Math.max(index.endT, keys.t);
+    keys.entityIds.forEach(id => index.entityIds.add(id));
+    if (keys.zoneId) index.zoneIds.add(keys.zoneId);
+
+    let block = index.blocks[index.blocks.length - 1];
+    if (!block || block.count >= BLOCK_RECORDS) {
+      block = { startT: keys.t, endT: keys.t, offset, bytes: 0, count: 0 };
+      index.blocks.push(block);
+    }
+    block.count++;
+    block.startT = Math.min(block.startT, keys.t);
+    block.endT = Math.max(block.endT, keys.t);
+    block.bytes = offset + bytes - block.offset;
+  }
+
+  private sealSegment(index: SegmentIndex): void {
+    const serialized: SerializedSegmentIndex = {
+      file: index.file,
+      startT: index.startT,
+      endT: index.endT,
+      count: index.count,
+      bytes: index.bytes,
+      entityIds: Array.from(index.entityIds),
+      zoneIds: Array.from(index.zoneIds),
+      blocks: index.blocks
+    };
+    fs.writeFileSync(
+      path.join(this.config.dataDir, `${index.file}.idx.json`),
+      JSON.stringify(serialized)
+    );
+    index.sealed = true;
+  }
+
+  /**
+   * Records of the blocks of a segment that overlap [from, to]. Block
+   * ranges are taken before the first read, so records appended meanwhile
+   * are left for the next query; a segment removed by retention meanwhile
+   * reads as empty.
+   */
+  private async readBlocks(segment: SegmentIndex, from?: number, to?: number): Promise<T[]> {
+    const ranges: Array<{ offset: number; bytes: number }> = [];
+    for (const block of segment.blocks) {
+      if ((from !== undefined && block.endT < from) || (to !== undefined && block.startT > to)) continue;
+      const last = ranges[ranges.length - 1];
+      if (last && last.offset + last.bytes === block.offset) {
+        last.bytes += block.bytes;
+      } else {
+        ranges.push({ offset: block.offset, bytes: block.bytes });
+      }
+    }
+    if (ranges.length === 0) return [];
+
+    let file: fs.promises.FileHandle;
+    try {
+      file = await fs.promises.open(path.join(this.config.dataDir, segment.file), 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: T[] = [];
+    try {
+      for (const range of ranges) {
+        const buffer = Buffer.alloc(range.bytes);
+        const { bytesRead } = await file.read(buffer, 0, range.bytes, range.offset);
+        for (const line of buffer.toString('utf8', 0, bytesRead).split('\n')) {
+          const record = parseRecord<T>(line);
+          if (record) records.push(record);
+        }
+      }
+    } finally {
+      await file.close();
+    }
+    return records;
+  }
+
+  private fitsSegment(segment: SegmentIndex | undefined, t: number): segment is SegmentIndex {
+    return segment !== undefined && !segment.sealed &&
+      t - segmentFileT(segment.file) < this.config.segmentDurationMs &&
+      segment.bytes < this.config.maxSegmentBytes;
+  }
+
+  /**
+   * Seal the current segment and start a new one beginning at t
+   */
+  private rotateSegment(t: number): SegmentIndex {
+    const current = this.segments[this.segments.length - 1];
+    if (current && !current.sealed) {
+      this.sealSegment(current);
+    }
+
+    // File names increase, so they stay unique and load in write order, even
+    // if two segments start in the same millisecond or a late record starts one
+    const fileT = current ? Math.max(t, segmentFileT(current.file) + 1) : t;
+    const segment: SegmentIndex = {
+      file: `${this.kind}-${fileT}.ndjson`,
+      startT: t,
+      endT: t,
+      count: 0,
+      bytes: 0,
+      entityIds: new Set(),
+      zoneIds: new Set(),
+      blocks: [],
+      sealed: false
+    };
+    this.segments.push(segment);
+    this.enforceRetention(t);
+
+    return segment;
+  }
+
+  public append(record: T): void {
+    this.pending.push(JSON.stringify(record));
+    this.pendingKeys.push(this.keysOf(record));
+  }
+
+  public flush(): void {
+    if (this.pending.length === 0) return;
+
+    let segment = this.segments[this.segments.length - 1];
+    let written = 0;               // pending records already on disk
+
+    // Records are indexed only once their chunk is written, so a failed
+    // write leaves the index matching the file and the rest of the records
+    // pending for the next flush
+    const write = (end: number) => {
+      if (!segment || end === written) return;
+      const chunk = this.pending.slice(written, end).join('\n') + '\n';
+      fs.appendFileSync(path.join(this.config.dataDir, segment.file), chunk);
+      for (let i = written; i < end; i++) {
+        const lineBytes = Buffer.byteLength(this.pending[i]!) + 1;
+        this.addToIndex(segment, this.pendingKeys[i]!, segment.bytes, lineBytes);
+        segment.bytes += lineBytes;
+      }
+      written = end;
+    };
+
+    try {
+      for (let i = 0; i < this.pending.length; i++) {
+        const keys = this.pendingKeys[i]!;
+        if (!this.fitsSegment(segment, keys.t)) {
+          write(i);
+          segment = this.rotateSegment(keys.t);
+        }
+      }
+      write(this.pending.length);
+    } finally {
+      this.pending.splice(0, written);
+      this.pendingKeys.splice(0, written);
+    }
+  }
+
+  /**
+   * Drop whole segments that fall outside the retention window or size budget
+   */
+  private enforceRetention(now: number): void {
+    const cutoff = now - this.config.retentionMs;
+    let totalBytes = this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+
+    while (this.segments.length > 1) {
+      const oldest = this.segments[0]!;
+      if (oldest.endT >= cutoff && totalBytes <= this.config.maxTotalBytes) break;
+
+      this.segments.shift();
+      totalBytes -= oldest.bytes;
+      for (const file of [oldest.file, `${oldest.file}.idx.json`]) {
+        fs.rmSync(path.join(this.config.dataDir, file), { force: true });
+      }
+      console.log(`🗑️  Retention removed segment ${oldest.file}`);
+    }
+  }
+
+  /**
+   * Visit matching records segment by segment, using the segment indexes to
+   * skip files that cannot contain a match and the block indexes to read
+   * only the parts of a file inside the query's time range
+   */
+  public async scan(query: TelemetryQuery, visit: RecordVisitor<T>): Promise<void> {
+    this.flush();
+
+    const candidates = this.segments.filter(segment =>
+      segment.count > 0 &&
+      (query.from === undefined || segment.endT >= query.from) &&
+      (query.to === undefined || segment.startT <= query.to) &&
+      (query.entityId === undefined || segment.entityIds.has(query.entityId)) &&
+      (query.zoneId === undefined || segment.zoneIds.has(query.zoneId))
+    );
+    const groups = overlappingGroups(candidates);
+    if (query.order === 'desc') groups.reverse();
+
+    // Groups are time-ordered, so the visitor can stop the scan early
+    for (const group of groups) {
+      const records = (await Promise.all(group.map(segment => this.readBlocks(segment, query.from, query.to)))).flat();
+      if (!visitMatching(records, this.keysOf, query, visit)) break;
+    }
+  }
+
+  public query(query: TelemetryQuery): Promise<T[]> {
+    return collect(visit => this.scan(query, visit), query.limit);
+  }
+
+  public getSegments(): SegmentIndex[] {
+    return this.segments;
+  }
+
+  public close(): void {
+    this.flush();
+    const current = this.segments[this.segments.length - 1];
+    if (current && !current.sealed) {
+      this.sealSegment(current);
+    }
+  }
+}
+
+/**
+ * Durable store writing segmented append-only NDJSON files
+ */
+export class NdjsonTelemetryStore implements TelemetryStore {
+  private ticks: SegmentLog<PositionTick>;
+  private events: SegmentLog<DTEvent>;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(config: StorageConfig) {
+    fs.mkdirSync(config.dataDir, { recursive: true });
+
+    this.ticks = new SegmentLog('ticks', config, tickKeys);
+    this.events = new SegmentLog('events', config, eventKeys);
+
+    this.flushTimer = setInterval(() => this.flush(), config.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+
+  public appendTicks(ticks: PositionTick[]): void {
+    ticks.forEach(tick => this.ticks.append(tick));
+  }
+
+  public appendEvent(event: DTEvent): void {
+    this.events.append(event);
+  }
+
+  public queryTicks(query: TelemetryQuery): Promise<PositionTick[]> {
+    return this.ticks.query(query);
+  }
+
+  public queryEvents(query: TelemetryQuery): Promise<DTEvent[]> {
+    return this.events.query(query);
+  }
+
+  public scanTicks(query: TelemetryQuery, visit: RecordVisitor<PositionTick>): Promise<void> {
+    return this.ticks.scan(query, visit);
+  }
+
+  public stats(): TelemetryStoreStats {
+    const tickSegments = this.ticks.getSegments();
+    const eventSegments = this.events.getSegments();
+    const all = [...tickSegments, ...eventSegments].filter(segment => segment.count > 0);
+
+    return {
+      driver: 'ndjson',
+      ticks: tickSegments.reduce((sum, segment) => sum + segment.count, 0),
+      events: eventSegments.reduce((sum, segment) => sum + segment.count, 0),
+      segments: all.length,
+      bytes: all.reduce((sum, segment) => sum + segment.bytes, 0),
+      oldest: all.length > 0 ? Math.min(...all.map(segment => segment.startT)) : undefined,
+      newest: all.length > 0 ? Math.max(...all.map(segment => segment.endT)) : undefined
+    };
+  }
+
+  public flush(): void {
+    try {
+      this.ticks.flush();
+      this.events.flush();
+    } catch (error) {
+      console.error('❌ Failed to flush telemetry store:', error);
+    }
+  }
+
+  public close(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.ticks.close();
+    this.events.close();
+  }
+}
+
+/**
+ * Create the telemetry store selected by the storage config
+ */
+export function createTelemetryStore(config: StorageConfig): TelemetryStore {
+  switch (config.driver) {
+    case 'memory':
+      return new MemoryTelemetryStore(config.memoryBufferSize);
+    case 'ndjson':
+      return new NdjsonTelemetryStore(config);
+    default:
+      throw new Error(`Unknown storage driver: ${config.driver}`);
+  }
+}
@@ -0,0 +1,253 @@
+import { TrafficManager, TrafficParticipant } from './traffic-manager';
+import { LaneNavigator } from './lane-navigator';
+import { LaneNetwork } from './types';
+
+// Two lanes crossing at (10, 10), and a spur off the east end of `ew`;
+// the west end of `ew` and the north end of the spur are dead ends
+const NETWORK: LaneNetwork = {
+  units: 'meters',
+  lanes: [
+    { id: 'ew', points: [{ x: 0, y: 10 }, { x: 20, y: 10 }] },
+    { id: 'ns', points: [{ x: 10, y: 0 }, { x: 10, y: 20 }] },
+    { id: 'spur', points: [{ x: 20, y: 10 }, { x: 20, y: 20 }] }
+  ]
+};
+const EAST = 0;
+const NORTH = Math.PI / 2;
+const WEST = Math.PI;
+
+function participant(
+  id: string,
+  at: { x: number; y: number },
+  direction: number,
+  overrides: Partial<TrafficParticipant> = {}
+): TrafficParticipant {
+  return { id, type: 'forklift', x: at.x, y: at.y, speed: 1, direction, ...overrides };
+}
+
+describe('TrafficManager', () => {
+  let traffic: TrafficManager;
+
+  beforeEach(() => {
+    traffic = new TrafficManager(new LaneNavigator(NETWORK));
+  });
+
+  describe('junctions', () => {
+    it('gives a junction to the nearest vehicle and stops the other short of it', () => {
+      const west = participant('west', { x: 7, y: 10 }, EAST, { target: { x: 10, y: 10 } });
+      const south = participant('south', { x: 10, y: 7.5 }, NORTH, { target: { x: 10, y: 10 } });
+      const { speedLimits } = traffic.plan([west, south], [], 0);
+
+      expect(speedLimits.get('south')).toBe(Infinity);
+      expect(speedLimits.get('west')).toBeCloseTo(1);       // 3 m out, stops 2 m short
+    });
+
+    it('passes the junction on once its holder is clear of it', () => {
+      const west = participant('west', { x: 7, y: 10 }, EAST, { target: { x: 10, y: 10 } });
+      traffic.plan([west, participant('south', { x: 10, y: 7.5 }, NORTH, { target: { x: 10, y: 10 } })], [], 0);
+
+      const through = participant('south', { x: 10, y: 12 }, NORTH, { target: { x: 10, y: 20 } });
+      expect(traffic.plan([west, through], [], 200).speedLimits.get('west')).toBe(Infinity);
+    });
+
+    it('keeps the junction for its holder however close the others get', () => {
+      const south = participant('south', { x: 10, y: 7.5 }, NORTH, { target: { x: 10, y: 10 } });
+      traffic.plan([south, participant('west', { x: 7, y: 10 }, EAST, { target: { x: 10, y: 10 } })], [], 0);
+
+      const closer = participant('west', { x: 8.5, y: 10 }, EAST, { target: { x: 10, y: 10 } });
+      const { speedLimits } = traffic.plan([south, closer], [], 200);
+      expect(speedLimits.get('south')).toBe(Infinity);
+      expect(speedLimits.get('west')).toBe(0);
+    });
+
+    it('closes a junction an uncontrolled forklift is in', () => {
+      const west = participant('west', { x: 7, y: 10 }, EAST, { target: { x: 10, y: 10 } });
+      const real = participant('tag-1', { x: 10, y: 11.2 }, NORTH, { speed: 0 });
+
+      expect(traffic.plan([west], [real], 0).speedLimits.get('west')).toBeCloseTo(1);
+      expect(traffic.plan([west], [{ ...real, type: 'worker' }], 200).speedLimits.get('west')).toBe(Infinity);
+    });
+  });
+
+  describe('segments', () => {
+    it('lets vehicles follow each other along a segment but not meet head-on', () => {
+      traffic.enter('a', 'ew', { x: 12, y: 10 }, { x: 20, y: 10 });
+
+      expect(traffic.canEnter('b', 'ew', { x: 15, y: 10 }, { x: 20, y: 10 })).toBe(true);
+      expect(traffic.canEnter('b', 'ew', { x: 15, y: 10 }, { x: 10, y: 10 })).toBe(false);
+      expect(traffic.canEnter('b', 'ns', { x: 10, y: 15 }, { x: 10, y: 10 })).toBe(true);
+    });
+
+    it('lets a vehicle turn around on its own segment only when allowed to', () => {
+      traffic.enter('a', 'ew', { x: 12, y: 10 }, { x: 20, y: 10 });
+      traffic.enter('b', 'ew', { x: 14, y: 10 }, { x: 20, y: 10 });
+
+      expect(traffic.canEnter('a', 'ew', { x: 12, y: 10 }, { x: 10, y: 10 })).toBe(false);
+      expect(traffic.canEnter('a', 'ew', { x: 12, y: 10 }, { x: 10, y: 10 }, true)).toBe(true);
+    });
+
+    it('takes one vehicle at a time into a dead-end segment', () => {
+      traffic.enter('a', 'ew', { x: 8, y: 10 }, { x: 0, y: 10 });
+
+      expect(traffic.canEnter('b', 'ew', { x: 10, y: 10 }, { x: 0, y: 10 })).toBe(false);
+      expect(traffic.canEnter('a', 'ew', { x: 8, y: 10 }, { x: 0, y: 10 })).toBe(true);
+    });
+
+    it('frees a segment once its vehicles leave or are released', () => {
+      traffic.enter('a', 'ew', { x: 12, y: 10 }, { x: 20, y: 10 });
+      traffic.enter('a', 'spur', { x: 20, y: 12 }, { x: 20, y: 20 });
+      expect(traffic.canEnter('b', 'ew', { x: 15, y: 10 }, { x: 10, y: 10 })).toBe(true);
+
+      traffic.release('a');
+      expect(traffic.canEnter('b', 'spur', { x: 20, y: 15 }, { x: 20, y: 20 })).toBe(true);
+    });
+  });
+
+  describe('following', () => {
+    it('keeps the following distance to whatever is ahead', () => {
+      const vehicle = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const stopped = participant('b', { x: 16, y: 10 }, EAST, { speed: 0, target: { x: 20, y: 10 } });
+      const worker = participant('worker-1', { x: 15, y: 10 }, NORTH, { type: 'worker', speed: 0 });
+
+      expect(traffic.plan([vehicle, stopped], [], 0).speedLimits.get('a')).toBeCloseTo(2);
+      expect(traffic.plan([vehicle, stopped], [worker], 200).speedLimits.get('a')).toBeCloseTo(1);
+    });
+
+    it('ignores entities beside or behind it', () => {
+      const vehicle = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const beside = participant('worker-1', { x: 14, y: 11.5 }, EAST, { type: 'worker', speed: 0 });
+      const behind = participant('worker-2', { x: 11, y: 10 }, EAST, { type: 'worker', speed: 0 });
+
+      expect(traffic.plan([vehicle], [beside, behind], 0).speedLimits.get('a')).toBe(Infinity);
+    });
+
+    it('ignores oncoming controlled vehicles but brakes early for oncoming pedestrians', () => {
+      const vehicle = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const oncoming = participant('b', { x: 18, y: 10 }, WEST, { target: { x: 10, y: 10 } });
+      const walking = participant('worker-1', { x: 18, y: 10 }, WEST, { type: 'worker' });
+
+      expect(traffic.plan([vehicle, oncoming], [], 0).speedLimits.get('a')).toBe(Infinity);
+      // 6 m apart, closing 1 m before the forklift can stop
+      expect(traffic.plan([vehicle], [walking], 200).speedLimits.get('a')).toBeCloseTo(3);
+    });
+
+    it('gets controlled vehicles that meet head-on moving again', () => {
+      const east = participant('a', { x: 12, y: 10 }, EAST, { speed: 0, target: { x: 20, y: 10 } });
+      const west = participant('b', { x: 13.5, y: 10 }, WEST, { speed: 0, target: { x: 10, y: 10 } });
+      const parked = participant('c', { x: 13.5, y: 10 }, WEST, { speed: 0 });
+
+      expect(traffic.plan([east, west], [], 0).speedLimits.get('a')).toBe(Infinity);
+      expect(traffic.plan([east, parked], [], 200).speedLimits.get('a')).toBe(0);
+    });
+
+    it('has pedestrians and pallets give way to forklifts but not to each other', () => {
+      const forklift = participant('a', { x: 11, y: 10 }, EAST, { speed: 0 });
+      const worker = participant('worker-1', { x: 14, y: 10 }, WEST, { type: 'worker' });
+      const pallet = participant('pallet-1', { x: 19.5, y: 10 }, WEST, { type: 'pallet' }); // the forklift is out of sight
+
+      const { speedLimits } = traffic.plan([forklift], [worker, pallet], 0);
+      expect(speedLimits.get('worker-1')).toBeCloseTo(1);
+      expect(speedLimits.has('pallet-1')).toBe(false);
+    });
+
+    it('lets a pedestrian past a forklift that has stopped for it', () => {
+      const forklift = participant('a', { x: 12, y: 10 }, EAST, { speed: 0, target: { x: 20, y: 10 } });
+      const worker = participant('worker-1', { x: 13.5, y: 10 }, WEST, { type: 'worker', speed: 0 });
+
+      const { speedLimits } = traffic.plan([forklift], [worker], 0);
+      expect(speedLimits.get('a')).toBe(0);
+      expect(speedLimits.has('worker-1')).toBe(false);
+    });
+  });
+
+  describe('mixed traffic', () => {
+    // Moves everyone straight ahead at their starting speed, as far as each
+    // plan allows, in 200 ms steps; returns the vehicles reported stuck
+    function drive(vehicles: TrafficParticipant[], others: TrafficParticipant[], seconds: number): string[] {
+      const cruise = new Map([...vehicles, ...others].map(p => [p.id, p.speed]));
+      const stuck: string[] = [];
+      for (let now = 0; now <= seconds * 1000; now += 200) {
+        const plan = traffic.plan(vehicles, others, now);
+        stuck.push(...plan.stuck);
+        for (const p of [...vehicles, ...others]) {
+          p.speed = Math.min(cruise.get(p.id)!, plan.speedLimits.get(p.id) ?? Infinity);
+          p.x += Math.cos(p.direction) * p.speed * 0.2;
+          p.y += Math.sin(p.direction) * p.speed * 0.2;
+        }
+      }
+      return stuck;
+    }
+
+    it('lets pedestrians past forklifts that stopped for other pedestrians', () => {
+      // Each forklift has stopped for the worker beyond the other's
+      const north = participant('a', { x: 10, y: 15.7 }, NORTH, { speed: 0, target: { x: 10, y: 20 } });
+      const south = participant('b', { x: 10, y: 18.7 }, -NORTH, { speed: 0, target: { x: 10, y: 10 } });
+      const northbound = participant('worker-1', { x: 10, y: 16.7 }, NORTH, { type: 'worker', speed: 0 });
+      const southbound = participant('worker-2', { x: 10, y: 17.7 }, -NORTH, { type: 'worker', speed: 0 });
+
+      const { speedLimits } = traffic.plan([north, south], [northbound, southbound], 0);
+      expect(speedLimits.get('a')).toBe(0);
+      expect(speedLimits.get('b')).toBe(0);
+      expect(speedLimits.has('worker-1')).toBe(false);
+      expect(speedLimits.has('worker-2')).toBe(false);
+    });
+
+    it('lets a pedestrian past a forklift waiting at a junction', () => {
+      const holder = participant('south', { x: 10, y: 8.5 }, NORTH, { target: { x: 10, y: 10 } });
+      const waiting = participant('west', { x: 8.2, y: 10 }, EAST, { speed: 0, target: { x: 10, y: 10 } });
+      const worker = participant('worker-1', { x: 6.5, y: 10 }, EAST, { type: 'worker', speed: 0 });
+
+      const { speedLimits } = traffic.plan([holder, waiting], [worker], 0);
+      expect(speedLimits.get('west')).toBe(0);
+      expect(speedLimits.has('worker-1')).toBe(false);
+    });
+
+    it('has a forklift follow a pallet along a segment without holding the pallet up', () => {
+      const forklift = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const pallet = participant('pallet-1', { x: 15, y: 10 }, EAST, { type: 'pallet', speed: 0.5 });
+
+      const { speedLimits } = traffic.plan([forklift], [pallet], 0);
+      expect(speedLimits.get('a')).toBeCloseTo(1);
+      expect(speedLimits.has('pallet-1')).toBe(false);
+    });
+
+    it('gets a forklift and a worker past each other on one segment', () => {
+      const forklift = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const worker = participant('worker-1', { x: 18, y: 10 }, WEST, { type: 'worker' });
+
+      expect(drive([forklift], [worker], 60)).toEqual([]);
+      expect(forklift.x).toBeGreaterThan(18);
+      expect(worker.x).toBeLessThan(12);
+    });
+
+    it('gets a forklift and a pallet past each other on one segment', () => {
+      const forklift = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const pallet = participant('pallet-1', { x: 18, y: 10 }, WEST, { type: 'pallet', speed: 0.3 });
+
+      expect(drive([forklift], [pallet], 60)).toEqual([]);
+      expect(forklift.x).toBeGreaterThan(18);
+      expect(pallet.x).toBeLessThan(12);
+    });
+  });
+
+  describe('waiting', () => {
+    it('reports a vehicle held up for longer than the wait limit as stuck, once per wait', () => {
+      const vehicle = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const blocker = participant('worker-1', { x: 13.5, y: 10 }, WEST, { type: 'worker', speed: 0 });
+
+      expect(traffic.plan([vehicle], [blocker], 0).stuck).toEqual([]);
+      expect(traffic.plan([vehicle], [blocker], 10000).stuck).toEqual([]);
+      expect(traffic.plan([vehicle], [blocker], 10001).stuck).toEqual(['a']);
+      expect(traffic.plan([vehicle], [blocker], 10201).stuck).toEqual([]);
+    });
+
+    it('starts the wait over once a vehicle moves again', () => {
+      const vehicle = participant('a', { x: 12, y: 10 }, EAST, { target: { x: 20, y: 10 } });
+      const blocker = participant('worker-1', { x: 13.5, y: 10 }, WEST, { type: 'worker', speed: 0 });
+
+      traffic.plan([vehicle], [blocker], 0);
+      traffic.plan([vehicle], [], 5000);
+      expect(traffic.plan([vehicle], [blocker], 10001).stuck).toEqual([]);
+    });
+  });
+});
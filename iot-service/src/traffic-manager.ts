@@ -0,0 +1,329 @@
+import { LanePoint, EntityState } from './types';
+import { LaneNavigator } from './lane-navigator';
+import { LaneGraphEdge, LaneGraphNode } from './lane-graph';
+import { SpatialIndex } from './spatial-index';
+
+const NODE_TOLERANCE = 0.5;        // a point this close to a graph node is at the node (meters)
+const APPROACH_DISTANCE = 4.0;     // reserve a junction when this close to it
+const STOP_DISTANCE = 2.0;         // wait this far before a junction held by someone else
+const CLEAR_DISTANCE = 1.5;        // release a junction once this far past it
+const FOLLOWING_DISTANCE = 2.0;    // minimum gap to the entity ahead
+const LOOKAHEAD = 8.0;             // how far ahead to look for a leader
+const CORRIDOR_HALF_WIDTH = 1.0;   // lateral offset that still counts as "ahead"
+const BRAKING_GAIN = 1.0;          // allowed speed per meter of free space (1/s)
+const STATIONARY_SPEED = 0.1;      // m/s
+const MAX_WAIT_MS = 10000;         // waiting longer than this counts as stuck
+
+/**
+ * What the traffic manager needs to know about a moving entity
+ */
+export interface TrafficParticipant {
+  id: string;
+  type: EntityState['type'];
+  x: number;
+  y: number;
+  speed: number;
+  direction: number;               // direction of travel, radians
+  target?: LanePoint;              // graph node the vehicle is driving to
+}
+
+export interface TrafficPlan {
+  speedLimits: Map<string, number>;  // entity id -> allowed speed (m/s), for those held up
+  stuck: string[];                   // vehicles waiting longer than MAX_WAIT_MS
+}
+
+interface SegmentOccupancy {
+  toward: string;                  // node id all occupants are driving to
+  deadEnd: boolean;
+  vehicles: Set<string>;
+}
+
+/**
+ * Traffic control for simulated vehicles. Junctions (graph nodes shared by
+ * several lanes) are held by one vehicle at a time, lane segments (graph
+ * edges) carry traffic in one direction at a time - dead-end segments one
+ * vehicle at a time - and every vehicle keeps a following distance to
+ * whatever is ahead of it, pedestrians included; pedestrians and pallets
+ * in turn give way to forklifts in their path, unless the forklift has
+ * stopped for other traffic itself. Forklifts that are not controlled
+ * (real tags in hybrid mode) cannot be asked to wait, so any junction one
+ * of them is in is closed to the rest.
+ */
+export class TrafficManager {
+  private laneNavigator: LaneNavigator;
+  private junctionHolders: Map<string, string> = new Map();   // node id -> vehicle id
+  private segments: Map<string, SegmentOccupancy> = new Map(); // segment key -> occupancy
+  private vehicleSegments: Map<string, string> = new Map();   // vehicle id -> segment key
+  private waitingSince: Map<string, number> = new Map();
+  private positions = new SpatialIndex<TrafficParticipant>(LOOKAHEAD);
+
+  constructor(laneNavigator: LaneNavigator) {
+    this.laneNavigator = laneNavigator;
+  }
+
+  /**
+   * Whether a vehicle may drive along a lane from `from` to the graph node
+   * at `to`: the segment must be empty or carry traffic the same way, and
+   * dead-end segments must be empty. With `allowReverse` a vehicle may turn
+   * around on the segment it is already on, whoever else is there.
+   */
+  public canEnter(
+    vehicleId: string,
+    laneId: string,
+    from: LanePoint,
+    to: LanePoint,
+    allowReverse = false
+  ): boolean {
+    const segment = this.segmentFor(laneId, from, to);
+    if (!segment) return true;
+    if (allowReverse && this.vehicleSegments.get(vehicleId) === segment.key) return true;
+
+    const occupancy = this.segments.get(segment.key);
+    if (!occupancy) return true;
+
+    const others = Array.from(occupancy.vehicles).filter(id => id !== vehicleId);
+    if (others.length === 0) return true;
+    return occupancy.toward === segment.toward && !occupancy.deadEnd;
+  }
+
+  /**
+   * Record that a vehicle now drives along a lane towards the node at `to`
+   */
+  public enter(vehicleId: string, laneId: string, from: LanePoint, to: LanePoint): void {
+    this.leaveSegment(vehicleId);
+
+    const segment = this.segmentFor(laneId, from, to);
+    if (!segment) return;
+
+    const occupancy = this.segments.get(segment.key);
+    if (occupancy && occupancy.vehicles.size > 0) {
+      occupancy.vehicles.add(vehicleId);
+    } else {
+      this.segments.set(segment.key, {
+        toward: segment.toward,
+        deadEnd: segment.deadEnd,
+        vehicles: new Set([vehicleId])
+      });
+    }
+    this.vehicleSegments.set(vehicleId, segment.key);
+  }
+
+  /**
+   * Drop every reservation a vehicle holds
+   */
+  public release(vehicleId: string): void {
+    this.leaveSegment(vehicleId);
+    for (const [nodeId, holder] of this.junctionHolders) {
+      if (holder === vehicleId) this.junctionHolders.delete(nodeId);
+    }
+    this.waitingSince.delete(vehicleId);
+  }
+
+  /**
+   * Work out how fast each vehicle may go this tick. `vehicles` are
+   * controlled; `others` (e.g. pedestrians, real forklifts) are only kept
+   * clear of.
+   */
+  public plan(vehicles: TrafficParticipant[], others: TrafficParticipant[], now: number): TrafficPlan {
+    const speedLimits = new Map<string, number>();
+    const stuck: string[] = [];
+    this.positions.rebuild([...vehicles, ...others], participant => participant.id);
+    const occupied = this.occupiedJunctions(others);
+    const controlled = new Set(vehicles.map(vehicle => vehicle.id));
+    const heldUp = new Set<string>();   // vehicles stopped for other traffic
+
+    this.releasePassedJunctions(vehicles);
+
+    // Earlier arrivals get the junction first, so serve vehicles by distance
+    const byDistance = [...vehicles].sort((a, b) => this.distanceToTarget(a) - this.distanceToTarget(b));
+
+    for (const vehicle of byDistance) {
+      let limit = this.followingLimit(vehicle, (id, facing, ahead) =>
+        facing && controlled.has(id) && ahead.target !== undefined
+      );
+
+      const junction = vehicle.target ? this.junctionAt(vehicle.target) : undefined;
+      const distance = this.distanceToTarget(vehicle);
+      if (junction && distance < APPROACH_DISTANCE) {
+        const holder = this.junctionHolders.get(junction.id);
+        if (occupied.has(junction.id) && holder !== vehicle.id) {
+          // An uncontrolled forklift is in it; a vehicle already holding it carries on through
+          limit = Math.min(limit, Math.max(0, distance - STOP_DISTANCE) * BRAKING_GAIN);
+        } else if (limit < STATIONARY_SPEED && distance > CLEAR_DISTANCE) {
+          // Held up before the junction anyway - leave it to cross traffic
+          if (holder === vehicle.id) this.junctionHolders.delete(junction.id);
+        } else if (!holder || holder === vehicle.id) {
+          this.junctionHolders.set(junction.id, vehicle.id);
+        } else {
+          limit = Math.min(limit, Math.max(0, distance - STOP_DISTANCE) * BRAKING_GAIN);
+        }
+      }
+
+      speedLimits.set(vehicle.id, limit);
+      if (vehicle.target && limit < STATIONARY_SPEED) heldUp.add(vehicle.id);
+
+      // A vehicle held up by traffic, or with nowhere to go, is waiting
+      const waiting = limit < STATIONARY_SPEED || !vehicle.target;
+      if (!waiting) {
+        this.waitingSince.delete(vehicle.id);
+      } else if (!this.waitingSince.has(vehicle.id)) {
+        this.waitingSince.set(vehicle.id, now);
+      } else if (now - this.waitingSince.get(vehicle.id)! > MAX_WAIT_MS) {
+        stuck.push(vehicle.id);
+        this.waitingSince.set(vehicle.id, now);
+      }
+    }
+
+    // Pedestrians and pallets give way to forklifts in their path - except
+    // to one stopped for other traffic, or they could end up waiting for
+    // each other
+    for (const other of others) {
+      const limit = this.followingLimit(other, (id, _facing, ahead) =>
+        ahead.type !== 'forklift' || heldUp.has(id)
+      );
+      if (limit < Infinity) speedLimits.set(other.id, limit);
+    }
+
+    return { speedLimits, stuck };
+  }
+
+  /**
+   * Speed that keeps the following distance to the nearest entity ahead in
+   * the mover's corridor, leaving out those `ignore` picks. Vehicles ignore
+   * controlled vehicles driving towards them, moving or not - one-way
+   * segments keep them from meeting head-on, and two that meet anyway when
+   * backing out of a deadlock must get past each other - but pedestrians,
+   * pallets and real forklifts reserve nothing, so the gap to anything
+   * oncoming is shortened by how far it closes before the mover can stop.
+   */
+  private followingLimit(
+    vehicle: TrafficParticipant,
+    ignore: (id: string, facing: boolean, ahead: TrafficParticipant) => boolean
+  ): number {
+    const dirX = Math.cos(vehicle.direction);
+    const dirY = Math.sin(vehicle.direction);
+    let nearestGap = Infinity;
+
+    for (const { id, item: other } of this.positions.queryRadius(vehicle, LOOKAHEAD)) {
+      if (id === vehicle.id) continue;
+
+      const dx = other.x - vehicle.x;
+      const dy = other.y - vehicle.y;
+      const ahead = dx * dirX + dy * dirY;
+      const lateral = Math.abs(dx * dirY - dy * dirX);
+      if (ahead <= 0 || ahead > LOOKAHEAD || lateral > CORRIDOR_HALF_WIDTH) continue;
+
+      const alignment = Math.cos(other.direction - vehicle.direction);
+      if (ignore(id, alignment <= 0, other)) continue;
+
+      const oncoming = other.speed >= STATIONARY_SPEED && alignment <= 0;
+      const closing = oncoming ? -alignment * other.speed / BRAKING_GAIN : 0;
+      nearestGap = Math.min(nearestGap, ahead - closing);
+    }
+
+    return nearestGap === Infinity
+      ? Infinity
+      : Math.max(0, nearestGap - FOLLOWING_DISTANCE) * BRAKING_GAIN;
+  }
+
+  // Junctions with an uncontrolled forklift in them
+  private occupiedJunctions(others: TrafficParticipant[]): Set<string> {
+    const occupied = new Set<string>();
+    for (const other of others) {
+      if (other.type !== 'forklift') continue;
+      for (const node of this.laneNavigator.getGraph().nodes.values()) {
+        if (node.laneIds.length > 1 && this.distance(other, node) <= CLEAR_DISTANCE) occupied.add(node.id);
+      }
+    }
+    return occupied;
+  }
+
+  private releasePassedJunctions(vehicles: TrafficParticipant[]): void {
+    const positions = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+
+    for (const [nodeId, holder] of this.junctionHolders) {
+      const vehicle = positions.get(holder);
+      const node = this.laneNavigator.getGraph().nodes.get(nodeId);
+      if (!vehicle || !node) {
+        this.junctionHolders.delete(nodeId);
+        continue;
+      }
+
+      const headingThere = vehicle.target && this.distance(vehicle.target, node) <= NODE_TOLERANCE;
+      if (!headingThere && this.distance(vehicle, node) > CLEAR_DISTANCE) {
+        this.junctionHolders.delete(nodeId);
+      }
+    }
+  }
+
+  private leaveSegment(vehicleId: string): void {
+    const key = this.vehicleSegments.get(vehicleId);
+    if (!key) return;
+
+    const occupancy = this.segments.get(key);
+    occupancy?.vehicles.delete(vehicleId);
+    if (occupancy && occupancy.vehicles.size === 0) this.segments.delete(key);
+    this.vehicleSegments.delete(vehicleId);
+  }
+
+  /**
+   * The graph edge of a lane that ends at `to` and passes through `from`
+   */
+  private segmentFor(laneId: string, from: LanePoint, to: LanePoint): {
+    key: string;
+    toward: string;
+    deadEnd: boolean;
+  } | null {
+    const graph = this.laneNavigator.getGraph();
+
+    for (const edge of graph.edges) {
+      if (edge.laneId !== laneId) continue;
+      const end = graph.nodes.get(edge.to);
+      const start = graph.nodes.get(edge.from);
+      if (!end || !start || this.distance(end, to) > NODE_TOLERANCE) continue;
+      if (this.distanceToEdge(from, edge) > NODE_TOLERANCE) continue;
+
+      // Keyed by node pair: lanes drawn on top of each other share the space
+      return {
+        key: [edge.from, edge.to].sort().join('|'),
+        toward: edge.to,
+        deadEnd: this.isDeadEnd(start) || this.isDeadEnd(end)
+      };
+    }
+    return null;
+  }
+
+  // Lane ends that touch no other lane
+  private isDeadEnd(node: LaneGraphNode): boolean {
+    return node.laneIds.length === 1;
+  }
+
+  private junctionAt(point: LanePoint): LaneGraphNode | undefined {
+    for (const node of this.laneNavigator.getGraph().nodes.values()) {
+      if (node.laneIds.length > 1 && this.distance(node, point) <= NODE_TOLERANCE) return node;
+    }
+    return undefined;
+  }
+
+  private distanceToTarget(vehicle: TrafficParticipant): number {
+    return vehicle.target ? this.distance(vehicle, vehicle.target) : Infinity;
+  }
+
+  private distanceToEdge(point: LanePoint, edge: LaneGraphEdge): number {
+    let best = Infinity;
+    for (let i = 0; i < edge.points.length - 1; i++) {
+      const a = edge.points[i]!;
+      const b = edge.points[i + 1]!;
+      const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1,
+        ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSq
+      ));
+      best = Math.min(best, this.distance(point, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) }));
+    }
+    return best;
+  }
+
+  private distance(p1: LanePoint, p2: LanePoint): number {
+    return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+  }
+}
@@ -10,18 +10,45 @@ export interface PositionTick {
   heading: number;                 // radians
   zoneId?: string;                 // current zone/area
   confidence?: number;             // 0..1 (UWB accuracy)
+  site?: string;                   // site the tag reports from (MQTT topic), if known
+  raw?: RawReading;                // the reading as the tag sent it, where the position is filtered
+  lane?: LaneMatch;                // the lane a live tag is matched to, if any
   t: number;                       // epoch milliseconds
 }
 
+// Where a live position lies on the lane network - see lane-matcher.ts
+export interface LaneMatch {
+  laneId: string;
+  progress: number;                // 0..1 along the lane, per segment like LaneNavigator
+  x: number;                       // matched position on the lane centreline
+  y: number;
+  distance: number;                // meters from the reported position
+}
+
+// A live reading before tracking - speed and heading only if the tag sent them
+export interface RawReading {
+  x: number;
+  y: number;
+  speed?: number;
+  heading?: number;
+}
+
 export interface DTEvent {
-  id: string;                      // unique event ID
+  id: string;                      // unique event ID (kept for the life of an incident)
   t: number;                       // epoch milliseconds
-  type: "congestion" | "blocked" | "nearCollision" | "dwellExceeded" | "zoneBreach" | "reroute";
+  type: "congestion" | "blocked" | "nearCollision" | "dwellExceeded" | "zoneBreach" | "reroute" | "speeding" | "collisionWarning";
   assetIds?: string[];             // entities involved
   zoneId?: string;                 // affected zone
   payload?: Record<string, any>;   // additional event data
+  state?: EventState;              // lifecycle of ongoing incidents (absent for one-off events)
+  startedAt?: number;              // epoch ms the incident opened
+  endedAt?: number;                // epoch ms the condition last held (close only)
+  durationMs?: number;             // endedAt - startedAt (close only)
 }
 
+export type EventState = "open" | "update" | "close";
+export type EventSeverity = "low" | "medium" | "high";
+
 // Lane network definition
 export interface LanePoint {
   x: number;
@@ -32,11 +59,60 @@ export interface Lane {
   id: string;
   points: LanePoint[];
   width?: number;                  // lane width in meters (default 2.0)
+  type?: string;                   // "main-aisle" | "rack-connector" | "loading-zone"
+  direction?: "oneway" | "twoway"; // oneway lanes run from first to last point (default twoway)
+  maxSpeed?: number;               // speed limit in m/s (default none)
+  maxSpeedByType?: SpeedLimitsByType; // stricter limits for some entity types
+  allowedTypes?: Array<PositionTick["type"]>; // entity types allowed on the lane (default all)
+}
+
+export type SpeedLimitsByType = Partial<Record<PositionTick["type"], number>>; // m/s
+
+// Documents where lanes meet; the graph itself finds junctions from the geometry
+export interface LaneConnection {
+  from: string;                    // lane id
+  to: string;                      // lane id
+  via?: LanePoint[];               // junction points
 }
 
 export interface LaneNetwork {
   units: "px" | "meters";          // coordinate system
   lanes: Lane[];
+  connections?: LaneConnection[];
+}
+
+// Zone definitions - ids and types match the dashboard's warehouse layout
+export type ZoneType = "STORAGE" | "COLD_STORAGE" | "LOADING" | "UNLOADING" | "AISLE" | "RESTRICTED";
+
+export interface Zone {
+  id: string;                      // "storage-a" | "cold-storage-1" | "hygiene-zone"
+  name: string;
+  type: ZoneType;
+  polygon: LanePoint[];            // outline, at least 3 points
+  restricted?: boolean;            // access is controlled (default false)
+  temperature?: number;            // degrees C, for cold storage
+  maxSpeed?: number;               // speed limit in m/s (default none)
+  maxSpeedByType?: SpeedLimitsByType; // stricter limits for some entity types
+  maxDwellMs?: number;             // longest allowed stay (default unlimited)
+  maxStationaryMs?: number;        // overrides stationaryDwellMs inside the zone
+}
+
+// Who may be in a zone, and when. Without `requiresZoneId` the rule bans
+// the listed entity types outright while it is in force.
+export interface ZoneAccessRule {
+  id: string;                      // named in the zoneBreach event
+  description?: string;
+  zoneIds: string[];               // zones the rule covers
+  entityTypes?: Array<PositionTick["type"]>; // who it applies to (default all)
+  activeHours?: { from: string; to: string }; // "HH:MM" local time, may wrap midnight (default always)
+  requiresZoneId?: string;         // entry allowed only after passing through this zone...
+  requiresWithinMs?: number;       // ...at most this long before entering (default any time)
+}
+
+export interface ZoneMap {
+  units: "px" | "meters";          // must match the lane network
+  zones: Zone[];                   // first match wins where zones overlap
+  accessRules?: ZoneAccessRule[];
 }
 
 // Entity state for simulation
@@ -50,6 +126,7 @@ export interface EntityState {
   targetSpeed: number;             // desired speed
   currentLaneId?: string;          // which lane we're on
   laneProgress: number;            // progress along current lane (0-1)
+  laneDirection?: 1 | -1;          // travelling towards the lane's end (1, the default) or its start
   nextLaneId?: string;             // next lane in route
   route: string[];                 // planned lane sequence
   routeIndex: number;              // current position in route
@@ -65,6 +142,7 @@ export interface SimulatorConfig {
   mqttUrl?: string;
   tickMs: number;
   simSpeed: number;
+  seed?: number;                   // fixed seed for reproducible runs
   
   // Entity counts
   forkliftCount: number;
@@ -80,4 +158,99 @@ export interface SimulatorConfig {
   eventProbability: number;        // chance per tick to generate event
   congestionThreshold: number;     // entities per lane segment
   collisionRadius: number;         // meters
+  stationaryDwellMs: number;       // standing still this long raises dwellExceeded
+  speedLimits: Record<PositionTick["type"], number>; // m/s anywhere, before lane and zone limits
+  speedingSustainMs: number;       // how long a limit must be exceeded to count as speeding
+}
+
+// Telemetry persistence
+export interface StorageConfig {
+  driver: "ndjson" | "memory";     // ndjson = segmented append-only files on disk
+  dataDir: string;                 // directory holding segment files
+  segmentDurationMs: number;       // start a new segment after this long
+  maxSegmentBytes: number;         // ...or once a segment grows past this size
+  retentionMs: number;             // drop segments older than this
+  maxTotalBytes: number;           // drop oldest segments beyond this total size
+  flushIntervalMs: number;         // how often buffered writes hit the disk
+  memoryBufferSize: number;        // ticks kept by the in-memory driver
+}
+
+export interface MqttConfig {
+  url: string;                     // broker URL
+  topic: string;                   // comma-separated topic templates carrying tag positions
+  decodersFile: string;            // payload decoder per topic, JSON
+  qos: 0 | 1 | 2;                  // for templates that do not give their own
+  clientId?: string;               // a fresh id per start when unset
+  cleanSession: boolean;           // false resumes the broker session (needs clientId)
+  username?: string;
+  password?: string;
+  tls: {
+    caFile?: string;               // PEM CA bundle for a private broker
+    certFile?: string;             // PEM client certificate...
+    keyFile?: string;              // ...and its key, for mutual TLS
+    rejectUnauthorized: boolean;   // false accepts any broker certificate
+  };
+  will: {
+    topic?: string;                // status topic; no last will when unset
+    payload: string;               // published by the broker if the service drops off
+    qos: 0 | 1 | 2;
+    retain: boolean;
+  };
+}
+
+// Per-tag filtering of live positions - see tag-tracker.ts
+export interface TrackingConfig {
+  enabled: boolean;
+  accelerationNoise: number;       // m/s², how sharply tags are expected to change velocity
+  maxSpeed: number;                // m/s, readings needing more than this to reach are rejected
+}
+
+// Matching live positions onto lanes - see lane-matcher.ts
+export interface MapMatchingConfig {
+  enabled: boolean;
+  searchRadius: number;            // meters, lanes further than this from a reading are not candidates
+  positionSigma: number;           // meters, how far readings stray from the lane they are on
+}
+
+// UWB anchors - fixed ranging beacons, for tags that publish raw ranges
+export interface Anchor {
+  id: string;                      // as tags name it in their range reports
+  x: number;                       // meters, in the lane network's frame
+  y: number;
+  z?: number;                      // mounting height (default 0)
+}
+
+export interface AnchorMap {
+  units: "meters";
+  tagHeight?: number;              // height tags are worn at, for anchors mounted higher (default 0)
+  minAnchors?: number;             // fewer ranges than this are rejected (default 3)
+  maxGdop?: number;                // worse anchor geometry than this is rejected (default 8)
+  anchors: Anchor[];
+}
+
+// MQTT payload decoders - see decoder-registry.ts
+export type PayloadFormat = "auto" | "json" | "csv" | "binary" | "pozyx" | "ranges";
+
+export interface DecoderRule {
+  topic: string;                   // topic filter or template the rule applies to
+  format: PayloadFormat;
+  columns?: string[];              // csv: field per column ("" skips one)
+  fields?: Record<string, string>; // json: payload key per field, where not the default
+}
+
+export interface DecoderMap {
+  decoders: DecoderRule[];         // first matching rule wins; unmatched topics use "auto"
+}
+
+// Full service configuration - see config.ts for how it is loaded
+export interface ServiceConfig {
+  httpPort: number;
+  lanesFile: string;               // lane network JSON
+  zonesFile: string;               // zone polygons JSON
+  anchorsFile: string;             // UWB anchor positions JSON
+  simulator: SimulatorConfig;      // also carries wsPort and useSimulation
+  mqtt: MqttConfig;
+  tracking: TrackingConfig;
+  mapMatching: MapMatchingConfig;
+  storage: StorageConfig;
 }
@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WarehouseSimulator } from './warehouse-simulator';
+import { LaneNavigator } from './lane-navigator';
+import { VirtualClock } from './clock';
+import { createSeededRandom } from './random';
+import { PositionTick, SimulatorConfig } from './types';
+
+const LANES = JSON.parse(fs.readFileSync(path.join(__dirname, '../config/lanes.json'), 'utf8'));
+const T0 = 1_700_000_000_000;
+const TICK_MS = 200;
+
+const CONFIG: SimulatorConfig = {
+  wsPort: 0,
+  useSimulation: true,
+  tickMs: TICK_MS,
+  simSpeed: 1,
+  seed: 7,
+  forkliftCount: 2,
+  palletCount: 0,
+  workerCount: 1,
+  forkliftSpeedRange: [1.0, 2.5],
+  palletSpeedRange: [0.5, 1.8],
+  workerSpeedRange: [0.3, 1.5],
+  eventProbability: 0,
+  congestionThreshold: 3,
+  collisionRadius: 1.5,
+  stationaryDwellMs: 5 * 60 * 1000,
+  speedLimits: { forklift: 3.0, pallet: 2.0, worker: 2.5 },
+  speedingSustainMs: 2000
+};
+
+function simulation(config = CONFIG) {
+  const random = createSeededRandom(config.seed!);
+  const clock = new VirtualClock(T0);
+  const simulator = new WarehouseSimulator(config, new LaneNavigator(LANES, random), { random, clock });
+  const step = (): PositionTick[] => {
+    clock.advance(TICK_MS);
+    return simulator.step().positions;
+  };
+  return { simulator, clock, step };
+}
+
+function realTag(id: string, type: PositionTick['type'], at: { x: number; y: number }, t: number): PositionTick {
+  return { id, type, x: at.x, y: at.y, speed: 0, heading: 0, zoneId: 'unknown', t };
+}
+
+const byId = (positions: PositionTick[], id: string) => positions.find(position => position.id === id);
+
+describe('WarehouseSimulator lane movement', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('carries pallets and workers on from the end of one lane without jumping', () => {
+    const { step } = simulation({ ...CONFIG, forkliftCount: 0, palletCount: 3, workerCount: 3 });
+    let previous = step();
+
+    // Ten minutes is long enough for every one of them to reach a lane end
+    for (let i = 0; i < 3000; i++) {
+      const positions = step();
+      for (const position of positions) {
+        const last = byId(previous, position.id)!;
+        const limit = CONFIG.speedLimits[position.type] * (TICK_MS / 1000);
+        expect(Math.hypot(position.x - last.x, position.y - last.y)).toBeLessThanOrEqual(limit);
+      }
+      previous = positions;
+    }
+  });
+});
+
+describe('WarehouseSimulator in hybrid mode', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves real tags out of its own positions', () => {
+    const { simulator, clock, step } = simulation();
+    simulator.updateExternal([realTag('tag-42', 'worker', { x: 30, y: 11.2 }, clock.now())]);
+
+    expect(step().map(position => position.id).sort()).toEqual(['forklift-1', 'forklift-2', 'worker-3']);
+  });
+
+  it('has its vehicles give way to a real tag in their path', () => {
+    const free = simulation();
+    const blocked = simulation();
+    const previous = byId(free.step(), 'forklift-1')!;
+    const start = byId(free.step(), 'forklift-1')!;
+    blocked.step();
+    blocked.step();
+
+    // A real worker standing just ahead of the forklift; the reported
+    // heading is smoothed, so take the direction it actually moved in
+    const direction = Math.atan2(start.y - previous.y, start.x - previous.x);
+    const ahead = { x: start.x + 2.5 * Math.cos(direction), y: start.y + 2.5 * Math.sin(direction) };
+
+    let freeEnd = start;
+    let blockedEnd = start;
+    for (let i = 0; i < 10; i++) {
+      blocked.simulator.updateExternal([realTag('tag-42', 'worker', ahead, blocked.clock.now())]);
+      freeEnd = byId(free.step(), 'forklift-1')!;
+      blockedEnd = byId(blocked.step(), 'forklift-1')!;
+    }
+
+    const travelled = (end: PositionTick) => Math.hypot(end.x - start.x, end.y - start.y);
+    expect(travelled(blockedEnd)).toBeLessThan(travelled(freeEnd));
+    expect(Math.hypot(blockedEnd.x - ahead.x, blockedEnd.y - ahead.y)).toBeGreaterThan(CONFIG.collisionRadius);
+  });
+
+  describe('a real tag with a simulated entity\'s id', () => {
+    it('suspends the simulated entity while the tag reports', () => {
+      const { simulator, clock, step } = simulation();
+      step();
+
+      for (let i = 0; i < 20; i++) {
+        simulator.updateExternal([realTag('forklift-1', 'forklift', { x: 40, y: 11.2 }, clock.now())]);
+        const positions = step();
+        expect(byId(positions, 'forklift-1')).toBeUndefined();
+        expect(byId(positions, 'forklift-2')).toBeDefined();
+      }
+    });
+
+    it('restores the entity where the tag was last seen once it goes stale', () => {
+      const { simulator, clock, step } = simulation();
+      step();
+      simulator.updateExternal([realTag('forklift-1', 'forklift', { x: 40, y: 11.2 }, clock.now())]);
+
+      // Quiet for just under the stale window, then past it
+      for (let elapsed = TICK_MS; elapsed <= 5000; elapsed += TICK_MS) {
+        expect(byId(step(), 'forklift-1')).toBeUndefined();
+      }
+      const resumed = byId(step(), 'forklift-1')!;
+
+      expect(resumed).toBeDefined();
+      const moved = Math.hypot(resumed.x - 40, resumed.y - 11.2);
+      expect(moved).toBeLessThanOrEqual(CONFIG.forkliftSpeedRange[1] * TICK_MS / 1000 + 1e-6);
+    });
+
+    it('restores a forklift onto a lane, where the tag was matched', () => {
+      const { simulator, clock, step } = simulation();
+      step();
+      const off = realTag('forklift-1', 'forklift', { x: 30, y: 11.9 }, clock.now());
+      simulator.updateExternal([{ ...off, lane: { laneId: 'main-aisle', progress: 0.59, x: 30, y: 11.2, distance: 0.7 } }]);
+      step();
+
+      simulator.clearExternal();
+      const resumed = byId(step(), 'forklift-1')!;
+      expect(Math.abs(resumed.y - 11.2)).toBeLessThan(1e-6);
+      expect(Math.abs(resumed.x - 30)).toBeLessThanOrEqual(CONFIG.forkliftSpeedRange[1] * TICK_MS / 1000 + 1e-6);
+    });
+
+    it('does not restore a forklift head-on into a segment another forklift holds', () => {
+      const { simulator, clock, step } = simulation();
+      step();
+      const previous = byId(step(), 'forklift-2')!;
+      const start = byId(step(), 'forklift-2')!;
+
+      // The tag stands in for forklift-1 just ahead of forklift-2, on the
+      // segment forklift-2 has reserved
+      const direction = Math.atan2(start.y - previous.y, start.x - previous.x);
+      const ahead = { x: start.x + 3 * Math.cos(direction), y: start.y + 3 * Math.sin(direction) };
+      simulator.updateExternal([realTag('forklift-1', 'forklift', ahead, clock.now())]);
+      step();
+      simulator.clearExternal();
+
+      for (let i = 0; i < 50; i++) {
+        const positions = step();
+        const first = byId(positions, 'forklift-1')!;
+        const second = byId(positions, 'forklift-2')!;
+        expect(Math.hypot(first.x - second.x, first.y - second.y)).toBeGreaterThan(CONFIG.collisionRadius);
+      }
+    });
+
+    it('restores the entity when the real tags are cleared', () => {
+      const { simulator, clock, step } = simulation();
+      step();
+      simulator.updateExternal([realTag('forklift-1', 'forklift', { x: 40, y: 11.2 }, clock.now())]);
+      expect(byId(step(), 'forklift-1')).toBeUndefined();
+
+      simulator.clearExternal();
+      expect(step().map(position => position.id).sort()).toEqual(['forklift-1', 'forklift-2', 'worker-3']);
+    });
+  });
+});
@@ -1,7 +1,24 @@
-import { PositionTick, DTEvent, EntityState, SimulatorConfig } from './types';
+import { PositionTick, DTEvent, EntityState, SimulatorConfig, LanePoint } from './types';
 import { LaneNavigator } from './lane-navigator';
+import { TrafficManager, TrafficParticipant } from './traffic-manager';
+import { ZoneRegistry } from './zone-registry';
+import { RandomFn } from './random';
+import { Clock, systemClock } from './clock';
 import { v4 as uuidv4 } from 'uuid';
 
+// Injectable sources of randomness and time - seeded runs pass their own
+export interface SimulatorOptions {
+  random?: RandomFn;
+  clock?: Clock;
+  generateId?: () => string;
+  zones?: ZoneRegistry;            // without zones every entity is in 'unknown'
+}
+
+const LANE_TOLERANCE = 0.1;      // max distance from a lane centerline (meters)
+const JUNCTION_TOLERANCE = 0.5;  // lanes this close count as passing through a point
+const EXTERNAL_STALE_MS = 5000;  // real tags not heard from for this long leave the traffic plan
+const REROUTE_MEMORY_MS = 60000; // a stuck forklift does not reroute between the same two targets more often
+
 export class WarehouseSimulator {
   private config: SimulatorConfig;
   private laneNavigator: LaneNavigator;
@@ -9,10 +26,24 @@ export class WarehouseSimulator {
   private running = false;
   private intervalId?: NodeJS.Timeout;
   private logCounter = 0;
-
-  constructor(config: SimulatorConfig, laneNavigator: LaneNavigator) {
+  private random: RandomFn;
+  private clock: Clock;
+  private generateId: () => string;
+  private zones?: ZoneRegistry;
+  private traffic: TrafficManager;
+  private speedLimits: Map<string, number> = new Map(); // traffic limits for this tick
+  private reroutes: Map<string, { from: LanePoint; to: LanePoint; t: number }> = new Map(); // last reroute of each forklift
+  private external: Map<string, { tick: PositionTick; receivedAt: number }> = new Map(); // real tags, hybrid mode
+  private suspended: Map<string, EntityState> = new Map(); // simulated entities a real tag stands in for
+
+  constructor(config: SimulatorConfig, laneNavigator: LaneNavigator, options: SimulatorOptions = {}) {
     this.config = config;
     this.laneNavigator = laneNavigator;
+    this.random = options.random ?? Math.random;
+    this.clock = options.clock ?? systemClock;
+    this.generateId = options.generateId ?? (() => uuidv4());
+    this.zones = options.zones;
+    this.traffic = new TrafficManager(laneNavigator);
     this.initializeEntities();
   }
 
@@ -27,43 +58,24 @@ export class WarehouseSimulator {
 
     let entityCounter = 1;
 
-    // Create forklifts positioned on valid grid points (mainly on the middle horizontal line)
+    // Create forklifts on lane junctions, so they can head off along any lane
+    const spawnPoints = this.laneNavigator.getJunctionPoints();
+
     for (let i = 0; i < this.config.forkliftCount; i++) {
-      // Define grid positions for forklifts to start on - ONLY on the middle horizontal line and vertical connectors
-      const gridStartPositions = [
-        // Middle horizontal line (main forklift route)
-        { x: 12.5, y: 11.2 },
-        { x: 18.9, y: 11.2 },
-        { x: 25.3, y: 11.2 },
-        { x: 31.7, y: 11.2 },
-        { x: 38.1, y: 11.2 },
-        // Some vertical positions for variety (intersections)
-        { x: 12.5, y: 8.6 },
-        { x: 25.3, y: 13.8 },
-        { x: 31.7, y: 9.4 },
-        { x: 18.9, y: 14.2 }
-      ];
-      
-      // Choose a starting position for this forklift (with safe index)
-      const posIndex = i % gridStartPositions.length;
-      const startingPoint = gridStartPositions[posIndex];
+      const startingPoint = spawnPoints[i % spawnPoints.length];
       const speed = this.randomSpeed(this.config.forkliftSpeedRange);
       
-      // Safety check (should never happen with the fixed array above)
       if (!startingPoint) {
-        console.error(`Failed to get starting position for forklift ${i}`);
+        console.error(`No lane junctions to start forklift ${i} on`);
         continue;
       }
       
-      // Get heading based on position - horizontal line goes left/right, vertical lines go up/down
-      let heading = 0;
-      if (Math.abs(startingPoint.y - 11.2) < 0.1) {
-        // On horizontal line, alternate left/right
-        heading = i % 2 === 0 ? 0 : 180;
-      } else {
-        // On vertical line, alternate up/down
-        heading = i % 2 === 0 ? 90 : 270;
-      }
+      // Face along the lane, alternating direction between forklifts
+      const lane = this.laneNavigator.lanesAt(startingPoint, LANE_TOLERANCE)[0];
+      const laneHeading = lane
+        ? this.laneNavigator.pointAlongLane(lane.laneId, lane.progress, 0).heading * (180 / Math.PI)
+        : 0;
+      const heading = i % 2 === 0 ? laneHeading : laneHeading + 180;
 
       const entity: EntityState = {
         id: `forklift-${entityCounter++}`,
@@ -73,20 +85,21 @@ export class WarehouseSimulator {
         speed: speed,
         heading: heading,
         targetSpeed: speed,
-        currentLaneId: 'grid', // Special marker for grid-based movement
-        laneProgress: 0,
-        route: [], // Not using lane-based routes for forklifts
+        currentLaneId: lane?.laneId,
+        laneProgress: lane?.progress ?? 0,
+        route: [], // Forklifts pick targets along lanes instead of lane routes
         routeIndex: 0,
-        lastEventTime: Date.now() - (i * 2000), // Stagger start times
-        zoneId: this.getZoneFromPosition(startingPoint.x, startingPoint.y) || 'unknown'
+        lastEventTime: this.clock.now() - (i * 2000), // Stagger start times
+        zoneId: this.zoneIdAt(startingPoint)
       };
 
       this.entities.set(entity.id, entity);
     }
 
     // Create pallets
+    const palletLanes = this.usableLanes('pallet');
     for (let i = 0; i < this.config.palletCount; i++) {
-      const lane = allLanes[Math.floor(Math.random() * allLanes.length)];
+      const lane = palletLanes[Math.floor(this.random() * palletLanes.length)];
       if (!lane) continue;
 
       const entity: EntityState = {
@@ -98,19 +111,20 @@ export class WarehouseSimulator {
         heading: 0,
         targetSpeed: this.randomSpeed(this.config.palletSpeedRange),
         currentLaneId: lane.id,
-        laneProgress: Math.random() * 0.5, // Start partway along lane
-        route: this.laneNavigator.generateRandomRoute(lane.id, 3),
+        laneProgress: this.random() * 0.5, // Start partway along lane
+        route: this.laneNavigator.generateRandomRoute(lane.id, 3, 'pallet'),
         routeIndex: 0,
-        lastEventTime: Date.now(),
-        zoneId: this.getZoneFromPosition(lane.points[0]?.x || 0, lane.points[0]?.y || 0) || 'unknown'
+        lastEventTime: this.clock.now(),
+        zoneId: this.zoneIdAt(lane.points[0] ?? { x: 0, y: 0 })
       };
 
       this.entities.set(entity.id, entity);
     }
 
     // Create workers
+    const workerLanes = this.usableLanes('worker');
     for (let i = 0; i < this.config.workerCount; i++) {
-      const lane = allLanes[Math.floor(Math.random() * allLanes.length)];
+      const lane = workerLanes[Math.floor(this.random() * workerLanes.length)];
       if (!lane) continue;
 
       const entity: EntityState = {
@@ -122,11 +136,11 @@ export class WarehouseSimulator {
         heading: 0,
         targetSpeed: this.randomSpeed(this.config.workerSpeedRange),
         currentLaneId: lane.id,
-        laneProgress: Math.random() * 0.3,
-        route: this.laneNavigator.generateRandomRoute(lane.id, 4),
+        laneProgress: this.random() * 0.3,
+        route: this.laneNavigator.generateRandomRoute(lane.id, 4, 'worker'),
         routeIndex: 0,
-        lastEventTime: Date.now(),
-        zoneId: this.getZoneFromPosition(lane.points[0]?.x || 0, lane.points[0]?.y || 0) || 'unknown'
+        lastEventTime: this.clock.now(),
+        zoneId: this.zoneIdAt(lane.points[0] ?? { x: 0, y: 0 })
       };
 
       this.entities.set(entity.id, entity);
@@ -148,39 +162,7 @@ export class WarehouseSimulator {
     console.log('Starting warehouse simulation...');
 
     this.intervalId = setInterval(() => {
-      const deltaTime = (this.config.tickMs / 1000) * this.config.simSpeed;
-      
-      // Update all entities
-      const positions: PositionTick[] = [];
-      const events: DTEvent[] = [];
-
-      for (const entity of this.entities.values()) {
-        this.updateEntity(entity, deltaTime);
-        
-        // Create position tick
-        positions.push({
-          id: entity.id,
-          type: entity.type,
-          x: entity.x,
-          y: entity.y,
-          speed: entity.speed,
-          heading: entity.heading,
-          zoneId: entity.zoneId || 'unknown',
-          confidence: 0.90 + Math.random() * 0.1, // Simulate UWB accuracy
-          t: Date.now()
-        });
-
-        // Generate events occasionally
-        if (Math.random() < this.config.eventProbability) {
-          const event = this.generateRandomEvent(entity);
-          if (event) {
-            events.push(event);
-          }
-        }
-      }
-
-      // Check for proximity-based events
-      events.push(...this.checkProximityEvents());
+      const { positions, events } = this.step();
 
       // Send updates
       onPositionUpdate(positions);
@@ -199,6 +181,63 @@ export class WarehouseSimulator {
     }, this.config.tickMs);
   }
 
+  /**
+   * Advance the simulation by one tick of simulated time. Timestamps come
+   * from the injected clock, so a virtual clock advanced by the caller keeps
+   * them consistent with simulated time (see batch-run.ts)
+   */
+  public step(): { positions: PositionTick[]; events: DTEvent[] } {
+    const deltaTime = this.tickSeconds();
+    
+    // Update all entities
+    const positions: PositionTick[] = [];
+    const events: DTEvent[] = [];
+
+    // Traffic control decides how fast each vehicle may go this tick, and
+    // vehicles stuck behind a deadlock back out
+    const plan = this.planTraffic();
+    this.speedLimits = plan.speedLimits;
+    for (const id of plan.stuck) {
+      const entity = this.entities.get(id);
+      const event = entity ? this.rerouteStuckVehicle(entity) : null;
+      if (event) events.push(event);
+    }
+
+    for (const entity of this.entities.values()) {
+      this.updateEntity(entity, deltaTime);
+      
+      // Create position tick
+      positions.push({
+        id: entity.id,
+        type: entity.type,
+        x: entity.x,
+        y: entity.y,
+        speed: entity.speed,
+        heading: entity.heading,
+        zoneId: entity.zoneId || 'unknown',
+        confidence: 0.90 + this.random() * 0.1, // Simulate UWB accuracy
+        t: this.clock.now()
+      });
+
+      // Generate events occasionally
+      if (this.random() < this.config.eventProbability) {
+        const event = this.generateRandomEvent(entity);
+        if (event) {
+          events.push(event);
+        }
+      }
+    }
+
+    return { positions, events };
+  }
+
+  /**
+   * Simulated seconds covered by one tick
+   */
+  public tickSeconds(): number {
+    return (this.config.tickMs / 1000) * this.config.simSpeed;
+  }
+
   /**
    * Stop the simulation
    */
@@ -213,21 +252,100 @@ export class WarehouseSimulator {
     console.log('Stopped warehouse simulation');
   }
 
+  /**
+   * Real tags sharing the floor with simulated entities (hybrid mode). The
+   * simulator does not move them, but its vehicles keep clear of them. A
+   * real tag with the id of a simulated entity suspends it until the tag
+   * goes quiet.
+   */
+  public updateExternal(ticks: PositionTick[]): void {
+    const now = this.clock.now();
+    for (const tick of ticks) {
+      const entity = this.entities.get(tick.id);
+      if (entity) {
+        this.entities.delete(tick.id);
+        this.suspended.set(tick.id, entity);
+        this.traffic.release(tick.id);
+        console.log(`Real tag ${tick.id} stands in for simulated ${tick.id}`);
+      }
+      this.external.set(tick.id, { tick, receivedAt: now });
+    }
+  }
+
+  /**
+   * Forget all real tags, e.g. when leaving hybrid mode, and bring back the
+   * simulated entities they stood in for
+   */
+  public clearExternal(): void {
+    for (const id of Array.from(this.external.keys())) {
+      this.dropExternal(id);
+    }
+  }
+
+  private dropExternal(id: string): void {
+    const last = this.external.get(id)?.tick;
+    this.external.delete(id);
+    const entity = this.suspended.get(id);
+    if (!entity) return;
+
+    this.suspended.delete(id);
+    if (last) this.resumeAt(entity, last);
+    this.entities.set(id, entity);
+    console.log(`Simulated ${id} resumes at (${entity.x.toFixed(2)}, ${entity.y.toFixed(2)})`);
+  }
+
+  /**
+   * Take over from a real tag where it was last seen - on the nearest lane
+   * the entity may use, to where the tag was matched if it was - and plan
+   * afresh: its old target and route were left behind with its old
+   * position, and its reservations were dropped when it was suspended
+   */
+  private resumeAt(entity: EntityState, tick: PositionTick): void {
+    const seen = { x: tick.lane?.x ?? tick.x, y: tick.lane?.y ?? tick.y };
+    const lane = this.laneNavigator.lanesAt(seen, Infinity)
+      .find(candidate => this.laneNavigator.canUseLane(candidate.laneId, entity.type));
+    if (!lane) {
+      this.resetEntityToValidLane(entity);
+      return;
+    }
+
+    entity.x = lane.point.x;
+    entity.y = lane.point.y;
+    entity.heading = tick.heading;
+    entity.currentLaneId = lane.laneId;
+    entity.laneProgress = lane.progress;
+    entity.zoneId = this.zoneIdAt(entity);
+
+    if (entity.type === 'forklift') {
+      // Only a segment traffic lets it onto; the junction ahead is claimed
+      // in the next traffic plan, before it moves
+      this.setLaneTarget(entity);
+    } else {
+      entity.route = this.laneNavigator.generateRandomRoute(lane.laneId, 5, entity.type);
+      entity.routeIndex = 0;
+    }
+  }
+
   /**
    * Update a single entity's position and state
    */
   private updateEntity(entity: EntityState, deltaTime: number): void {
     try {
-      // For forklifts, use grid-based movement like in the user's image
+      // Forklifts roam freely along lane centerlines
       if (entity.type === 'forklift') {
-        this.updateForkliftGridMovement(entity, deltaTime);
+        this.updateForkliftLaneMovement(entity, deltaTime);
       } else {
         // Use lane-based movement for other entities
         this.updateLaneBasedMovement(entity, deltaTime);
       }
 
+      // Anything that ends up off the lane network is put back on it
+      if (!this.isOnValidPath(entity.x, entity.y)) {
+        this.resetEntityToValidLane(entity);
+      }
+
       // Update zone based on position
-      entity.zoneId = this.getZoneFromPosition(entity.x, entity.y) || 'unknown';
+      entity.zoneId = this.zoneIdAt(entity);
 
     } catch (error) {
       console.warn(`Error updating entity ${entity.id}:`, error);
@@ -236,177 +354,200 @@ export class WarehouseSimulator {
   }
 
   /**
-   * Grid-based movement for forklifts following STRICT path lines only - SMOOTH CONTINUOUS MOVEMENT
+   * Movement for forklifts along the lane centerlines from the lane network
    */
-  private updateForkliftGridMovement(entity: EntityState, deltaTime: number): void {
-    const speed = entity.speed;
-    const distance = speed * deltaTime;
-
-    // Define STRICT path lines - forklifts can ONLY move on these exact lines
-    const pathLines = [
-      // ONLY one horizontal line in the middle - matches the new layout
-      { type: 'horizontal', y: 11.2, xStart: 4, xEnd: 44 },
-      
-      // Vertical lines - connecting between aisles (same as before)
-      { type: 'vertical', x: 4, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 12.5, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 18.9, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 25.3, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 31.7, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 38.1, yStart: 3.2, yEnd: 19.2 },
-      { type: 'vertical', x: 44, yStart: 3.2, yEnd: 19.2 }
-    ];
-
-    // Ensure forklift stays on valid path lines
-    if (!this.isOnStrictPath(entity, pathLines)) {
-      this.snapToNearestPath(entity, pathLines);
-      this.setPathLineTarget(entity, pathLines);
+  private updateForkliftLaneMovement(entity: EntityState, deltaTime: number): void {
+    entity.speed = Math.min(entity.speed, this.trafficLimit(entity));
+    const distance = entity.speed * deltaTime;
+
+    // Ensure forklift stays on a lane centerline
+    if (!this.laneNavigator.isOnLane(entity, LANE_TOLERANCE)) {
+      this.snapToNearestLane(entity);
+      this.setLaneTarget(entity);
       return;
     }
 
     // Continuous movement - always have a target to move toward
     if (!entity.targetPosition || this.hasReachedTarget(entity, entity.targetPosition)) {
-      this.setPathLineTarget(entity, pathLines);
+      this.setLaneTarget(entity);
     }
 
-    // Smooth movement towards target STRICTLY along the path
+    // Smooth movement towards target along the lane
     if (entity.targetPosition) {
       const dx = entity.targetPosition.x - entity.x;
       const dy = entity.targetPosition.y - entity.y;
       const distanceToTarget = Math.sqrt(dx * dx + dy * dy);
 
       if (distanceToTarget > 0.05) { // Reduced threshold for smoother movement
-        // Move towards target while maintaining path alignment
-        const moveX = (dx / distanceToTarget) * distance;
-        const moveY = (dy / distanceToTarget) * distance;
-        
-        entity.x += moveX;
-        entity.y += moveY;
+        // Move towards target while maintaining lane alignment
+        const step = Math.min(distance, distanceToTarget);
+        entity.x += (dx / distanceToTarget) * step;
+        entity.y += (dy / distanceToTarget) * step;
         
         // Update heading smoothly
         const targetHeading = Math.atan2(dy, dx) * (180 / Math.PI);
         entity.heading = this.lerpAngle(entity.heading, targetHeading, 0.1);
         
-        // Maintain strict path alignment with tighter tolerance
-        this.snapToNearestPath(entity, pathLines);
+        // Maintain lane alignment where the lane bends
+        this.snapToNearestLane(entity);
       }
     }
 
-    // Smooth speed variations for natural movement
-    const speedVariation = 0.1 * Math.sin(Date.now() * 0.001); // Gentle sine wave variation
-    entity.speed = this.lerp(
-      entity.speed, 
-      entity.targetSpeed + speedVariation, 
-      0.02
+    // Smooth speed variations for natural movement, within the lane's limit
+    // and what traffic allows
+    const speedVariation = 0.1 * Math.sin(this.clock.now() * 0.001); // Gentle sine wave variation
+    entity.speed = Math.min(
+      this.lerp(entity.speed, entity.targetSpeed + speedVariation, 0.02),
+      this.laneSpeedLimit(entity),
+      this.trafficLimit(entity)
     );
   }
 
   /**
-   * Check if entity is exactly on a strict path line
+   * Snap entity to the nearest point on any lane centerline
    */
-  private isOnStrictPath(entity: EntityState, pathLines: any[]): boolean {
-    const tolerance = 0.1; // Very tight tolerance
-    
-    for (const line of pathLines) {
-      if (line.type === 'horizontal') {
-        if (Math.abs(entity.y - line.y) < tolerance && 
-            entity.x >= line.xStart && entity.x <= line.xEnd) {
-          return true;
-        }
-      } else if (line.type === 'vertical') {
-        if (Math.abs(entity.x - line.x) < tolerance && 
-            entity.y >= line.yStart && entity.y <= line.yEnd) {
-          return true;
+  private snapToNearestLane(entity: EntityState): void {
+    const nearest = this.laneNavigator.nearestPointOnLane(entity);
+    if (!nearest) return;
+
+    entity.x = nearest.point.x;
+    entity.y = nearest.point.y;
+  }
+
+  /**
+   * Set target position along a lane through the entity's position: the
+   * next junction or lane end, where the forklift gets to turn. Only lanes
+   * the entity may use are considered, one-way lanes only in their direction
+   * of travel, and segments traffic control lets it enter - when backing
+   * out of a deadlock that includes turning around on its current segment.
+   * Targets in `avoid` are left out.
+   */
+  private setLaneTarget(entity: EntityState, backOut = false, avoid: LanePoint[] = []): void {
+    const choices: Array<{ laneId: string; progress: number; target: { x: number; y: number } }> = [];
+
+    for (const lane of this.laneNavigator.lanesAt(entity, JUNCTION_TOLERANCE)) {
+      if (!this.laneNavigator.canUseLane(lane.laneId, entity.type)) continue;
+
+      const directions: Array<1 | -1> = [];
+      if (lane.progress < 1) directions.push(1);
+      if (lane.progress > 0 && !this.laneNavigator.isOneWay(lane.laneId)) directions.push(-1);
+
+      for (const direction of directions) {
+        const junction = this.laneNavigator.nextJunctionAlongLane(lane.laneId, lane.progress, direction);
+        const target = junction
+          ? junction.point
+          : this.laneNavigator.pointAlongLane(lane.laneId, lane.progress, direction * Infinity).point;
+
+        if (this.hasReachedTarget(entity, target)) continue;
+        if (avoid.some(point => this.isSamePoint(point, target))) continue;
+        if (this.traffic.canEnter(entity.id, lane.laneId, entity, target, backOut)) {
+          choices.push({ laneId: lane.laneId, progress: lane.progress, target });
         }
       }
     }
-    return false;
+
+    const choice = choices[Math.floor(this.random() * choices.length)];
+    if (!choice) {
+      // Nowhere to go yet - wait where we are
+      entity.targetPosition = undefined;
+      return;
+    }
+
+    this.traffic.enter(entity.id, choice.laneId, entity, choice.target);
+    entity.currentLaneId = choice.laneId;
+    entity.laneProgress = choice.progress;
+    entity.targetPosition = choice.target;
   }
 
   /**
-   * Snap entity to the nearest path line
+   * Forklifts that have waited too long are deadlocked with other traffic:
+   * they head off another way, even back the way they came. For a while
+   * they do not head for either end of their last reroute again, or they
+   * would only shuttle between two blocked targets; with no other way to go
+   * they keep waiting.
    */
-  private snapToNearestPath(entity: EntityState, pathLines: any[]): void {
-    let minDistance = Infinity;
-    let snapPoint = { x: entity.x, y: entity.y };
-    
-    for (const line of pathLines) {
-      let distance: number;
-      let point: { x: number, y: number };
-      
-      if (line.type === 'horizontal') {
-        // Snap to horizontal line
-        const clampedX = Math.max(line.xStart, Math.min(line.xEnd, entity.x));
-        point = { x: clampedX, y: line.y };
-        distance = Math.abs(entity.y - line.y) + Math.abs(entity.x - clampedX);
-      } else {
-        // Snap to vertical line
-        const clampedY = Math.max(line.yStart, Math.min(line.yEnd, entity.y));
-        point = { x: line.x, y: clampedY };
-        distance = Math.abs(entity.x - line.x) + Math.abs(entity.y - clampedY);
-      }
-      
-      if (distance < minDistance) {
-        minDistance = distance;
-        snapPoint = point;
-      }
+  private rerouteStuckVehicle(entity: EntityState): DTEvent | null {
+    const now = this.clock.now();
+    const previousTarget = entity.targetPosition;
+    const reroute = this.reroutes.get(entity.id);
+    const last = reroute && now - reroute.t < REROUTE_MEMORY_MS ? reroute : undefined;
+    const avoid = [previousTarget, last?.from, last?.to].filter((point): point is LanePoint => point !== undefined);
+
+    this.setLaneTarget(entity, true, avoid);
+    if (!entity.targetPosition) {
+      entity.targetPosition = previousTarget;
+      return null;
     }
-    
-    entity.x = snapPoint.x;
-    entity.y = snapPoint.y;
+    if (previousTarget) this.reroutes.set(entity.id, { from: previousTarget, to: entity.targetPosition, t: now });
+
+    return {
+      id: this.generateId(),
+      t: now,
+      type: 'reroute',
+      assetIds: [entity.id],
+      zoneId: entity.zoneId || 'unknown',
+      payload: {
+        reason: 'traffic deadlock',
+        laneId: entity.currentLaneId,
+        from: previousTarget,
+        to: entity.targetPosition
+      }
+    };
   }
 
   /**
-   * Set target position along current path line
+   * Current positions of every entity as traffic participants. Forklifts are
+   * the controlled vehicles; pallets, workers and real tags move on their
+   * own and are only kept clear of.
    */
-  private setPathLineTarget(entity: EntityState, pathLines: any[]): void {
-    // Find which path line the entity is currently on
-    const currentLine = this.getCurrentPathLine(entity, pathLines);
-    if (!currentLine) return;
+  private planTraffic() {
+    const vehicles: TrafficParticipant[] = [];
+    const others: TrafficParticipant[] = [];
 
-    let targetPosition: { x: number, y: number };
-    
-    if (currentLine.type === 'horizontal') {
-      // Move left or right along horizontal line
-      const direction = Math.random() > 0.5 ? 1 : -1;
-      const targetX = entity.x + (direction * (5 + Math.random() * 10));
-      targetPosition = {
-        x: Math.max(currentLine.xStart, Math.min(currentLine.xEnd, targetX)),
-        y: currentLine.y
-      };
-    } else {
-      // Move up or down along vertical line
-      const direction = Math.random() > 0.5 ? 1 : -1;
-      const targetY = entity.y + (direction * (3 + Math.random() * 6));
-      targetPosition = {
-        x: currentLine.x,
-        y: Math.max(currentLine.yStart, Math.min(currentLine.yEnd, targetY))
+    for (const entity of this.entities.values()) {
+      const participant: TrafficParticipant = {
+        id: entity.id,
+        type: entity.type,
+        x: entity.x,
+        y: entity.y,
+        speed: entity.speed,
+        direction: entity.heading
       };
+
+      if (entity.type === 'forklift') {
+        // Forklift headings are in degrees; travel is towards the target
+        participant.direction = entity.targetPosition
+          ? Math.atan2(entity.targetPosition.y - entity.y, entity.targetPosition.x - entity.x)
+          : entity.heading * (Math.PI / 180);
+        participant.target = entity.targetPosition;
+        vehicles.push(participant);
+      } else {
+        others.push(participant);
+      }
     }
-    
-    entity.targetPosition = targetPosition;
-  }
 
-  /**
-   * Find which path line the entity is currently on
-   */
-  private getCurrentPathLine(entity: EntityState, pathLines: any[]): any {
-    const tolerance = 0.2;
-    
-    for (const line of pathLines) {
-      if (line.type === 'horizontal') {
-        if (Math.abs(entity.y - line.y) < tolerance && 
-            entity.x >= line.xStart - tolerance && entity.x <= line.xEnd + tolerance) {
-          return line;
-        }
-      } else if (line.type === 'vertical') {
-        if (Math.abs(entity.x - line.x) < tolerance && 
-            entity.y >= line.yStart - tolerance && entity.y <= line.yEnd + tolerance) {
-          return line;
-        }
+    // Real tags where they were matched onto a lane, if they were
+    const now = this.clock.now();
+    for (const [id, { tick, receivedAt }] of this.external) {
+      if (now - receivedAt > EXTERNAL_STALE_MS) {
+        this.dropExternal(id);
+        continue;
       }
+      others.push({
+        id,
+        type: tick.type,
+        x: tick.lane?.x ?? tick.x,
+        y: tick.lane?.y ?? tick.y,
+        speed: tick.speed,
+        direction: tick.type === 'forklift' ? tick.heading * (Math.PI / 180) : tick.heading
+      });
     }
-    return null;
+
+    return this.traffic.plan(vehicles, others, now);
+  }
+
+  private isSamePoint(a: LanePoint, b: LanePoint): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) < JUNCTION_TOLERANCE;
   }
 
   /**
@@ -424,6 +565,7 @@ export class WarehouseSimulator {
    */
   private updateLaneBasedMovement(entity: EntityState, deltaTime: number): void {
     if (!entity.currentLaneId) return;
+    entity.speed = Math.min(entity.speed, this.trafficLimit(entity));
 
     // Advance along current lane
     const advancement = this.laneNavigator.advanceAlongLane(entity, deltaTime);
@@ -431,59 +573,50 @@ export class WarehouseSimulator {
     entity.x = advancement.position.x;
     entity.y = advancement.position.y;
     entity.heading = advancement.heading;
-
-    // Update lane progress
-    const distanceToTravel = entity.speed * deltaTime;
-    const currentLane = this.laneNavigator.getLane(entity.currentLaneId);
-    if (currentLane) {
-      const laneLength = this.calculateLaneLength(currentLane);
-      entity.laneProgress += distanceToTravel / laneLength;
-    }
+    entity.laneProgress = advancement.progress;
 
     // Check if reached end of lane
-    if (advancement.reachedEnd || entity.laneProgress >= 1.0) {
+    if (advancement.reachedEnd) {
       this.transitionToNextLane(entity);
     }
 
-    // Vary speed slightly for natural movement
-    entity.speed = this.lerp(
-      entity.speed, 
-      entity.targetSpeed + (Math.random() - 0.5) * 0.2, 
-      0.1
+    // Vary speed slightly for natural movement, within the lane's limit
+    // and what traffic allows
+    entity.speed = Math.min(
+      this.lerp(entity.speed, entity.targetSpeed + (this.random() - 0.5) * 0.2, 0.1),
+      this.laneSpeedLimit(entity),
+      this.trafficLimit(entity)
     );
   }
 
   /**
-   * Transition entity to next lane in route
+   * Transition entity to the next lane at the end of its current one: it
+   * turns onto a lane through the same point, following its route where it
+   * can, and turns back at a dead end
    */
   private transitionToNextLane(entity: EntityState): void {
     if (!entity.currentLaneId) return;
 
-    // Try to follow planned route
-    let nextLaneId: string | null = null;
-    
-    if (entity.routeIndex < entity.route.length - 1) {
-      entity.routeIndex++;
-      nextLaneId = entity.route[entity.routeIndex] || null;
-    }
-
-    // If no planned route or invalid, choose random next lane
-    if (!nextLaneId || !this.laneNavigator.getLane(nextLaneId)) {
-      nextLaneId = this.laneNavigator.chooseNextLane(entity.currentLaneId, entity);
-    }
-
-    // If still no valid lane, generate new route
-    if (!nextLaneId) {
-      entity.route = this.laneNavigator.generateRandomRoute(entity.currentLaneId, 5);
-      entity.routeIndex = 0;
-      nextLaneId = entity.route[1] || entity.currentLaneId;
+    const next = this.laneNavigator.chooseNextLane(entity);
+    if (next) {
+      if (next.laneId === entity.route[entity.routeIndex + 1]) {
+        entity.routeIndex++;
+      } else {
+        entity.route = this.laneNavigator.generateRandomRoute(next.laneId, 5, entity.type);
+        entity.routeIndex = 0;
+      }
+      entity.currentLaneId = next.laneId;
+      entity.laneProgress = next.progress;
+      entity.laneDirection = next.direction;
+    } else if (!this.laneNavigator.isOneWay(entity.currentLaneId)) {
+      entity.laneDirection = entity.laneDirection === -1 ? 1 : -1;
+    } else {
+      this.resetEntityToValidLane(entity);
+      return;
     }
 
-    entity.currentLaneId = nextLaneId;
-    entity.laneProgress = 0;
-
     // Update target speed occasionally
-    if (Math.random() < 0.3) {
+    if (this.random() < 0.3) {
       const speedRange = entity.type === 'forklift' 
         ? this.config.forkliftSpeedRange
         : entity.type === 'worker'
@@ -494,104 +627,45 @@ export class WarehouseSimulator {
   }
 
   /**
-   * Generate random events based on entity state
+   * Generate random blocked-aisle events - all other event types are
+   * detected from positions by the event pipeline
    */
   private generateRandomEvent(entity: EntityState): DTEvent | null {
-    const now = Date.now();
+    const now = this.clock.now();
     if (now - entity.lastEventTime < 30000) return null; // Min 30s between events
 
-    const eventTypes = ['blocked', 'dwellExceeded', 'zoneBreach'];
-    const eventType = eventTypes[Math.floor(Math.random() * eventTypes.length)] as DTEvent['type'];
+    const eventType: DTEvent['type'] = 'blocked';
 
     entity.lastEventTime = now;
 
     return {
-      id: uuidv4(),
+      id: this.generateId(),
       t: now,
       type: eventType,
       assetIds: [entity.id],
       zoneId: entity.zoneId || 'unknown',
       payload: {
         reason: this.generateEventReason(eventType),
-        severity: Math.random() > 0.7 ? 'high' : 'medium'
+        severity: this.random() > 0.7 ? 'high' : 'medium'
       }
     };
   }
 
-  /**
-   * Check for proximity-based events (collisions, congestion)
-   */
-  private checkProximityEvents(): DTEvent[] {
-    const events: DTEvent[] = [];
-    const entityArray = Array.from(this.entities.values());
-
-    // Check for near collisions
-    for (let i = 0; i < entityArray.length; i++) {
-      for (let j = i + 1; j < entityArray.length; j++) {
-        const entity1 = entityArray[i];
-        const entity2 = entityArray[j];
-        
-        if (!entity1 || !entity2) continue;
-
-        const distance = Math.sqrt(
-          (entity1.x - entity2.x) ** 2 + (entity1.y - entity2.y) ** 2
-        );
-
-        if (distance < this.config.collisionRadius && 
-            (entity1.speed > 0.1 || entity2.speed > 0.1)) {
-          
-          events.push({
-            id: uuidv4(),
-            t: Date.now(),
-            type: 'nearCollision',
-            assetIds: [entity1.id, entity2.id],
-            zoneId: entity1.zoneId || entity2.zoneId || 'unknown',
-            payload: {
-              distance: Math.round(distance * 100) / 100,
-              closingSpeed: Math.abs(entity1.speed - entity2.speed)
-            }
-          });
-          
-          // Slow down both entities
-          entity1.targetSpeed *= 0.5;
-          entity2.targetSpeed *= 0.5;
-        }
-      }
-    }
-
-    // Check for lane congestion
-    const laneOccupancy = new Map<string, string[]>();
-    for (const entity of this.entities.values()) {
-      if (entity.currentLaneId) {
-        if (!laneOccupancy.has(entity.currentLaneId)) {
-          laneOccupancy.set(entity.currentLaneId, []);
-        }
-        laneOccupancy.get(entity.currentLaneId)?.push(entity.id);
-      }
-    }
+  // Helper methods
+  private usableLanes(type: EntityState['type']) {
+    return this.laneNavigator.getAllLanes().filter(lane => this.laneNavigator.canUseLane(lane.id, type));
+  }
 
-    for (const [laneId, entityIds] of laneOccupancy.entries()) {
-      if (entityIds.length >= this.config.congestionThreshold) {
-        events.push({
-          id: uuidv4(),
-          t: Date.now(),
-          type: 'congestion',
-          assetIds: entityIds,
-          zoneId: laneId,
-          payload: {
-            occupancy: entityIds.length,
-            threshold: this.config.congestionThreshold
-          }
-        });
-      }
-    }
+  private trafficLimit(entity: EntityState): number {
+    return this.speedLimits.get(entity.id) ?? Infinity;
+  }
 
-    return events;
+  private laneSpeedLimit(entity: EntityState): number {
+    return entity.currentLaneId ? this.laneNavigator.speedLimit(entity.currentLaneId, entity.type) : Infinity;
   }
 
-  // Helper methods
   private randomSpeed(range: [number, number]): number {
-    return range[0] + Math.random() * (range[1] - range[0]);
+    return range[0] + this.random() * (range[1] - range[0]);
   }
 
   private lerp(a: number, b: number, t: number): number {
@@ -606,39 +680,12 @@ export class WarehouseSimulator {
     return a + diff * t;
   }
 
-  private getZoneFromPosition(x: number, y: number): string | undefined {
-    // Map position to storage zones based on warehouse layout
-    if (y < 8.8) {
-      // Storage Zone A
-      if (x >= 6.4 && x < 14.4) return 'A1';
-      if (x >= 14.4 && x < 22.4) return 'A2';
-      if (x >= 22.4 && x < 30.4) return 'A3';
-      if (x >= 30.4 && x < 38.4) return 'A4';
-      if (x >= 38.4 && x < 46.4) return 'A5';
-      if (x >= 46.4) return 'A6';
-    } else if (y >= 13.6 && y < 20.8) {
-      // Storage Zone B
-      if (x >= 6.4 && x < 14.4) return 'B1';
-      if (x >= 14.4 && x < 22.4) return 'B2';
-      if (x >= 22.4 && x < 30.4) return 'B3';
-      if (x >= 30.4 && x < 38.4) return 'B4';
-      if (x >= 38.4 && x < 46.4) return 'B5';
-      if (x >= 46.4) return 'B6';
-    } else if (y >= 20.8) {
-      // Personnel zones
-      if (x >= 6.4 && x < 14.4) return 'P1';
-      if (x >= 14.4 && x < 22.4) return 'P2';
-      if (x >= 22.4 && x < 30.4) return 'P3';
-      if (x >= 30.4 && x < 38.4) return 'P4';
-      if (x >= 38.4 && x < 46.4) return 'P5';
-      if (x >= 46.4) return 'P6';
-    }
-    
-    return 'main-aisle';
+  private zoneIdAt(position: LanePoint): string {
+    return this.zones?.zoneIdAt(position) ?? 'unknown';
   }
 
   private generateEventReason(eventType: DTEvent['type']): string {
-    const reasons = {
+    const reasons: Partial<Record<DTEvent['type'], string[]>> = {
       blocked: ['fallen pallet', 'maintenance work', 'temporary obstruction'],
       dwellExceeded: ['extended pick operation', 'manual intervention required', 'system delay'],
       zoneBreach: ['unauthorized access', 'navigation error', 'emergency override'],
@@ -648,189 +695,46 @@ export class WarehouseSimulator {
     };
 
     const typeReasons = reasons[eventType] || ['unknown'];
-    return typeReasons[Math.floor(Math.random() * typeReasons.length)] || 'unknown';
+    return typeReasons[Math.floor(this.random() * typeReasons.length)] || 'unknown';
   }
 
   /**
-   * Check if a position is on a valid path (horizontal lines and vertical lines)
+   * Check if a position is on a valid path (within the width of a lane)
    */
   private isOnValidPath(x: number, y: number): boolean {
-    const tolerance = 0.5; // Distance tolerance
-
-    // Check if on any of the three horizontal lines
-    const horizontalLines = [6.0, 11.2, 16.4]; // Storage A, Middle, Storage B
-    for (const lineY of horizontalLines) {
-      if (Math.abs(y - lineY) < tolerance && x >= 4 && x <= 44) {
-        return true;
-      }
-    }
-
-    // Check if on vertical lines - UPDATED to BETWEEN aisles positions
-    const verticalLines = [4, 12.5, 18.9, 25.3, 31.7, 38.1, 44]; // x-coordinates of vertical lines
-    for (const lineX of verticalLines) {
-      if (Math.abs(x - lineX) < tolerance && y >= 3.2 && y <= 19.2) {
-        return true;
-      }
-    }
-
-    return false;
-  }
-
-  /**
-   * Check if a position is valid in the grid
-   */
-  private isValidPosition(pos: {x: number, y: number}): boolean {
-    if (!pos) return false;
-    return this.isOnValidPath(pos.x, pos.y);
-  }
-
-  /**
-   * Find the nearest grid point to a given position
-   */
-  private findNearestGridPoint(x: number, y: number, gridPositions: Array<{x: number, y: number}>): {x: number, y: number} {
-    let nearestPoint = gridPositions[0] || {x: 4, y: 11.2}; // Default fallback
-    let minDistance = Infinity;
-
-    for (const point of gridPositions) {
-      const distance = Math.sqrt(Math.pow(point.x - x, 2) + Math.pow(point.y - y, 2));
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestPoint = point;
-      }
-    }
-
-    return nearestPoint;
-  }
-
-  /**
-   * Find grid points that are connected to the given point
-   */
-  private findConnectedPoints(point: {x: number, y: number}, gridPositions: Array<{x: number, y: number}>): Array<{x: number, y: number}> {
-    if (!point) return [];
-    
-    const connectedPoints = [];
-    const horizontalLines = [6.0, 11.2, 16.4]; // Storage A, Middle, Storage B
-    
-    // Check if point is on any horizontal line
-    const isOnHorizontal = horizontalLines.some(lineY => Math.abs(point.y - lineY) < 0.1);
-    
-    if (isOnHorizontal) {
-      // Find points on same horizontal line or on intersecting vertical lines
-      for (const gridPoint of gridPositions) {
-        // Same horizontal line (left/right movement)
-        if (horizontalLines.some(lineY => Math.abs(gridPoint.y - lineY) < 0.1) && 
-            Math.abs(gridPoint.y - point.y) < 0.1 && // Same horizontal line
-            Math.abs(gridPoint.x - point.x) < 7 && // Not too far away
-            gridPoint.x !== point.x) { // Not the same point
-          connectedPoints.push(gridPoint);
-        }
-        
-        // Connected vertical points at intersection (up/down movement)
-        if (Math.abs(gridPoint.x - point.x) < 0.1 && // Same x-coordinate (vertical line)
-            Math.abs(gridPoint.y - point.y) < 7 && // Not too far away
-            gridPoint.y !== point.y) { // Not the same point
-          connectedPoints.push(gridPoint);
-        }
-      }
-    } 
-    // Check if point is on a vertical line
-    else {
-      // Vertical lines x-coordinates
-      const verticalLines = [4, 12.5, 18.9, 25.3, 31.7, 38.1, 44];
-      
-      if (verticalLines.some(lineX => Math.abs(point.x - lineX) < 0.1)) {
-        // Find points on same vertical line or on horizontal lines at intersections
-        for (const gridPoint of gridPositions) {
-          // Same vertical line (up/down movement)
-          if (Math.abs(gridPoint.x - point.x) < 0.1 && // Same x (vertical line)
-              Math.abs(gridPoint.y - point.y) < 7 && // Not too far away
-              gridPoint.y !== point.y) { // Not the same point
-            connectedPoints.push(gridPoint);
-          }
-          
-          // Horizontal lines at intersection (left/right movement)
-          if (horizontalLines.some(lineY => Math.abs(gridPoint.y - lineY) < 0.1) && // On horizontal line
-              Math.abs(gridPoint.x - point.x) < 0.1 && // Same x-coordinate (intersection)
-              gridPoint.y !== point.y) { // Not the same point
-            connectedPoints.push(gridPoint);
-          }
-        }
-      }
-    }
-    
-    return connectedPoints;
+    return this.laneNavigator.isOnLane({ x, y });
   }
 
   private resetEntityToValidLane(entity: EntityState): void {
-    // For forklifts, reset to a valid grid position
+    // For forklifts, reset to a random lane junction
     if (entity.type === 'forklift') {
-      // Define valid grid positions
-      const gridPositions = [
-        // Middle horizontal line
-        { x: 15.2, y: 11.2 }, { x: 21.6, y: 11.2 }, { x: 28.0, y: 11.2 }, { x: 34.4, y: 11.2 }
-      ];
-      
-      // Use a hard-coded safe position based on new coordinates
-      const safePosition = { x: 12.5, y: 11.2 };
-      
-      try {
-        if (gridPositions && gridPositions.length > 0) {
-          // Safe access with bounds checking
-          const randomIndex = Math.floor(Math.random() * gridPositions.length);
-          if (randomIndex >= 0 && randomIndex < gridPositions.length && gridPositions[randomIndex]) {
-            const position = gridPositions[randomIndex];
-            entity.x = position.x;
-            entity.y = position.y;
-            console.log(`Reset forklift ${entity.id} to grid position (${position.x}, ${position.y})`);
-          } else {
-            // Use safe position
-            entity.x = safePosition.x;
-            entity.y = safePosition.y;
-            console.log(`Reset forklift ${entity.id} to safe position (${safePosition.x}, ${safePosition.y})`);
-          }
-        } else {
-          // No grid positions, use safe position
-          entity.x = safePosition.x;
-          entity.y = safePosition.y;
-          console.log(`Reset forklift ${entity.id} to safe position (${safePosition.x}, ${safePosition.y})`);
-        }
-        
-        // Reset common properties
-        entity.targetPosition = undefined; // Reset target so a new one will be chosen
-        entity.speed = entity.targetSpeed;
-      } catch (error) {
-        // Ultimate fallback
-        entity.x = safePosition.x;
-        entity.y = safePosition.y;
-        entity.targetPosition = undefined;
-        entity.speed = entity.targetSpeed;
-        console.log(`Reset forklift ${entity.id} to failsafe position after error`);
+      const junctions = this.laneNavigator.getJunctionPoints();
+      const position = junctions[Math.floor(this.random() * junctions.length)];
+
+      if (position) {
+        entity.x = position.x;
+        entity.y = position.y;
+        console.log(`Reset forklift ${entity.id} to lane junction (${position.x}, ${position.y})`);
       }
+
+      this.traffic.release(entity.id);
+      this.reroutes.delete(entity.id);
+      entity.targetPosition = undefined; // Reset target so a new one will be chosen
+      entity.speed = entity.targetSpeed;
     } else {
       // For other entities, use lane-based reset
-      const allLanes = this.laneNavigator.getAllLanes();
-      const randomLane = allLanes[Math.floor(Math.random() * allLanes.length)];
+      const lanes = this.usableLanes(entity.type);
+      const randomLane = lanes[Math.floor(this.random() * lanes.length)];
       
       if (randomLane && randomLane.points[0]) {
         entity.currentLaneId = randomLane.id;
         entity.x = randomLane.points[0].x;
         entity.y = randomLane.points[0].y;
         entity.laneProgress = 0;
-        entity.route = this.laneNavigator.generateRandomRoute(randomLane.id, 5);
+        entity.laneDirection = 1;
+        entity.route = this.laneNavigator.generateRandomRoute(randomLane.id, 5, entity.type);
         entity.routeIndex = 0;
       }
     }
   }
-
-  private calculateLaneLength(lane: { points: Array<{ x: number; y: number }> }): number {
-    let length = 0;
-    for (let i = 0; i < lane.points.length - 1; i++) {
-      const p1 = lane.points[i];
-      const p2 = lane.points[i + 1];
-      if (p1 && p2) {
-        length += Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
-      }
-    }
-    return Math.max(length, 1); // Avoid division by zero
-  }
 }
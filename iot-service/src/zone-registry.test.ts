@@ -0,0 +1,107 @@
+import { pointInPolygon, ZoneMapError, ZoneRegistry } from './zone-registry';
+import { LanePoint, Zone, ZoneMap } from './types';
+
+function square(minX: number, minY: number, size: number): LanePoint[] {
+  return [
+    { x: minX, y: minY },
+    { x: minX + size, y: minY },
+    { x: minX + size, y: minY + size },
+    { x: minX, y: minY + size }
+  ];
+}
+
+function zone(id: string, polygon: LanePoint[], overrides: Partial<Zone> = {}): Zone {
+  return { id, name: id, type: 'STORAGE', polygon, ...overrides };
+}
+
+// Two 10 m squares side by side, sharing the edge x = 10, and a dock
+// drawn over the corner of the east one
+const MAP: ZoneMap = {
+  units: 'meters',
+  zones: [
+    zone('dock', square(15, 0, 5), { type: 'LOADING' }),
+    zone('west', square(0, 0, 10)),
+    zone('east', square(10, 0, 10))
+  ]
+};
+
+// An L: the notch (5..10, 5..10) is outside
+const L_SHAPE: LanePoint[] = [
+  { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 5 }, { x: 5, y: 5 }, { x: 5, y: 10 }, { x: 0, y: 10 }
+];
+
+describe('pointInPolygon', () => {
+  it('finds points inside a concave polygon but not in its notch', () => {
+    expect(pointInPolygon({ x: 2, y: 8 }, L_SHAPE)).toBe(true);
+    expect(pointInPolygon({ x: 8, y: 2 }, L_SHAPE)).toBe(true);
+    expect(pointInPolygon({ x: 8, y: 8 }, L_SHAPE)).toBe(false);
+    expect(pointInPolygon({ x: 11, y: 2 }, L_SHAPE)).toBe(false);
+  });
+
+  it('counts the low edges and vertex as inside and the high ones as outside', () => {
+    const polygon = square(0, 0, 10);
+
+    expect(pointInPolygon({ x: 0, y: 5 }, polygon)).toBe(true);
+    expect(pointInPolygon({ x: 5, y: 0 }, polygon)).toBe(true);
+    expect(pointInPolygon({ x: 0, y: 0 }, polygon)).toBe(true);
+    expect(pointInPolygon({ x: 10, y: 5 }, polygon)).toBe(false);
+    expect(pointInPolygon({ x: 5, y: 10 }, polygon)).toBe(false);
+  });
+});
+
+describe('ZoneRegistry', () => {
+  const zones = new ZoneRegistry(MAP);
+
+  it('puts a point on a shared edge in exactly one zone', () => {
+    for (const y of [0, 2.5, 7.5]) {
+      expect(zones.zonesAt({ x: 10, y }).map(found => found.id)).toEqual(['east']);
+    }
+  });
+
+  it('takes the first listed zone where zones overlap', () => {
+    expect(zones.zoneIdAt({ x: 17, y: 2 })).toBe('dock');
+    expect(zones.zonesAt({ x: 17, y: 2 }).map(found => found.id)).toEqual(['dock', 'east']);
+    expect(zones.zoneIdAt({ x: 17, y: 7 })).toBe('east');
+  });
+
+  it('reports positions outside every zone as unknown', () => {
+    expect(zones.zoneAt({ x: 25, y: 5 })).toBeUndefined();
+    expect(zones.zoneIdAt({ x: 25, y: 5 })).toBe('unknown');
+    expect(zones.zoneIdAt({ x: 5, y: -0.01 })).toBe('unknown');
+  });
+
+  it('looks zones up by id', () => {
+    expect(zones.getZone('west')?.polygon).toEqual(square(0, 0, 10));
+    expect(zones.getZone('north')).toBeUndefined();
+    expect(zones.getAllZones().map(found => found.id)).toEqual(['dock', 'west', 'east']);
+  });
+
+  it('lists every problem with a malformed map', () => {
+    const malformed = {
+      units: 'feet',
+      zones: [
+        zone('west', square(0, 0, 10)),
+        zone('west', square(10, 0, 10)),
+        { ...zone('', [{ x: 0, y: 0 }, { x: 1, y: 0 }]), type: 'GARAGE' },
+        zone('cold', [{ x: 0, y: 0 }, { x: 1, y: NaN }, { x: 0, y: 1 }], { temperature: NaN })
+      ]
+    } as unknown as ZoneMap;
+
+    let issues: string[] = [];
+    try {
+      new ZoneRegistry(malformed);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ZoneMapError);
+      issues = (error as ZoneMapError).issues;
+    }
+    expect(issues).toEqual([
+      'units: expected "meters" or "px", got "feet"',
+      'west: duplicate id',
+      'zones[2]: missing id',
+      'zones[2]: type must be one of STORAGE, COLD_STORAGE, LOADING, UNLOADING, AISLE, RESTRICTED',
+      'zones[2]: polygon needs at least 3 points',
+      'cold: polygon points need numeric x and y',
+      'cold: temperature must be a number'
+    ]);
+  });
+});
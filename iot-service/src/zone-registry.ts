@@ -0,0 +1,196 @@
+import { LanePoint, PositionTick, Zone, ZoneAccessRule, ZoneMap, ZoneType } from './types';
+
+const ZONE_TYPES: ZoneType[] = ['STORAGE', 'COLD_STORAGE', 'LOADING', 'UNLOADING', 'AISLE', 'RESTRICTED'];
+const ENTITY_TYPES: Array<PositionTick['type']> = ['forklift', 'pallet', 'worker'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Raised when a zone map is malformed; lists every problem found
+ */
+export class ZoneMapError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid zone map:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ZoneMapError';
+    this.issues = issues;
+  }
+}
+
+interface IndexedZone {
+  zone: Zone;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Zone polygons from zones.json and point-in-polygon lookup, so a position
+ * gets the same zoneId whether it comes from the simulator or a live tag
+ */
+export class ZoneRegistry {
+  private zones: IndexedZone[];
+  private byId: Map<string, Zone>;
+  private accessRules: ZoneAccessRule[];
+
+  constructor(zoneMap: ZoneMap) {
+    const issues = validateZoneMap(zoneMap);
+    if (issues.length > 0) {
+      throw new ZoneMapError(issues);
+    }
+
+    this.zones = zoneMap.zones.map(zone => {
+      const xs = zone.polygon.map(point => point.x);
+      const ys = zone.polygon.map(point => point.y);
+      return { zone, minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+    });
+    this.byId = new Map(zoneMap.zones.map(zone => [zone.id, zone]));
+    this.accessRules = zoneMap.accessRules ?? [];
+  }
+
+  /**
+   * The zone containing a point - the first listed where zones overlap
+   */
+  public zoneAt(point: LanePoint): Zone | undefined {
+    return this.zones.find(indexed => this.contains(indexed, point))?.zone;
+  }
+
+  /**
+   * Every zone containing a point, in listed order
+   */
+  public zonesAt(point: LanePoint): Zone[] {
+    return this.zones.filter(indexed => this.contains(indexed, point)).map(indexed => indexed.zone);
+  }
+
+  /**
+   * Zone id for a position, 'unknown' outside every zone
+   */
+  public zoneIdAt(point: LanePoint): string {
+    return this.zoneAt(point)?.id ?? 'unknown';
+  }
+
+  public getZone(id: string): Zone | undefined {
+    return this.byId.get(id);
+  }
+
+  public getAllZones(): Zone[] {
+    return this.zones.map(indexed => indexed.zone);
+  }
+
+  public getAccessRules(): ZoneAccessRule[] {
+    return this.accessRules;
+  }
+
+  private contains(indexed: IndexedZone, point: LanePoint): boolean {
+    if (point.x < indexed.minX || point.x > indexed.maxX || point.y < indexed.minY || point.y > indexed.maxY) {
+      return false;
+    }
+    return pointInPolygon(point, indexed.zone.polygon);
+  }
+}
+
+/**
+ * Even-odd ray casting; a point on a shared edge belongs to one side only
+ */
+export function pointInPolygon(point: LanePoint, polygon: LanePoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function validateZoneMap(zoneMap: ZoneMap): string[] {
+  const issues: string[] = [];
+  if (!zoneMap || !Array.isArray(zoneMap.zones)) {
+    return ['expected an object with a "zones" array'];
+  }
+  if (zoneMap.units !== 'meters' && zoneMap.units !== 'px') {
+    issues.push(`units: expected "meters" or "px", got ${JSON.stringify(zoneMap.units)}`);
+  }
+
+  const seen = new Set<string>();
+  zoneMap.zones.forEach((zone, i) => {
+    const label = typeof zone?.id === 'string' && zone.id ? zone.id : `zones[${i}]`;
+    if (typeof zone?.id !== 'string' || !zone.id) {
+      issues.push(`${label}: missing id`);
+    } else if (seen.has(zone.id)) {
+      issues.push(`${label}: duplicate id`);
+    } else {
+      seen.add(zone.id);
+    }
+
+    if (!ZONE_TYPES.includes(zone?.type)) {
+      issues.push(`${label}: type must be one of ${ZONE_TYPES.join(', ')}`);
+    }
+    if (!Array.isArray(zone?.polygon) || zone.polygon.length < 3) {
+      issues.push(`${label}: polygon needs at least 3 points`);
+    } else if (!zone.polygon.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y))) {
+      issues.push(`${label}: polygon points need numeric x and y`);
+    }
+    if (zone?.temperature !== undefined && !Number.isFinite(zone.temperature)) {
+      issues.push(`${label}: temperature must be a number`);
+    }
+    if (zone?.maxSpeedByType !== undefined &&
+        !Object.entries(zone.maxSpeedByType).every(([type, limit]) =>
+          ENTITY_TYPES.includes(type as PositionTick['type']) && Number.isFinite(limit) && limit! > 0)) {
+      issues.push(`${label}: maxSpeedByType needs positive limits for ${ENTITY_TYPES.join(', ')}`);
+    }
+    for (const field of ['maxSpeed', 'maxDwellMs', 'maxStationaryMs'] as const) {
+      const value = zone?.[field];
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        issues.push(`${label}: ${field} must be a positive number`);
+      }
+    }
+  });
+
+  if (zoneMap.accessRules !== undefined && !Array.isArray(zoneMap.accessRules)) {
+    issues.push('accessRules: expected an array');
+    return issues;
+  }
+  const ruleIds = new Set<string>();
+  (zoneMap.accessRules ?? []).forEach((rule, i) => {
+    const label = typeof rule?.id === 'string' && rule.id ? `accessRules.${rule.id}` : `accessRules[${i}]`;
+    if (typeof rule?.id !== 'string' || !rule.id) {
+      issues.push(`${label}: missing id`);
+    } else if (ruleIds.has(rule.id)) {
+      issues.push(`${label}: duplicate id`);
+    } else {
+      ruleIds.add(rule.id);
+    }
+
+    if (!Array.isArray(rule?.zoneIds) || rule.zoneIds.length === 0) {
+      issues.push(`${label}: zoneIds needs at least one zone`);
+    } else {
+      rule.zoneIds.filter(id => !seen.has(id)).forEach(id => issues.push(`${label}: unknown zone "${id}"`));
+    }
+    if (rule?.entityTypes !== undefined &&
+        (!Array.isArray(rule.entityTypes) || !rule.entityTypes.every(type => ENTITY_TYPES.includes(type)))) {
+      issues.push(`${label}: entityTypes must list ${ENTITY_TYPES.join(', ')}`);
+    }
+    if (rule?.activeHours !== undefined &&
+        !(TIME_OF_DAY.test(rule.activeHours?.from) && TIME_OF_DAY.test(rule.activeHours?.to))) {
+      issues.push(`${label}: activeHours needs "from" and "to" as HH:MM`);
+    }
+    if (rule?.requiresZoneId !== undefined && !seen.has(rule.requiresZoneId)) {
+      issues.push(`${label}: unknown zone "${rule.requiresZoneId}" in requiresZoneId`);
+    }
+    if (rule?.requiresWithinMs !== undefined) {
+      if (rule.requiresZoneId === undefined) {
+        issues.push(`${label}: requiresWithinMs needs requiresZoneId`);
+      } else if (!(Number.isFinite(rule.requiresWithinMs) && rule.requiresWithinMs > 0)) {
+        issues.push(`${label}: requiresWithinMs must be a positive number`);
+      }
+    }
+  });
+
+  return issues;
+}
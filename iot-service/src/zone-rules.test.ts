@@ -0,0 +1,143 @@
+import { ZoneRuleMonitor } from './zone-rules';
+import { ZoneRegistry } from './zone-registry';
+import { DTEvent, LanePoint, PositionTick, Zone, ZoneAccessRule } from './types';
+
+// Local times, as activeHours are
+const MIDDAY = new Date(2026, 0, 5, 12, 0).getTime();
+const MINUTE = 60 * 1000;
+
+function square(minX: number): LanePoint[] {
+  return [{ x: minX, y: 0 }, { x: minX + 10, y: 0 }, { x: minX + 10, y: 10 }, { x: minX, y: 10 }];
+}
+
+function zone(id: string, minX: number, type: Zone['type']): Zone {
+  return { id, name: id, type, polygon: square(minX) };
+}
+
+// Along x: hygiene | cold | dock | storage, 10 m each
+const CENTRE: Record<string, number> = { hygiene: 5, cold: 15, dock: 25, storage: 35 };
+
+const RULES: ZoneAccessRule[] = [
+  { id: 'cold-via-hygiene', zoneIds: ['cold'], entityTypes: ['worker'], requiresZoneId: 'hygiene', requiresWithinMs: 15 * MINUTE },
+  { id: 'hygiene-no-pallets', description: 'Pallets are not moved through hygiene control', zoneIds: ['hygiene'], entityTypes: ['pallet'] },
+  { id: 'docks-closed-overnight', zoneIds: ['dock'], entityTypes: ['worker'], activeHours: { from: '22:00', to: '06:00' } }
+];
+
+function registry(accessRules = RULES): ZoneRegistry {
+  return new ZoneRegistry({
+    units: 'meters',
+    zones: [zone('hygiene', 0, 'RESTRICTED'), zone('cold', 10, 'COLD_STORAGE'), zone('dock', 20, 'LOADING'), zone('storage', 30, 'STORAGE')],
+    accessRules
+  });
+}
+
+function tick(t: number, zoneId: string, type: PositionTick['type'] = 'worker', id = `${type}-1`): PositionTick {
+  return { id, type, x: CENTRE[zoneId]!, y: 5, speed: 1, heading: 0, zoneId, t };
+}
+
+describe('ZoneRuleMonitor', () => {
+  let monitor: ZoneRuleMonitor;
+
+  // One tick a second through the given zones, `seconds` in each
+  const walk = (from: number, zoneIds: string[], type: PositionTick['type'] = 'worker', seconds = 5): DTEvent[] => {
+    const events: DTEvent[] = [];
+    zoneIds.forEach((zoneId, i) => {
+      for (let s = 0; s < seconds; s++) {
+        events.push(...monitor.check([tick(from + (i * seconds + s) * 1000, zoneId, type)]));
+      }
+    });
+    return events;
+  };
+
+  beforeEach(() => {
+    let next = 0;
+    monitor = new ZoneRuleMonitor(registry(), () => `event-${++next}`);
+  });
+
+  describe('entity types', () => {
+    it('flags an entity type a zone is closed to, once per stay', () => {
+      const events = walk(MIDDAY, ['storage', 'hygiene', 'storage', 'hygiene'], 'pallet');
+
+      expect(events.map(event => event.t - MIDDAY)).toEqual([5000, 15000]);
+      expect(events[0]).toMatchObject({
+        type: 'zoneBreach',
+        assetIds: ['pallet-1'],
+        zoneId: 'hygiene',
+        payload: { rule: 'hygiene-no-pallets', entityType: 'pallet', reason: 'Pallets are not moved through hygiene control', severity: 'high' }
+      });
+    });
+
+    it('leaves other entity types alone', () => {
+      expect(walk(MIDDAY, ['storage', 'hygiene'], 'forklift')).toEqual([]);
+    });
+  });
+
+  describe('time windows', () => {
+    const at = (hours: number, minutes: number) => new Date(2026, 0, 5, hours, minutes).getTime();
+
+    it('applies a rule only inside its window, which may wrap past midnight', () => {
+      const breaches = (t: number) => {
+        monitor.reset();
+        return monitor.check([tick(t, 'dock')]).length;
+      };
+
+      expect(breaches(at(21, 59))).toBe(0);
+      expect(breaches(at(22, 0))).toBe(1);
+      expect(breaches(at(2, 30))).toBe(1);
+      expect(breaches(at(5, 59))).toBe(1);
+      expect(breaches(at(6, 0))).toBe(0);
+      expect(breaches(at(12, 0))).toBe(0);
+    });
+
+    it('flags an entity already in the zone when the window opens', () => {
+      const before = monitor.check([tick(at(21, 59), 'dock')]);
+      const after = monitor.check([tick(at(22, 0), 'dock')]);
+
+      expect(before).toEqual([]);
+      expect(after).toMatchObject([{ payload: { rule: 'docks-closed-overnight', reason: 'worker not allowed' } }]);
+    });
+  });
+
+  describe('required passage', () => {
+    it('lets an entity in after passing the required zone', () => {
+      expect(walk(MIDDAY, ['storage', 'hygiene', 'cold'])).toEqual([]);
+    });
+
+    it('flags entry without passing the required zone', () => {
+      const events = walk(MIDDAY, ['storage', 'dock', 'cold']);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        zoneId: 'cold',
+        payload: { rule: 'cold-via-hygiene', requiresZoneId: 'hygiene', reason: 'worker entered without passing hygiene' }
+      });
+    });
+
+    it('flags a passage longer ago than requiresWithinMs', () => {
+      walk(MIDDAY, ['hygiene', 'storage']);
+
+      expect(walk(MIDDAY + 10 * MINUTE, ['cold'])).toEqual([]);
+      walk(MIDDAY + 11 * MINUTE, ['storage']);
+      expect(walk(MIDDAY + 16 * MINUTE, ['cold'])).toHaveLength(1);
+    });
+
+    it('counts being in the required zone as passing it where zones overlap', () => {
+      const overlapping = new ZoneRegistry({
+        units: 'meters',
+        zones: [zone('hygiene', 10, 'RESTRICTED'), zone('cold', 10, 'COLD_STORAGE')],
+        accessRules: [RULES[0]!]
+      });
+      monitor = new ZoneRuleMonitor(overlapping);
+
+      expect(monitor.check([tick(MIDDAY, 'cold')])).toEqual([]);
+    });
+
+    it('forgets a passage once the entity has not been seen for an hour', () => {
+      monitor = new ZoneRuleMonitor(registry([{ ...RULES[0]!, requiresWithinMs: undefined }]));
+      walk(MIDDAY, ['hygiene']);
+
+      expect(walk(MIDDAY + 30 * MINUTE, ['cold', 'storage'])).toEqual([]);
+      expect(walk(MIDDAY + 95 * MINUTE, ['cold'])).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { PositionTick, DTEvent, ZoneAccessRule } from './types';
+import { ZoneRegistry } from './zone-registry';
+import { TickDetector } from './event-pipeline';
+import { v4 as uuidv4 } from 'uuid';
+
+const STALE_MS = 60 * 60 * 1000;   // forget entities not heard from for this long, passages included
+
+interface TrackedEntity {
+  enteredAt: Map<string, number>;  // zone id -> start of the current stay
+  lastVisit: Map<string, number>;  // zone id -> last tick seen inside
+  violations: Set<string>;         // "<rule id>:<zone id>" currently in effect
+  lastSeen: number;
+}
+
+/**
+ * Checks positions against the zone access rules from zones.json - which
+ * entity types may be in a zone, at what time of day, and which zone they
+ * must have passed through first - and raises a `zoneBreach` event naming
+ * the rule when an entity starts breaking one. The event is not repeated
+ * until the entity has complied again.
+ */
+export class ZoneRuleMonitor implements TickDetector {
+  private zones: ZoneRegistry;
+  private generateId: () => string;
+  private tracked: Map<string, TrackedEntity> = new Map();
+  private rulesByZone: Map<string, ZoneAccessRule[]> = new Map();   // zone id -> rules covering it
+  private lastSweep = 0;
+
+  constructor(zones: ZoneRegistry, generateId: () => string = () => uuidv4()) {
+    this.zones = zones;
+    this.generateId = generateId;
+    for (const rule of zones.getAccessRules()) {
+      for (const zoneId of rule.zoneIds) {
+        const rules = this.rulesByZone.get(zoneId);
+        if (rules) rules.push(rule);
+        else this.rulesByZone.set(zoneId, [rule]);
+      }
+    }
+  }
+
+  /**
+   * Check a batch of ticks, returning events for newly started violations
+   */
+  public check(ticks: PositionTick[]): DTEvent[] {
+    const events: DTEvent[] = [];
+    if (ticks.length === 0) return events;
+
+    for (const tick of ticks) {
+      const entity = this.track(tick);
+      const active = new Set<string>();
+
+      // Only the rules of the zones the entity is in can be broken
+      for (const zoneId of entity.enteredAt.keys()) {
+        for (const rule of this.rulesByZone.get(zoneId) ?? []) {
+          if (!this.isViolated(rule, zoneId, tick, entity)) continue;
+
+          const key = `${rule.id}:${zoneId}`;
+          active.add(key);
+          if (entity.violations.has(key)) continue;
+
+          events.push({
+            id: this.generateId(),
+            t: tick.t,
+            type: 'zoneBreach',
+            assetIds: [tick.id],
+            zoneId,
+            payload: {
+              rule: rule.id,
+              entityType: tick.type,
+              reason: rule.description || this.describe(rule, tick),
+              ...(rule.requiresZoneId && { requiresZoneId: rule.requiresZoneId }),
+              severity: 'high'
+            }
+          });
+        }
+      }
+
+      entity.violations = active;
+      for (const zoneId of entity.enteredAt.keys()) {
+        entity.lastVisit.set(zoneId, tick.t);
+      }
+    }
+
+    const now = ticks.reduce((latest, tick) => Math.max(latest, tick.t), 0);
+    if (now - this.lastSweep >= STALE_MS) {
+      this.tracked.forEach((entity, id) => {
+        if (now - entity.lastSeen > STALE_MS) this.tracked.delete(id);
+      });
+      this.lastSweep = now;
+    }
+
+    return events;
+  }
+
+  /**
+   * Drop all tracked state (e.g. when the tick source changes)
+   */
+  public reset(): void {
+    this.tracked.clear();
+    this.lastSweep = 0;
+  }
+
+  /**
+   * Update which zones an entity is in, noting when each stay began
+   */
+  private track(tick: PositionTick): TrackedEntity {
+    let entity = this.tracked.get(tick.id);
+    if (!entity || tick.t - entity.lastSeen > STALE_MS) {
+      entity = { enteredAt: new Map(), lastVisit: new Map(), violations: new Set(), lastSeen: tick.t };
+      this.tracked.set(tick.id, entity);
+    }
+    entity.lastSeen = tick.t;
+
+    const current = new Set(this.zones.zonesAt(tick).map(zone => zone.id));
+    for (const zoneId of entity.enteredAt.keys()) {
+      if (!current.has(zoneId)) entity.enteredAt.delete(zoneId);
+    }
+    for (const zoneId of current) {
+      if (!entity.enteredAt.has(zoneId)) entity.enteredAt.set(zoneId, tick.t);
+    }
+
+    return entity;
+  }
+
+  private isViolated(rule: ZoneAccessRule, zoneId: string, tick: PositionTick, entity: TrackedEntity): boolean {
+    if (rule.entityTypes && !rule.entityTypes.includes(tick.type)) return false;
+    if (rule.activeHours && !this.inWindow(rule.activeHours, tick.t)) return false;
+    if (!rule.requiresZoneId) return true;
+
+    // Being in the required zone counts as passing it (zones may overlap)
+    if (entity.enteredAt.has(rule.requiresZoneId)) return false;
+
+    // Otherwise the passage is judged at entry, against the last visit before it
+    const enteredAt = entity.enteredAt.get(zoneId)!;
+    const passedAt = entity.lastVisit.get(rule.requiresZoneId);
+    if (passedAt === undefined) return true;
+    return rule.requiresWithinMs !== undefined && enteredAt - passedAt > rule.requiresWithinMs;
+  }
+
+  // Local time of day; windows ending before they start wrap past midnight
+  private inWindow(window: { from: string; to: string }, t: number): boolean {
+    const date = new Date(t);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const from = this.minutesOfDay(window.from);
+    const to = this.minutesOfDay(window.to);
+    return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+  }
+
+  private minutesOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  }
+
+  private describe(rule: ZoneAccessRule, tick: PositionTick): string {
+    return rule.requiresZoneId
+      ? `${tick.type} entered without passing ${rule.requiresZoneId}`
+      : `${tick.type} not allowed`;
+  }
+}